@@ -1,79 +1,163 @@
 #!/usr/bin/env node
 import * as cdk from 'aws-cdk-lib'
+import * as path from 'path'
 import { NetworkStack } from '../lib/network-stack'
 import { InfrastructureStack } from '../lib/infrastructure-stack'
 import { ObservabilityStack } from '../lib/observability-stack'
 import { ConfigLoader, CrossStackUtils } from '../lib/stack-config'
+import { SecurityRulesAspect } from '../lib/security-rules'
+import {
+  DeploymentMatrix,
+  DeploymentTarget,
+  loadDeploymentMatrix,
+  filterTargets,
+  isPrimaryRegion,
+  targetName,
+  DEFAULT_MATRIX_FILE
+} from '../lib/deployment-matrix'
 
 const app = new cdk.App()
 
-// Get environment and region from context or environment variables
-const environment =
-  app.node.tryGetContext('environment') || process.env.ENVIRONMENT || 'dev'
-const region =
-  app.node.tryGetContext('region') ||
-  process.env.CDK_DEFAULT_REGION ||
-  'ap-southeast-1'
-const account =
+const defaultAccount =
   app.node.tryGetContext('account') || process.env.CDK_DEFAULT_ACCOUNT
 
-// Load configuration for the environment
-const config = ConfigLoader.loadConfig(environment, region)
-ConfigLoader.validateConfig(config)
-
-// Define common stack properties
-const stackProps: cdk.StackProps = {
-  env: {
-    account,
-    region
-  },
-  description: `EKS Observability Stack - ${environment} environment`,
-  tags: {
-    Environment: environment,
-    Project: 'eks-observability',
-    ManagedBy: 'CDK'
-  }
+// Either a deployment matrix (-c matrix=<file>, or -c matrix=true for config/deployments.yaml)
+// or a single environment and region from context or environment variables
+const matrixFile = app.node.tryGetContext('matrix')
+const matrix: DeploymentMatrix = matrixFile
+  ? loadDeploymentMatrix(matrixFile === true || matrixFile === 'true' ? DEFAULT_MATRIX_FILE : path.resolve(matrixFile))
+  : {
+      targets: [
+        {
+          environment:
+            app.node.tryGetContext('environment') || process.env.ENVIRONMENT || 'dev',
+          region:
+            app.node.tryGetContext('region') ||
+            process.env.CDK_DEFAULT_REGION ||
+            'ap-southeast-1'
+        }
+      ]
+    }
+
+// Optionally synthesize only a subset, e.g. -c targets=prod/*,dev/eu-west-1
+const targets = filterTargets(matrix.targets, app.node.tryGetContext('targets'))
+if (targets.length === 0) {
+  throw new Error(`No deployment target matches '${app.node.tryGetContext('targets')}'`)
 }
 
-// Create NetworkStack
-const networkStack = new NetworkStack(
-  app,
-  CrossStackUtils.generateStackName(environment, 'network'),
-  config,
-  stackProps
-)
+const central = matrix.centralGrafana
+const isCentral = (target: DeploymentTarget) =>
+  central !== undefined &&
+  target.environment === central.environment &&
+  target.region === central.region
 
-// Create InfrastructureStack (depends on NetworkStack)
-const infrastructureStack = new InfrastructureStack(
-  app,
-  CrossStackUtils.generateStackName(environment, 'infrastructure'),
-  config,
-  stackProps
-)
-infrastructureStack.addDependency(networkStack)
-
-// Create ObservabilityStack (depends on both NetworkStack and InfrastructureStack)
-const observabilityStack = new ObservabilityStack(
-  app,
-  CrossStackUtils.generateStackName(environment, 'observability'),
-  config,
-  stackProps
-)
-observabilityStack.addDependency(networkStack)
-observabilityStack.addDependency(infrastructureStack)
+/**
+ * Network, infrastructure and observability stacks of one target
+ */
+function createStackSet (target: DeploymentTarget): ObservabilityStack {
+  const { environment, region } = target
+  const account = target.account || defaultAccount
+  // Stacks outside the environment's first region carry the region in their names
+  const primary = isPrimaryRegion(matrix.targets, target)
+  const stackName = (stackType: string) =>
+    CrossStackUtils.generateStackName(environment, stackType, primary ? undefined : region)
+
+  // Load layered configuration for the environment
+  // (defaults → config/environments/<env>.yaml → context → EKS_OBS_* env vars → matrix overrides)
+  const loadedConfig = ConfigLoader.loadConfigWithSources(environment, region, {
+    context: key => app.node.tryGetContext(key),
+    overrides: target.overrides
+  })
+  const config = loadedConfig.config
+  ConfigLoader.validateConfig(config)
+
+  // Define common stack properties
+  const stackProps: cdk.StackProps = {
+    env: {
+      account,
+      region
+    },
+    description: `EKS Observability Stack - ${environment} environment`,
+    tags: {
+      Environment: environment,
+      Project: 'eks-observability',
+      ManagedBy: 'CDK'
+    }
+  }
+
+  // Create NetworkStack
+  const networkStack = new NetworkStack(
+    app,
+    stackName('network'),
+    config,
+    stackProps
+  )
+
+  // Create InfrastructureStack (depends on NetworkStack)
+  const infrastructureStack = new InfrastructureStack(
+    app,
+    stackName('infrastructure'),
+    config,
+    stackProps
+  )
+  infrastructureStack.addDependency(networkStack)
 
-// Add additional tags to identify stack relationships
-cdk.Tags.of(networkStack).add('StackType', 'Network')
-cdk.Tags.of(infrastructureStack).add('StackType', 'Infrastructure')
-cdk.Tags.of(observabilityStack).add('StackType', 'Observability')
+  // Create ObservabilityStack (depends on both NetworkStack and InfrastructureStack)
+  const observabilityStack = new ObservabilityStack(
+    app,
+    stackName('observability'),
+    config,
+    {
+      ...stackProps,
+      qualifyGlobalNames: !primary,
+      skipGrafana: central !== undefined && !isCentral(target),
+      // Only targets of this run, whose stacks the central stack can depend on
+      aggregatedTargets: isCentral(target)
+        ? targets.filter(other => !isCentral(other))
+        : undefined
+    }
+  )
+  observabilityStack.addDependency(networkStack)
+  observabilityStack.addDependency(infrastructureStack)
 
-// Output deployment information
-console.log(
-  `Deploying EKS Observability stacks for environment: ${environment}`
+  // Add additional tags to identify stack relationships
+  cdk.Tags.of(networkStack).add('StackType', 'Network')
+  cdk.Tags.of(infrastructureStack).add('StackType', 'Infrastructure')
+  cdk.Tags.of(observabilityStack).add('StackType', 'Observability')
+
+  // Check every stack against the security rule pack; violations fail prod synths
+  const securityRules = new SecurityRulesAspect({ failOnViolation: environment === 'prod' })
+  for (const stack of [networkStack, infrastructureStack, observabilityStack]) {
+    cdk.Aspects.of(stack).add(securityRules)
+  }
+
+  // Output deployment information
+  console.log(
+    `Deploying EKS Observability stacks for environment: ${environment}`
+  )
+  console.log(`Region: ${region}`)
+  console.log(`Account: ${account || 'default'}`)
+  console.log(`Stack names:`)
+  console.log(`  - ${networkStack.stackName}`)
+  console.log(`  - ${infrastructureStack.stackName}`)
+  console.log(`  - ${observabilityStack.stackName}`)
+  console.log(`Configuration:`)
+  ConfigLoader.describeSources(loadedConfig).forEach(line => console.log(`  - ${line}`))
+
+  return observabilityStack
+}
+
+const observabilityStacks = new Map(
+  targets.map(target => [targetName(target), createStackSet(target)])
 )
-console.log(`Region: ${region}`)
-console.log(`Account: ${account || 'default'}`)
-console.log(`Stack names:`)
-console.log(`  - ${networkStack.stackName}`)
-console.log(`  - ${infrastructureStack.stackName}`)
-console.log(`  - ${observabilityStack.stackName}`)
+
+// The central Grafana workspace reads the Prometheus endpoints of the other targets,
+// so it deploys after their observability stacks when they are part of this run
+const centralStack = central && observabilityStacks.get(targetName(central))
+if (centralStack) {
+  for (const [name, stack] of observabilityStacks) {
+    if (stack !== centralStack) {
+      centralStack.addDependency(stack, `Grafana in ${targetName(central)} aggregates ${name}`)
+    }
+  }
+}
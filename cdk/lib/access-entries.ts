@@ -0,0 +1,31 @@
+/**
+ * Placeholder for the deployment account in configured principal ARNs
+ */
+export const ACCOUNT_PLACEHOLDER = '${AWS_ACCOUNT_ID}'
+
+/**
+ * Principal ARN with the deployment account written as `${AWS_ACCOUNT_ID}`, so that both
+ * spellings of a principal compare equal. Without a known account, literal accounts stay.
+ */
+export function normalizePrincipalArn (principalArn: string, account?: string): string {
+  const parts = principalArn.split(':')
+  if (account !== undefined && parts[4] === account) {
+    parts[4] = ACCOUNT_PLACEHOLDER
+  }
+  return parts.join(':')
+}
+
+/**
+ * Construct ID for an access entry, derived from the whole normalised ARN: path, name and
+ * type, and the account when it is not the deployment account. Principals of the
+ * deployment account keep their IDs, e.g. role/Admin stays `AdminRoleAccess`.
+ */
+export function accessEntryId (principalArn: string, account?: string): string {
+  const [, , , , principalAccount, resource = ''] = normalizePrincipalArn(principalArn, account).split(':')
+  const [type, ...path] = resource.split('/')
+  const name = path.pop() ?? ''
+  const pascal = (value: string) =>
+    value.split(/[^A-Za-z0-9]+/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')
+  const foreignAccount = principalAccount === ACCOUNT_PLACEHOLDER ? '' : principalAccount
+  return `${pascal(path.join('-'))}${pascal(name)}${pascal(type)}${foreignAccount}Access`
+}
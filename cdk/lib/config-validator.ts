@@ -0,0 +1,1023 @@
+import * as logs from 'aws-cdk-lib/aws-logs'
+import {
+  DEFAULT_CLUSTER_ENDPOINT_CONFIG,
+  DEFAULT_NETWORK_CONFIG,
+  DEFAULT_OPENSEARCH_MASTER_USER,
+  DEFAULT_OPENSEARCH_INDEX_LIFECYCLE,
+  DEFAULT_PIPELINE_ARCHIVE_CONFIG,
+  DEFAULT_PIPELINE_SETTINGS,
+  DEFAULT_TRACE_METRICS_CONFIG,
+  VPC_ENDPOINT_SERVICES,
+  PRIVATE_ONLY_REQUIRED_ENDPOINTS,
+  FLOW_LOG_FIELDS,
+  PII_KINDS,
+  MULTILINE_PARSERS,
+  type StackConfig,
+  type FlowLogsConfig,
+  type LogParsingConfig,
+  type OpenSearchConfig,
+  type OpenSearchTopologyConfig,
+  type PipelinesConfig,
+  type PipelineArchiveConfig,
+  type PipelineSettingsConfig,
+  type TraceMetricsConfig,
+  type AccessEntryConfig,
+  type ClusterEndpointConfig,
+  type NodeGroupConfig,
+  type KarpenterConfig,
+  type NetworkConfig
+} from './stack-config'
+import { SUPPORTED_EKS_VERSIONS } from './eks-versions'
+import { accessEntryId } from './access-entries'
+import { NODE_GROUP_AMI_ARCHITECTURES, isGravitonInstanceType } from './node-groups'
+import {
+  DEDICATED_MASTER_COUNTS,
+  ULTRAWARM_INSTANCE_TYPES,
+  isBurstableSearchInstanceType,
+  resolveOpenSearchTopology
+} from './opensearch-topology'
+
+/**
+ * A single problem found while validating a StackConfig
+ */
+export interface ConfigIssue {
+  /** Configuration key the problem relates to */
+  key: string
+  /** Human readable description of the problem */
+  message: string
+}
+
+/**
+ * Error raised when a StackConfig fails validation, carrying every issue found
+ */
+export class ConfigValidationError extends Error {
+  constructor (
+    public readonly environment: string,
+    public readonly issues: ConfigIssue[]
+  ) {
+    super(
+      `Invalid configuration for environment '${environment}' (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n` +
+        issues.map(issue => `  - ${issue.key}: ${issue.message}`).join('\n')
+    )
+    this.name = 'ConfigValidationError'
+  }
+}
+
+/**
+ * A rule returns one or more error messages, or undefined when the value is acceptable
+ */
+type Rule<T> = (value: T, config: StackConfig) => string | string[] | undefined
+
+/**
+ * Validation schema for one StackConfig field
+ */
+interface FieldSchema<T> {
+  /** Whether the field must be present */
+  required: boolean
+  /** Expected runtime type */
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object'
+  /** Rules applied in order; the first failing rule is reported */
+  rules: Rule<T>[]
+}
+
+/**
+ * Regions with fewer than the three availability zones the default VPC layout expects
+ */
+export const REGIONS_WITH_FEWER_THAN_3_AZS: Record<string, number> = {
+  'us-west-1': 2
+}
+
+/**
+ * Managed node groups cannot grow past 450 nodes
+ */
+const MAX_NODE_GROUP_SIZE = 450
+
+/**
+ * The derived default node group adds 2 nodes of headroom above nodeCount
+ */
+const MAX_NODE_COUNT = MAX_NODE_GROUP_SIZE - 2
+
+const ENVIRONMENT_PATTERN = /^[a-z][a-z0-9-]{0,19}$/
+const REGION_PATTERN = /^[a-z]{2}(-gov|-iso[a-z]?)?-[a-z]+-\d$/
+const EKS_VERSION_PATTERN = /^1\.\d{2}$/
+const INSTANCE_TYPE_PATTERN =
+  /^[a-z][a-z0-9-]*\d[a-z0-9-]*\.(nano|micro|small|medium|large|xlarge|[1-9]\d*xlarge|metal(-\d+xl)?)$/
+const CIDR_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/
+const IAM_PRINCIPAL_PATTERN = /^arn:aws[a-z-]*:iam::(\d{12}|\$\{AWS_ACCOUNT_ID\}):(role|user)\/[\w+=,.@/-]+$/
+const ACCESS_POLICY_PATTERN = /^AmazonEKS[A-Za-z]+Policy$/
+const NAMESPACE_PATTERN = /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/
+const NODE_GROUP_NAME_PATTERN = /^[a-z][a-z0-9-]{0,29}$/
+const LABEL_KEY_PATTERN = /^([a-z0-9]([-a-z0-9.]{0,251}[a-z0-9])?\/)?[A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?$/
+const LABEL_VALUE_PATTERN = /^([A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?)?$/
+const TAINT_EFFECTS = ['NO_SCHEDULE', 'PREFER_NO_SCHEDULE', 'NO_EXECUTE']
+const CAPACITY_TYPES = ['ON_DEMAND', 'SPOT']
+const KARPENTER_CAPACITY_TYPES = ['on-demand', 'spot']
+const KARPENTER_ARCHITECTURES = ['amd64', 'arm64']
+const KARPENTER_INSTANCE_CATEGORY_PATTERN = /^[a-z]$/
+const DURATION_PATTERN = /^(\d+h)?(\d+m)?(\d+s)?$/
+const LOCAL_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/
+const VPC_ID_PATTERN = /^vpc-[0-9a-f]{8}([0-9a-f]{9})?$/
+const FLOW_LOG_DESTINATIONS = ['cloudwatch', 's3', 'opensearch']
+const FLOW_LOG_TRAFFIC_TYPES = ['ALL', 'ACCEPT', 'REJECT']
+const LOG_RETENTION_DAYS = Object.values(logs.RetentionDays).filter((days): days is number => typeof days === 'number')
+const CLUSTER_ENDPOINT_ACCESS = ['public', 'public-and-private', 'private']
+const MASTER_USER_TYPES = ['secret', 'iam-role']
+const MASTER_USER_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]{0,63}$/
+const PIPELINE_NAMES = ['logs', 'traces', 'flowLogs', 'metrics']
+const MAX_PIPELINE_UNITS = 96
+const SEARCH_INSTANCE_TYPE_PATTERN = /^[a-z][a-z0-9]*\.[a-z0-9]+\.search$/
+const IAM_ROLE_PATTERN = /^arn:aws[a-z-]*:iam::(\d{12}|\$\{AWS_ACCOUNT_ID\}):role\/[\w+=,.@/-]+$/
+const LAYOUT_KEYS = ['maxAzs', 'natGateways', 'publicSubnetCidrMask', 'privateSubnetCidrMask', 'isolatedSubnetCidrMask'] as const
+
+/**
+ * Subnet tiers and their prefix lengths, one subnet per tier in each AZ
+ */
+function subnetLayout (config: StackConfig): { maxAzs: number, masks: number[] } {
+  const network = { ...DEFAULT_NETWORK_CONFIG, ...config.network }
+  const masks = [network.publicSubnetCidrMask, network.privateSubnetCidrMask]
+  if (network.isolatedSubnetCidrMask) {
+    masks.push(network.isolatedSubnetCidrMask)
+  }
+  return { maxAzs: network.maxAzs, masks }
+}
+
+function validateSubnetCapacity (cidr: string, config: StackConfig): string | undefined {
+  if (config.network?.existingVpc) {
+    return undefined // the existing VPC brings its own layout
+  }
+  const { maxAzs, masks } = subnetLayout(config)
+  if (!Number.isInteger(maxAzs) || masks.some(mask => !Number.isInteger(mask))) {
+    return undefined // reported under 'network'
+  }
+  const prefix = Number(cidr.split('/')[1])
+  const needed = masks.reduce((total, mask) => total + maxAzs * 2 ** (32 - mask), 0)
+  return needed > 2 ** (32 - prefix)
+    ? `/${prefix} cannot hold the subnet layout (${masks.length * maxAzs} subnets need ${needed} addresses)`
+    : undefined
+}
+
+function validateNetwork (network: NetworkConfig, config: StackConfig): string[] {
+  const messages: string[] = []
+
+  if (network.existingVpc !== undefined) {
+    const { vpcId, tags } = network.existingVpc ?? {}
+    if (vpcId === undefined && tags === undefined) {
+      messages.push('existingVpc needs a vpcId or tags to look the VPC up')
+    }
+    if (vpcId !== undefined && !VPC_ID_PATTERN.test(vpcId)) {
+      messages.push(`existingVpc.vpcId '${vpcId}' is not a VPC ID like 'vpc-0123456789abcdef0'`)
+    }
+    if (tags !== undefined && (typeof tags !== 'object' || Array.isArray(tags) ||
+        Object.values(tags).some(value => typeof value !== 'string'))) {
+      messages.push('existingVpc.tags must map tag keys to string values')
+    }
+    LAYOUT_KEYS
+      .filter(key => network[key] !== undefined)
+      .forEach(key => messages.push(`${key} cannot be combined with existingVpc`))
+  }
+  const { maxAzs, natGateways } = { ...DEFAULT_NETWORK_CONFIG, ...network }
+  const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value)
+
+  if (!isWholeNumber(maxAzs) || maxAzs < 2 || maxAzs > 6) {
+    messages.push('maxAzs must be a whole number between 2 and 6 (EKS needs subnets in at least 2 AZs)')
+  }
+  if (!isWholeNumber(natGateways) || natGateways < 0) {
+    messages.push('natGateways must be a whole number, 0 or more')
+  } else if (isWholeNumber(maxAzs) && natGateways > maxAzs) {
+    messages.push(`natGateways (${natGateways}) cannot exceed maxAzs (${maxAzs})`)
+  }
+  for (const key of ['publicSubnetCidrMask', 'privateSubnetCidrMask', 'isolatedSubnetCidrMask'] as const) {
+    const mask = network[key]
+    if (mask !== undefined && (!isWholeNumber(mask) || mask < 16 || mask > 28)) {
+      messages.push(`${key} must be a whole number between 16 and 28`)
+    }
+  }
+
+  const endpoints = network.vpcEndpoints ?? []
+  if (!Array.isArray(endpoints)) {
+    messages.push('vpcEndpoints must be a list of service names')
+    return messages
+  }
+  const supported: readonly string[] = VPC_ENDPOINT_SERVICES
+  endpoints
+    .filter(service => !supported.includes(service))
+    .forEach(service => messages.push(`vpcEndpoints contains unsupported service '${service}' (supported: ${VPC_ENDPOINT_SERVICES.join(', ')})`))
+  endpoints
+    .filter((service, index) => endpoints.indexOf(service) !== index)
+    .forEach(service => messages.push(`vpcEndpoints lists '${service}' more than once`))
+  if (natGateways === 0) {
+    const missing = PRIVATE_ONLY_REQUIRED_ENDPOINTS.filter(service => !endpoints.includes(service))
+    if (missing.length > 0) {
+      messages.push(`natGateways 0 leaves no internet egress; vpcEndpoints must include ${missing.join(', ')}`)
+    }
+    // The index lifecycle setup function in the private subnets reads the master user's secret
+    const masterUserType = config.openSearch?.masterUser?.type ?? DEFAULT_OPENSEARCH_MASTER_USER.type
+    if (masterUserType === 'secret' && config.openSearch?.allowUnsignedDashboardsAccess === true &&
+        !endpoints.includes('secretsmanager')) {
+      messages.push('natGateways 0 with a secret OpenSearch master user; vpcEndpoints must include secretsmanager')
+    }
+    // The rotation function in the private subnets waits for the domain to apply a new password
+    if (masterUserType === 'secret' && config.openSearch?.masterUser?.rotationDays !== undefined &&
+        !endpoints.includes('es')) {
+      messages.push('natGateways 0 with master user rotation; vpcEndpoints must include es')
+    }
+    // With private endpoint access the kubectl handler and its provider framework run in the
+    // private subnets, and the framework invokes the handler through the Lambda API
+    const access = config.clusterEndpoint?.access ?? DEFAULT_CLUSTER_ENDPOINT_CONFIG.access
+    if (access !== 'public' && !endpoints.includes('lambda')) {
+      messages.push(`natGateways 0 with ${access} cluster endpoint access; vpcEndpoints must include lambda for the kubectl handler`)
+    }
+  }
+
+  return messages
+}
+
+function validateCidr (cidr: string): string | undefined {
+  const match = CIDR_PATTERN.exec(cidr)
+  if (!match) {
+    return `'${cidr}' is not an IPv4 CIDR block (expected a.b.c.d/n)`
+  }
+  const octets = match.slice(1, 5).map(Number)
+  const prefix = Number(match[5])
+  if (octets.some(octet => octet > 255)) {
+    return `'${cidr}' contains an octet greater than 255`
+  }
+  if (prefix < 16 || prefix > 28) {
+    return `prefix /${prefix} is outside the /16-/28 range allowed for VPCs`
+  }
+  const address = octets.reduce((acc, octet) => acc * 256 + octet, 0)
+  if (address % 2 ** (32 - prefix) !== 0) {
+    return `'${cidr}' has host bits set; the network address is not aligned to /${prefix}`
+  }
+  return undefined
+}
+
+function validateNodeGroups (groups: NodeGroupConfig[]): string[] {
+  const messages: string[] = []
+  const seen = new Set<string>()
+  const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value)
+
+  groups.forEach((group, index) => {
+    const at = `[${index}]`
+    if (!group || typeof group !== 'object') {
+      messages.push(`${at} must be an object with 'name', 'instanceTypes', 'minSize' and 'maxSize'`)
+      return
+    }
+
+    if (!group.name || !NODE_GROUP_NAME_PATTERN.test(group.name)) {
+      messages.push(`${at}.name '${group.name ?? ''}' must start with a lowercase letter and contain only lowercase letters, digits and '-' (max 30 characters)`)
+    } else if (seen.has(group.name)) {
+      messages.push(`${at}.name '${group.name}' is declared more than once`)
+    } else {
+      seen.add(group.name)
+    }
+
+    if (!Array.isArray(group.instanceTypes) || group.instanceTypes.length === 0) {
+      messages.push(`${at}.instanceTypes must list at least one instance type`)
+    } else {
+      group.instanceTypes
+        .filter(instanceType => !INSTANCE_TYPE_PATTERN.test(instanceType))
+        .forEach(instanceType => messages.push(`${at}.instanceTypes contains invalid instance type '${instanceType}'`))
+
+      const architectures = new Set(group.instanceTypes.map(type => isGravitonInstanceType(type) ? 'arm64' : 'x86_64'))
+      if (architectures.size > 1) {
+        messages.push(`${at}.instanceTypes mixes Graviton (arm64) and x86_64 instance types`)
+      } else if (group.amiType && group.amiType in NODE_GROUP_AMI_ARCHITECTURES) {
+        const [architecture] = architectures
+        if (NODE_GROUP_AMI_ARCHITECTURES[group.amiType] !== architecture) {
+          messages.push(`${at}.amiType ${group.amiType} does not match ${architecture} instance types`)
+        }
+      }
+    }
+
+    if (group.amiType !== undefined && !(group.amiType in NODE_GROUP_AMI_ARCHITECTURES)) {
+      messages.push(
+        `${at}.amiType '${group.amiType}' is not supported (supported: ${Object.keys(NODE_GROUP_AMI_ARCHITECTURES).join(', ')})`
+      )
+    }
+    if (group.capacityType !== undefined && !CAPACITY_TYPES.includes(group.capacityType)) {
+      messages.push(`${at}.capacityType must be one of ${CAPACITY_TYPES.join(', ')}`)
+    }
+    if (group.diskSize !== undefined && (!isWholeNumber(group.diskSize) || group.diskSize < 20 || group.diskSize > 16384)) {
+      messages.push(`${at}.diskSize must be a whole number of GiB between 20 and 16384`)
+    }
+
+    const sizes = { minSize: group.minSize, maxSize: group.maxSize, desiredSize: group.desiredSize ?? group.minSize }
+    const invalidSizes = Object.entries(sizes).filter(([, value]) => !isWholeNumber(value) || value < 0)
+    if (invalidSizes.length > 0) {
+      invalidSizes.forEach(([key]) => messages.push(`${at}.${key} must be a whole number of nodes`))
+    } else if (sizes.maxSize < 1 || sizes.maxSize > MAX_NODE_GROUP_SIZE) {
+      messages.push(`${at}.maxSize must be between 1 and ${MAX_NODE_GROUP_SIZE}`)
+    } else if (!(sizes.minSize <= sizes.desiredSize && sizes.desiredSize <= sizes.maxSize)) {
+      messages.push(`${at} scaling bounds must satisfy minSize <= desiredSize <= maxSize`)
+    }
+
+    Object.entries(group.labels ?? {}).forEach(([key, value]) => {
+      if (!LABEL_KEY_PATTERN.test(key)) {
+        messages.push(`${at}.labels has invalid key '${key}'`)
+      } else if (typeof value !== 'string' || !LABEL_VALUE_PATTERN.test(value)) {
+        messages.push(`${at}.labels['${key}'] has invalid value '${value}'`)
+      }
+    })
+
+    ;(group.taints ?? []).forEach((taint, taintIndex) => {
+      const taintAt = `${at}.taints[${taintIndex}]`
+      if (!taint?.key || !LABEL_KEY_PATTERN.test(taint.key)) {
+        messages.push(`${taintAt}.key '${taint?.key ?? ''}' is not a valid taint key`)
+      }
+      if (taint?.value !== undefined && !LABEL_VALUE_PATTERN.test(taint.value)) {
+        messages.push(`${taintAt}.value '${taint.value}' is not a valid taint value`)
+      }
+      if (!TAINT_EFFECTS.includes(taint?.effect)) {
+        messages.push(`${taintAt}.effect must be one of ${TAINT_EFFECTS.join(', ')}`)
+      }
+    })
+  })
+
+  return messages
+}
+
+function validateKarpenter (karpenter: KarpenterConfig): string[] {
+  const messages: string[] = []
+  const listOf = (key: keyof KarpenterConfig, allowed: (value: string) => boolean, description: string) => {
+    const values = karpenter[key]
+    if (values === undefined) {
+      return
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      messages.push(`${key} must list at least one value`)
+    } else {
+      values.filter(value => !allowed(value)).forEach(value => messages.push(`${key} contains '${value}', expected ${description}`))
+    }
+  }
+  const duration = (key: 'expireAfter' | 'consolidateAfter') => {
+    const value = karpenter[key]
+    if (value !== undefined && (typeof value !== 'string' || value === '' || !DURATION_PATTERN.test(value))) {
+      messages.push(`${key} '${value}' is not a duration like '720h' or '30s'`)
+    }
+  }
+
+  if (typeof karpenter.enabled !== 'boolean') {
+    messages.push('enabled must be true or false')
+  }
+  if (karpenter.version !== undefined && !SEMVER_PATTERN.test(karpenter.version)) {
+    messages.push(`version '${karpenter.version}' is not a chart version like '1.6.3'`)
+  }
+  listOf('capacityTypes', value => KARPENTER_CAPACITY_TYPES.includes(value), KARPENTER_CAPACITY_TYPES.join(' or '))
+  listOf('architectures', value => KARPENTER_ARCHITECTURES.includes(value), KARPENTER_ARCHITECTURES.join(' or '))
+  listOf('instanceCategories', value => KARPENTER_INSTANCE_CATEGORY_PATTERN.test(value), 'a single lowercase letter')
+  if (karpenter.cpuLimit !== undefined && !(Number.isInteger(karpenter.cpuLimit) && karpenter.cpuLimit > 0)) {
+    messages.push('cpuLimit must be a positive whole number of vCPUs')
+  }
+  if (karpenter.diskSize !== undefined && !(Number.isInteger(karpenter.diskSize) && karpenter.diskSize >= 20)) {
+    messages.push('diskSize must be a whole number of GiB, at least 20')
+  }
+  duration('expireAfter')
+  duration('consolidateAfter')
+
+  return messages
+}
+
+function validateFlowLogs (flowLogs: FlowLogsConfig): string[] {
+  const messages: string[] = []
+  const destination = flowLogs.destination ?? 'cloudwatch'
+
+  if (typeof flowLogs.enabled !== 'boolean') {
+    messages.push('enabled must be true or false')
+  }
+  if (!FLOW_LOG_DESTINATIONS.includes(destination)) {
+    messages.push(`destination '${destination}' is not supported (supported: ${FLOW_LOG_DESTINATIONS.join(', ')})`)
+  }
+  if (flowLogs.trafficType !== undefined && !FLOW_LOG_TRAFFIC_TYPES.includes(flowLogs.trafficType)) {
+    messages.push(`trafficType '${flowLogs.trafficType}' must be one of ${FLOW_LOG_TRAFFIC_TYPES.join(', ')}`)
+  }
+  if (flowLogs.maxAggregationInterval !== undefined && ![60, 600].includes(flowLogs.maxAggregationInterval)) {
+    messages.push('maxAggregationInterval must be 60 or 600 seconds')
+  }
+
+  if (flowLogs.fields !== undefined) {
+    if (!Array.isArray(flowLogs.fields) || flowLogs.fields.length === 0) {
+      messages.push('fields must list at least one flow log field')
+    } else {
+      const known: readonly string[] = FLOW_LOG_FIELDS
+      flowLogs.fields
+        .filter(field => !known.includes(field))
+        .forEach(field => messages.push(`fields contains unknown flow log field '${field}'`))
+      flowLogs.fields
+        .filter((field, index) => flowLogs.fields!.indexOf(field) !== index)
+        .forEach(field => messages.push(`fields lists '${field}' more than once`))
+      if (destination === 'opensearch' && !flowLogs.fields.includes('start')) {
+        messages.push("fields must include 'start' for the opensearch destination, it becomes @timestamp")
+      }
+    }
+  }
+
+  const retention = flowLogs.retentionDays
+  if (retention !== undefined) {
+    if (!(Number.isInteger(retention) && retention > 0)) {
+      messages.push('retentionDays must be a positive whole number of days')
+    } else if (destination === 'cloudwatch' && !LOG_RETENTION_DAYS.includes(retention)) {
+      messages.push(`retentionDays ${retention} is not a CloudWatch Logs retention period (${LOG_RETENTION_DAYS.join(', ')})`)
+    }
+  }
+
+  return messages
+}
+
+function validateOpenSearch (openSearch: OpenSearchConfig, config: StackConfig): string[] {
+  const messages: string[] = []
+  const masterUser = openSearch.masterUser
+
+  if (masterUser !== undefined) {
+    if (!MASTER_USER_TYPES.includes(masterUser?.type)) {
+      messages.push(`masterUser.type must be one of ${MASTER_USER_TYPES.join(', ')}`)
+    } else if (masterUser.type === 'secret') {
+      if (masterUser.userName !== undefined && !MASTER_USER_NAME_PATTERN.test(masterUser.userName)) {
+        messages.push(`masterUser.userName '${masterUser.userName}' must start with a letter and contain only letters, digits, '_', '.' and '-' (max 64 characters)`)
+      }
+      // Secrets Manager accepts rotation intervals of 1 to 1000 days
+      const days = masterUser.rotationDays
+      if (days !== undefined && !(Number.isInteger(days) && days >= 1 && days <= 1000)) {
+        messages.push('masterUser.rotationDays must be a whole number of days between 1 and 1000')
+      }
+      if (masterUser.roleArn !== undefined) {
+        messages.push('masterUser.roleArn is only allowed for the iam-role type')
+      }
+    } else {
+      if (masterUser.roleArn !== undefined && !IAM_ROLE_PATTERN.test(masterUser.roleArn)) {
+        messages.push(`masterUser.roleArn '${masterUser.roleArn}' is not an IAM role ARN`)
+      }
+      ;(['userName', 'rotationDays'] as const)
+        .filter(key => masterUser[key] !== undefined)
+        .forEach(key => messages.push(`masterUser.${key} is only allowed for the secret type`))
+    }
+  }
+
+  const admins = openSearch.admins
+  if (admins !== undefined) {
+    if (!Array.isArray(admins) || admins.length === 0) {
+      messages.push('admins must list at least one IAM role or user ARN')
+    } else {
+      admins
+        .filter(arn => !IAM_PRINCIPAL_PATTERN.test(arn))
+        .forEach(arn => messages.push(`admins entry '${arn}' is not an IAM role or user ARN`))
+      admins
+        .filter((arn, index) => admins.indexOf(arn) !== index)
+        .forEach(arn => messages.push(`admins entry '${arn}' is listed more than once`))
+    }
+  }
+
+  const allowUnsigned = openSearch.allowUnsignedDashboardsAccess
+  if (allowUnsigned !== undefined && typeof allowUnsigned !== 'boolean') {
+    messages.push('allowUnsignedDashboardsAccess must be true or false')
+  } else if (allowUnsigned && (masterUser?.type ?? DEFAULT_OPENSEARCH_MASTER_USER.type) !== 'secret') {
+    // Only internal users can sign in with basic auth
+    messages.push('allowUnsignedDashboardsAccess needs masterUser.type secret')
+  } else if (!allowUnsigned && masterUser?.type === 'secret' && masterUser.rotationDays !== undefined) {
+    // The rotation tests each new password with a basic-auth request before making it current
+    messages.push('masterUser.rotationDays needs allowUnsignedDashboardsAccess')
+  }
+
+  const lifecycle = openSearch.indexLifecycle
+  if (lifecycle !== undefined) {
+    ;(['warmAfterDays', 'logRetentionDays', 'traceRetentionDays', 'metricsRetentionDays', 'shards'] as const)
+      .filter(key => lifecycle[key] !== undefined && !(Number.isInteger(lifecycle[key]) && lifecycle[key]! >= 1))
+      .forEach(key => messages.push(`indexLifecycle.${key} must be a whole number of at least 1`))
+    const { warmAfterDays, logRetentionDays } = { ...DEFAULT_OPENSEARCH_INDEX_LIFECYCLE, ...lifecycle }
+    if (warmAfterDays >= logRetentionDays) {
+      messages.push(`indexLifecycle.warmAfterDays ${warmAfterDays} must be less than logRetentionDays ${logRetentionDays}`)
+    }
+  }
+
+  if (openSearch.topology !== undefined) {
+    messages.push(...validateOpenSearchTopology(openSearch.topology, config).map(message => `topology.${message}`))
+  }
+
+  return messages
+}
+
+function validateOpenSearchTopology (topology: OpenSearchTopologyConfig, config: StackConfig): string[] {
+  const messages: string[] = []
+  const {
+    dataNodes, dataNodeInstanceType, masterNodes, masterNodeInstanceType, availabilityZones,
+    multiAzWithStandby, warmNodes, warmInstanceType, coldStorage, ebs
+  } = resolveOpenSearchTopology({ ...config, openSearch: { topology } })
+
+  if (!Number.isInteger(dataNodes) || dataNodes < 1) {
+    messages.push('dataNodes must be a whole number of at least 1')
+  }
+  for (const [key, instanceType] of [['dataNodeInstanceType', dataNodeInstanceType], ['masterNodeInstanceType', masterNodeInstanceType]]) {
+    if (!SEARCH_INSTANCE_TYPE_PATTERN.test(instanceType)) {
+      messages.push(`${key} '${instanceType}' is not an OpenSearch instance type like 'm7g.large.search'`)
+    }
+  }
+  if (masterNodes !== 0 && !DEDICATED_MASTER_COUNTS.includes(masterNodes)) {
+    messages.push(`masterNodes must be ${DEDICATED_MASTER_COUNTS.join(' or ')}`)
+  }
+  if (topology.masterNodeInstanceType !== undefined && masterNodes === 0) {
+    messages.push('masterNodeInstanceType needs masterNodes')
+  }
+
+  // Zone awareness places an equal share of the data nodes in each AZ
+  if (![1, 2, 3].includes(availabilityZones)) {
+    messages.push('availabilityZones must be 1, 2 or 3')
+  } else {
+    if (Number.isInteger(dataNodes) && dataNodes % availabilityZones !== 0) {
+      messages.push(`dataNodes ${dataNodes} must be a multiple of availabilityZones ${availabilityZones}`)
+    }
+    const { maxAzs } = subnetLayout(config)
+    if (!config.network?.existingVpc && availabilityZones > maxAzs) {
+      messages.push(`availabilityZones ${availabilityZones} exceeds the ${maxAzs} AZs of the VPC (network.maxAzs)`)
+    }
+  }
+
+  if (multiAzWithStandby) {
+    if (availabilityZones !== 3) {
+      messages.push('multiAzWithStandby needs availabilityZones 3')
+    }
+    if (masterNodes === 0) {
+      messages.push('multiAzWithStandby needs dedicated masterNodes')
+    }
+    if (isBurstableSearchInstanceType(dataNodeInstanceType)) {
+      messages.push(`multiAzWithStandby does not support the burstable ${dataNodeInstanceType} instance type`)
+    }
+  }
+
+  if (!Number.isInteger(warmNodes) || warmNodes < 0 || (warmNodes > 0 && warmNodes < 2)) {
+    messages.push('warmNodes must be 0 or a whole number of at least 2')
+  } else if (warmNodes > 0) {
+    if (!ULTRAWARM_INSTANCE_TYPES.includes(warmInstanceType)) {
+      messages.push(`warmInstanceType must be one of ${ULTRAWARM_INSTANCE_TYPES.join(', ')}`)
+    }
+    if (masterNodes === 0) {
+      messages.push('warmNodes needs dedicated masterNodes')
+    }
+    if (isBurstableSearchInstanceType(dataNodeInstanceType)) {
+      messages.push(`warmNodes does not support the burstable ${dataNodeInstanceType} data node instance type`)
+    }
+  }
+  if (topology.warmInstanceType !== undefined && warmNodes === 0) {
+    messages.push('warmInstanceType needs warmNodes')
+  }
+  if (coldStorage && warmNodes === 0) {
+    messages.push('coldStorage needs UltraWarm (warmNodes)')
+  }
+
+  // gp3 limits
+  if (ebs.volumeSize !== undefined && !(Number.isInteger(ebs.volumeSize) && ebs.volumeSize >= 10)) {
+    messages.push('ebs.volumeSize must be a whole number of GiB, at least 10')
+  }
+  if (ebs.iops !== undefined && !(Number.isInteger(ebs.iops) && ebs.iops >= 3000 && ebs.iops <= 16000)) {
+    messages.push('ebs.iops must be between 3000 and 16000')
+  }
+  if (ebs.throughput !== undefined && !(Number.isInteger(ebs.throughput) && ebs.throughput >= 125 && ebs.throughput <= 1000)) {
+    messages.push('ebs.throughput must be between 125 and 1000 MiB/s')
+  }
+
+  // A prod domain must survive the loss of an AZ and keep cluster management off the data nodes
+  if (config.environment === 'prod') {
+    if (availabilityZones < 2) {
+      messages.push('availabilityZones must be at least 2 in prod')
+    }
+    if (masterNodes === 0) {
+      messages.push('masterNodes are required in prod')
+    }
+  }
+
+  return messages
+}
+
+function validatePipelines (pipelines: PipelinesConfig): string[] {
+  const messages: string[] = []
+  for (const [name, pipeline] of Object.entries(pipelines)) {
+    if (!PIPELINE_NAMES.includes(name)) {
+      messages.push(`'${name}' is not a pipeline (pipelines: ${PIPELINE_NAMES.join(', ')})`)
+      continue
+    }
+    if (name === 'metrics' && typeof pipelines.metrics?.enabled !== 'boolean') {
+      messages.push('metrics.enabled must be true or false')
+    }
+    if (name === 'logs' && pipelines.logs?.parsing !== undefined) {
+      messages.push(...validateLogParsing(pipelines.logs.parsing).map(message => `logs.parsing.${message}`))
+    }
+    if (name === 'traces' && pipelines.traces?.redMetrics !== undefined) {
+      messages.push(...validateTraceMetrics(pipelines.traces.redMetrics).map(message => `traces.redMetrics.${message}`))
+    }
+    const processors = pipeline?.processors ?? {}
+    if (typeof processors !== 'object' || Array.isArray(processors)) {
+      messages.push(`${name}.processors must map sub-pipeline names to lists of processors`)
+      continue
+    }
+    for (const [subPipeline, plugins] of Object.entries(processors)) {
+      if (!Array.isArray(plugins)) {
+        messages.push(`${name}.processors.${subPipeline} must be a list of processors`)
+        continue
+      }
+      plugins.forEach((plugin, index) => {
+        if (typeof plugin !== 'object' || plugin === null || Array.isArray(plugin) || Object.keys(plugin).length !== 1) {
+          messages.push(`${name}.processors.${subPipeline}[${index}] must be a single processor like { date: {...} }`)
+        }
+      })
+    }
+  }
+  return messages
+}
+
+function validateLogParsing (parsing: LogParsingConfig): string[] {
+  const messages: string[] = []
+  if (typeof parsing !== 'object' || parsing === null || Array.isArray(parsing)) {
+    return ['must be an object of parsing stages']
+  }
+  for (const key of ['json', 'normalizeLevel', 'traceContext'] as const) {
+    if (parsing[key] !== undefined && typeof parsing[key] !== 'boolean') {
+      messages.push(`${key} must be true or false`)
+    }
+  }
+  const strings = (value: unknown) => Array.isArray(value) && value.length > 0 &&
+    value.every(item => typeof item === 'string' && item.trim() !== '')
+  if (parsing.grok !== undefined && !strings(parsing.grok)) {
+    messages.push('grok must be a list of grok patterns')
+  }
+  if (parsing.timestampFormats !== undefined) {
+    if (!strings(parsing.timestampFormats)) {
+      messages.push('timestampFormats must be a list of date formats')
+    } else if (parsing.grok === undefined) {
+      messages.push('timestampFormats needs grok patterns capturing a timestamp')
+    }
+  }
+  if (parsing.maskPii !== undefined) {
+    if (!Array.isArray(parsing.maskPii)) {
+      messages.push(`maskPii must be a list of ${PII_KINDS.join(', ')}`)
+    } else {
+      const seen = new Set<string>()
+      for (const kind of parsing.maskPii) {
+        if (!PII_KINDS.includes(kind)) {
+          messages.push(`maskPii '${kind}' is not a kind of personal data (${PII_KINDS.join(', ')})`)
+        } else if (seen.has(kind)) {
+          messages.push(`maskPii '${kind}' is listed more than once`)
+        }
+        seen.add(kind)
+      }
+    }
+  }
+  if (parsing.multiline !== undefined) {
+    if (!Array.isArray(parsing.multiline)) {
+      messages.push(`multiline must be a list of ${MULTILINE_PARSERS.join(', ')}`)
+    } else {
+      parsing.multiline
+        .filter(parser => !MULTILINE_PARSERS.includes(parser))
+        .forEach(parser => messages.push(`multiline '${parser}' is not a Fluent Bit multiline parser (${MULTILINE_PARSERS.join(', ')})`))
+      parsing.multiline
+        .filter((parser, index) => parsing.multiline!.indexOf(parser) !== index)
+        .forEach(parser => messages.push(`multiline '${parser}' is listed more than once`))
+    }
+  }
+  return messages
+}
+
+function validateTraceMetrics (metrics: TraceMetricsConfig): string[] {
+  const messages: string[] = []
+  if (typeof metrics !== 'object' || metrics === null) {
+    return ['must be an object with \'enabled\'']
+  }
+  if (typeof metrics.enabled !== 'boolean') {
+    messages.push('enabled must be true or false')
+  }
+  for (const key of ['openSearch', 'prometheus', 'anomalyDetection'] as const) {
+    if (metrics[key] !== undefined && typeof metrics[key] !== 'boolean') {
+      messages.push(`${key} must be true or false`)
+    }
+  }
+  if (metrics.window !== undefined && (typeof metrics.window !== 'string' || metrics.window === '' || !DURATION_PATTERN.test(metrics.window))) {
+    messages.push(`window '${metrics.window}' is not a duration like '60s' or '5m'`)
+  }
+  const { openSearch, prometheus } = { ...DEFAULT_TRACE_METRICS_CONFIG, ...metrics }
+  if (metrics.enabled && !openSearch && !prometheus) {
+    messages.push('enabled needs openSearch or prometheus as a destination for the metrics')
+  }
+  return messages
+}
+
+function validatePipelineSettings (settings: PipelineSettingsConfig): string[] {
+  const messages: string[] = []
+  const { minUnits, maxUnits, persistentBuffer } = { ...DEFAULT_PIPELINE_SETTINGS, ...settings }
+  const units = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_PIPELINE_UNITS
+
+  if (settings.minUnits !== undefined && !units(settings.minUnits)) {
+    messages.push(`minUnits must be a whole number of OCUs from 1 to ${MAX_PIPELINE_UNITS}`)
+  }
+  if (settings.maxUnits !== undefined && !units(settings.maxUnits)) {
+    messages.push(`maxUnits must be a whole number of OCUs from 1 to ${MAX_PIPELINE_UNITS}`)
+  }
+  if (units(minUnits) && units(maxUnits) && maxUnits < minUnits) {
+    messages.push(`maxUnits ${maxUnits} is below minUnits ${minUnits}`)
+  }
+  for (const key of ['persistentBuffer', 'customerManagedKey'] as const) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'boolean') {
+      messages.push(`${key} must be true or false`)
+    }
+  }
+  if (persistentBuffer === true && units(minUnits) && minUnits < 2) {
+    messages.push('persistentBuffer needs minUnits of at least 2')
+  }
+  if (settings.logRetentionDays !== undefined && !LOG_RETENTION_DAYS.includes(settings.logRetentionDays)) {
+    messages.push(`logRetentionDays ${settings.logRetentionDays} is not a CloudWatch Logs retention period (${LOG_RETENTION_DAYS.join(', ')})`)
+  }
+  return messages
+}
+
+function validatePipelineArchive (archive: PipelineArchiveConfig): string[] {
+  const messages: string[] = []
+  const { glacierAfterDays, retentionDays } = { ...DEFAULT_PIPELINE_ARCHIVE_CONFIG, ...archive }
+
+  if (archive.archiveEvents !== undefined && typeof archive.archiveEvents !== 'boolean') {
+    messages.push('archiveEvents must be true or false')
+  }
+  for (const key of ['glacierAfterDays', 'retentionDays', 'dlqRetentionDays'] as const) {
+    const days = archive[key]
+    if (days !== undefined && !(Number.isInteger(days) && days > 0)) {
+      messages.push(`${key} must be a positive whole number of days`)
+    }
+  }
+  if (Number.isInteger(glacierAfterDays) && Number.isInteger(retentionDays) && retentionDays <= glacierAfterDays) {
+    messages.push(`retentionDays ${retentionDays} must be longer than glacierAfterDays ${glacierAfterDays}`)
+  }
+
+  const replay = archive.replay
+  if (replay !== undefined) {
+    if (typeof replay !== 'object' || replay === null || typeof replay.enabled !== 'boolean') {
+      messages.push('replay.enabled must be true or false')
+    } else {
+      const malformed = (['startTime', 'endTime'] as const).filter(key =>
+        replay[key] !== undefined && !(typeof replay[key] === 'string' && LOCAL_DATE_TIME_PATTERN.test(replay[key]))
+      )
+      malformed.forEach(key => messages.push(`replay.${key} '${replay[key]}' is not a time like 2026-01-01T00:00:00`))
+      // Local date-times of the same format compare as strings
+      if (malformed.length === 0 && replay.startTime && replay.endTime && replay.startTime >= replay.endTime) {
+        messages.push('replay.startTime must be before replay.endTime')
+      }
+    }
+  }
+  return messages
+}
+
+function validateAccessEntries (entries: AccessEntryConfig[]): string[] {
+  const messages: string[] = []
+  const seen = new Set<string>()
+  // Principals by the construct ID of their access entry, which must be unique too
+  const ids = new Map<string, string>()
+
+  entries.forEach((entry, index) => {
+    const at = `[${index}]`
+    if (!entry || typeof entry !== 'object') {
+      messages.push(`${at} must be an object with 'principal' and 'policies'`)
+      return
+    }
+    if (!entry.principal) {
+      messages.push(`${at}.principal is required`)
+    } else if (!IAM_PRINCIPAL_PATTERN.test(entry.principal)) {
+      messages.push(`${at}.principal '${entry.principal}' is not an IAM role or user ARN`)
+    } else if (seen.has(entry.principal)) {
+      messages.push(`${at}.principal '${entry.principal}' is declared more than once`)
+    } else {
+      seen.add(entry.principal)
+      const id = accessEntryId(entry.principal)
+      const other = ids.get(id)
+      if (other !== undefined) {
+        messages.push(`${at}.principal '${entry.principal}' collides with '${other}': both become access entry ${id}`)
+      } else {
+        ids.set(id, entry.principal)
+      }
+    }
+
+    if (!Array.isArray(entry.policies) || entry.policies.length === 0) {
+      messages.push(`${at}.policies must list at least one access policy`)
+      return
+    }
+    entry.policies.forEach((policy, policyIndex) => {
+      const policyAt = `${at}.policies[${policyIndex}]`
+      if (!policy?.policy || !ACCESS_POLICY_PATTERN.test(policy.policy)) {
+        messages.push(`${policyAt}.policy '${policy?.policy ?? ''}' is not an EKS access policy name like 'AmazonEKSViewPolicy'`)
+      }
+      if (policy?.scope === 'namespace') {
+        if (!Array.isArray(policy.namespaces) || policy.namespaces.length === 0) {
+          messages.push(`${policyAt}.namespaces is required for namespace scope`)
+        } else {
+          policy.namespaces
+            .filter(namespace => !NAMESPACE_PATTERN.test(namespace))
+            .forEach(namespace => messages.push(`${policyAt}.namespaces contains invalid namespace '${namespace}'`))
+        }
+      } else if (policy?.scope === 'cluster') {
+        if (policy.namespaces !== undefined) {
+          messages.push(`${policyAt}.namespaces is only allowed for namespace scope`)
+        }
+      } else {
+        messages.push(`${policyAt}.scope must be 'cluster' or 'namespace'`)
+      }
+    })
+  })
+
+  return messages
+}
+
+/**
+ * EKS allows at most 40 CIDR blocks on the public endpoint
+ */
+const MAX_PUBLIC_ACCESS_CIDRS = 40
+
+function validateClusterEndpoint (endpoint: ClusterEndpointConfig, config: StackConfig): string[] {
+  const messages: string[] = []
+  const access = endpoint.access ?? 'public-and-private'
+
+  if (!CLUSTER_ENDPOINT_ACCESS.includes(access)) {
+    messages.push(`access '${access}' must be one of ${CLUSTER_ENDPOINT_ACCESS.join(', ')}`)
+  }
+
+  const cidrs = endpoint.publicAccessCidrs
+  if (cidrs !== undefined) {
+    if (access === 'private') {
+      messages.push('publicAccessCidrs cannot be combined with private access')
+    } else if (!Array.isArray(cidrs) || cidrs.length === 0) {
+      messages.push('publicAccessCidrs must list at least one CIDR block')
+    } else if (cidrs.length > MAX_PUBLIC_ACCESS_CIDRS) {
+      messages.push(`publicAccessCidrs can list at most ${MAX_PUBLIC_ACCESS_CIDRS} CIDR blocks`)
+    } else if (access === 'public' && !cidrs.includes('0.0.0.0/0')) {
+      // Without private access the kubectl handler runs outside the VPC, from addresses no allowlist can name
+      messages.push('publicAccessCidrs needs public-and-private access, or the allowlist blocks the kubectl handler that runs outside the VPC')
+    } else {
+      cidrs
+        .filter(cidr => {
+          const match = CIDR_PATTERN.exec(cidr)
+          return !match || match.slice(1, 5).some(octet => Number(octet) > 255) || Number(match[5]) > 32
+        })
+        .forEach(cidr => messages.push(`publicAccessCidrs contains '${cidr}', which is not an IPv4 CIDR block`))
+    }
+  }
+
+  // The kubectl handler in the private subnets calls the EKS API to reach the cluster
+  const network = { ...DEFAULT_NETWORK_CONFIG, ...config.network }
+  const endpoints = network.vpcEndpoints ?? []
+  if (access !== 'public' && !config.network?.existingVpc && network.natGateways === 0 &&
+      Array.isArray(endpoints) && !endpoints.includes('eks')) {
+    messages.push(`${access} access runs the kubectl handler in the private subnets; with natGateways 0 network.vpcEndpoints must include eks`)
+  }
+
+  return messages
+}
+
+/**
+ * Validation schema covering every StackConfig field
+ */
+export const STACK_CONFIG_SCHEMA: { [K in keyof StackConfig]-?: FieldSchema<NonNullable<StackConfig[K]>> } = {
+  environment: {
+    required: true,
+    type: 'string',
+    rules: [
+      value => ENVIRONMENT_PATTERN.test(value)
+        ? undefined
+        : `'${value}' must start with a lowercase letter and contain only lowercase letters, digits and '-' (max 20 characters)`
+    ]
+  },
+  region: {
+    required: true,
+    type: 'string',
+    rules: [
+      value => REGION_PATTERN.test(value) ? undefined : `'${value}' is not a valid AWS region name`,
+      (value, config) => {
+        const { maxAzs } = subnetLayout(config)
+        return REGIONS_WITH_FEWER_THAN_3_AZS[value] < maxAzs
+          ? `'${value}' has only ${REGIONS_WITH_FEWER_THAN_3_AZS[value]} availability zones, ${maxAzs} are required`
+          : undefined
+      }
+    ]
+  },
+  vpcCidr: {
+    required: false,
+    type: 'string',
+    rules: [
+      validateCidr,
+      validateSubnetCapacity
+    ]
+  },
+  network: {
+    required: false,
+    type: 'object',
+    rules: [validateNetwork]
+  },
+  eksVersion: {
+    required: false,
+    type: 'string',
+    rules: [
+      value => EKS_VERSION_PATTERN.test(value) ? undefined : `'${value}' is not a Kubernetes minor version like '1.32'`,
+      value => SUPPORTED_EKS_VERSIONS.includes(value)
+        ? undefined
+        : `'${value}' is not supported (supported: ${SUPPORTED_EKS_VERSIONS.join(', ')})`
+    ]
+  },
+  nodeInstanceType: {
+    required: false,
+    type: 'string',
+    rules: [
+      value => INSTANCE_TYPE_PATTERN.test(value)
+        ? undefined
+        : `'${value}' is not an EC2 instance type like 't3.large' or 'm7g.2xlarge'`
+    ]
+  },
+  nodeCount: {
+    required: false,
+    type: 'number',
+    rules: [
+      value => Number.isInteger(value) ? undefined : `${value} must be a whole number`,
+      value => value >= 1 && value <= MAX_NODE_COUNT ? undefined : `${value} must be between 1 and ${MAX_NODE_COUNT}`
+    ]
+  },
+  nodeGroups: {
+    required: false,
+    type: 'array',
+    rules: [validateNodeGroups]
+  },
+  accessEntries: {
+    required: false,
+    type: 'array',
+    rules: [validateAccessEntries]
+  },
+  clusterEndpoint: {
+    required: false,
+    type: 'object',
+    rules: [validateClusterEndpoint]
+  },
+  karpenter: {
+    required: false,
+    type: 'object',
+    rules: [validateKarpenter]
+  },
+  flowLogs: {
+    required: false,
+    type: 'object',
+    rules: [validateFlowLogs]
+  },
+  openSearch: {
+    required: false,
+    type: 'object',
+    rules: [validateOpenSearch]
+  },
+  pipelines: {
+    required: false,
+    type: 'object',
+    rules: [validatePipelines]
+  },
+  pipelineSettings: {
+    required: false,
+    type: 'object',
+    rules: [validatePipelineSettings]
+  },
+  pipelineArchive: {
+    required: false,
+    type: 'object',
+    rules: [validatePipelineArchive]
+  },
+  legacyExports: {
+    required: false,
+    type: 'boolean',
+    rules: []
+  }
+}
+
+/**
+ * Check a StackConfig against the schema and return every problem found
+ */
+export function validateStackConfig (config: StackConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  const schema = STACK_CONFIG_SCHEMA as Record<string, FieldSchema<unknown>>
+
+  for (const key of Object.keys(config)) {
+    if (!(key in schema)) {
+      issues.push({ key, message: 'is not a known configuration key' })
+    }
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = (config as unknown as Record<string, unknown>)[key]
+    if (value === undefined || value === null || value === '') {
+      if (field.required) {
+        issues.push({ key, message: 'is required' })
+      }
+      continue
+    }
+    const actualType = Array.isArray(value) ? 'array' : typeof value
+    if (actualType !== field.type || (field.type === 'number' && Number.isNaN(value))) {
+      issues.push({ key, message: `must be ${field.type === 'array' || field.type === 'object' ? 'an' : 'a'} ${field.type}, got ${JSON.stringify(value)}` })
+      continue
+    }
+    for (const rule of field.rules) {
+      const messages = ([] as string[]).concat(rule(value, config) ?? [])
+      if (messages.length > 0) {
+        messages.forEach(message => issues.push({ key, message }))
+        break
+      }
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,63 @@
+import * as cdk from 'aws-cdk-lib'
+import * as ssm from 'aws-cdk-lib/aws-ssm'
+import { StackConfig } from './stack-config'
+
+/**
+ * Root of the SSM parameter hierarchy the stacks publish their references under
+ */
+export const REFERENCE_PARAMETER_PREFIX = '/eks-observability'
+
+/**
+ * Values shared between the stacks of one environment. Producers publish each value
+ * as an SSM parameter under `/eks-observability/<env>/<name>`, consumers resolve it
+ * at deploy time. Unlike `Fn::ImportValue` this lets environments share an
+ * account and region, and lets a producer change a value another stack uses.
+ */
+export class CrossStackReferences {
+  constructor (
+    private readonly scope: cdk.Stack,
+    private readonly config: StackConfig
+  ) {}
+
+  /**
+   * SSM parameter holding a reference, e.g. /eks-observability/dev/network-vpc-id
+   */
+  static parameterName (environment: string, name: string): string {
+    return `${REFERENCE_PARAMETER_PREFIX}/${environment}/${name}`
+  }
+
+  /**
+   * Publish a value for the other stacks of the environment. The value is also shown
+   * as a stack output; with `legacyExports` it is exported under its previous,
+   * unscoped name so stacks still importing it keep deploying during the migration.
+   */
+  exportValue (id: string, value: string, name: string, description?: string): cdk.CfnOutput {
+    new ssm.StringParameter(this.scope, `${id}Parameter`, {
+      parameterName: CrossStackReferences.parameterName(this.config.environment, name),
+      stringValue: value,
+      description: description || `Reference ${name}`
+    })
+    return new cdk.CfnOutput(this.scope, id, {
+      value,
+      exportName: this.config.legacyExports ? name : undefined,
+      description: description || `Reference ${name}`
+    })
+  }
+
+  /**
+   * Resolve a value published by another stack of the environment
+   */
+  importValue (name: string): string {
+    return ssm.StringParameter.valueForStringParameter(
+      this.scope,
+      CrossStackReferences.parameterName(this.config.environment, name)
+    )
+  }
+
+  /**
+   * Resolve a comma-separated list (like subnet IDs) published by another stack
+   */
+  importListValue (name: string): string[] {
+    return cdk.Fn.split(',', this.importValue(name))
+  }
+}
@@ -0,0 +1,229 @@
+import * as fs from 'fs'
+import * as YAML from 'yaml'
+import { ConfigError, PipelinePlugin } from './stack-config'
+
+/**
+ * One sub-pipeline of a Data Prepper pipeline: a source, optional buffer and processors,
+ * and one or more sinks
+ */
+export interface SubPipeline {
+  workers?: number
+  delay?: number
+  source: PipelinePlugin
+  buffer?: PipelinePlugin
+  processor?: PipelinePlugin[]
+  route?: Array<Record<string, string>>
+  sink: PipelinePlugin[]
+}
+
+/**
+ * Placeholders are `${UPPER_SNAKE_CASE}`. Data Prepper's own `${field}` and `${/path}`
+ * references in format strings are left alone.
+ */
+const PLACEHOLDER_PATTERN = /\$\{([A-Z][A-Z0-9_]*)\}/g
+
+/**
+ * Plugin connecting sub-pipelines, as a source (reading from) and as a sink (writing to)
+ */
+const PIPELINE_CONNECTOR = 'pipeline'
+
+/**
+ * A Data Prepper pipeline definition, as accepted by OpenSearch Ingestion. Templates load
+ * from YAML files with `${PLACEHOLDER}` values that are substituted when rendering.
+ */
+export class DataPrepperPipeline {
+  /**
+   * Load a pipeline template, e.g. `config/logs-pipeline.yaml`
+   */
+  static fromFile (file: string): DataPrepperPipeline {
+    let parsed: unknown
+    try {
+      parsed = YAML.parse(fs.readFileSync(file, 'utf8'))
+    } catch (error) {
+      throw new ConfigError(`Failed to parse ${file}: ${(error as Error).message}`, file)
+    }
+    if (!isObject(parsed)) {
+      throw new ConfigError(`${file}: expected a mapping of sub-pipelines`, file)
+    }
+    const { version, ...subPipelines } = parsed
+    return new DataPrepperPipeline(subPipelines as Record<string, SubPipeline>, String(version ?? '2'), file)
+  }
+
+  constructor (
+    public readonly subPipelines: Record<string, SubPipeline>,
+    public readonly version: string = '2',
+    /** Where the definition came from, used in error messages */
+    private readonly origin: string = 'pipeline'
+  ) {
+    const names = Object.keys(subPipelines)
+    if (names.length === 0) {
+      throw new ConfigError(`${origin}: defines no sub-pipelines`, origin)
+    }
+    for (const name of names) {
+      this.checkSubPipeline(name, subPipelines[name])
+    }
+  }
+
+  /**
+   * Add a sub-pipeline. One reading from another sub-pipeline is connected to it by
+   * adding a `pipeline` sink there.
+   */
+  addSubPipeline (name: string, subPipeline: SubPipeline): this {
+    if (this.subPipelines[name]) {
+      throw new ConfigError(`${this.origin}: sub-pipeline '${name}' is already defined`, this.origin)
+    }
+    this.checkSubPipeline(name, subPipeline)
+    const upstream = subPipeline.source[PIPELINE_CONNECTOR]
+    if (isObject(upstream)) {
+      const from = this.subPipelines[String(upstream.name)]
+      if (!from) {
+        throw new ConfigError(`${this.origin}: sub-pipeline '${name}' reads from unknown sub-pipeline '${upstream.name}'`, this.origin)
+      }
+      from.sink = [...from.sink, { [PIPELINE_CONNECTOR]: { name } }]
+    }
+    this.subPipelines[name] = subPipeline
+    return this
+  }
+
+  /**
+   * Append processors to sub-pipelines, keyed by sub-pipeline name
+   */
+  addProcessors (processors: Record<string, PipelinePlugin[]> = {}): this {
+    for (const [name, plugins] of Object.entries(processors)) {
+      const subPipeline = this.subPipelines[name]
+      if (!subPipeline) {
+        throw new ConfigError(
+          `${this.origin}: cannot add processors to unknown sub-pipeline '${name}' (defined: ${Object.keys(this.subPipelines).join(', ')})`,
+          this.origin
+        )
+      }
+      subPipeline.processor = [...(subPipeline.processor ?? []), ...plugins]
+    }
+    return this
+  }
+
+  /**
+   * Append a sink to a sub-pipeline
+   */
+  addSink (name: string, sink: PipelinePlugin): this {
+    const subPipeline = this.subPipelines[name]
+    if (!subPipeline) {
+      throw new ConfigError(`${this.origin}: cannot add a sink to unknown sub-pipeline '${name}'`, this.origin)
+    }
+    this.checkSubPipeline(name, { ...subPipeline, sink: [sink] })
+    subPipeline.sink = [...subPipeline.sink, sink]
+    return this
+  }
+
+  /**
+   * Merge settings into every sink of a plugin, e.g. a dead-letter queue into the
+   * `opensearch` sinks
+   */
+  configureSinks (plugin: string, settings: (subPipeline: string) => Record<string, unknown>): this {
+    for (const [name, subPipeline] of Object.entries(this.subPipelines)) {
+      subPipeline.sink = subPipeline.sink.map(sink => {
+        const current = sink[plugin]
+        return plugin in sink ? { [plugin]: { ...(isObject(current) ? current : {}), ...settings(name) } } : sink
+      })
+    }
+    return this
+  }
+
+  /**
+   * Names of the placeholders the definition uses
+   */
+  placeholders (): string[] {
+    const names = new Set<string>()
+    visitStrings(this.subPipelines, value => {
+      for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1])
+      }
+      return value
+    })
+    return [...names].sort()
+  }
+
+  /**
+   * Render the pipeline configuration body. Every placeholder must have a value and
+   * every value a placeholder; sub-pipelines must connect to sub-pipelines that exist
+   * and connect back.
+   */
+  render (values: Record<string, string>): string {
+    const placeholders = this.placeholders()
+    const unresolved = placeholders.filter(name => values[name] === undefined)
+    if (unresolved.length > 0) {
+      throw new ConfigError(`${this.origin}: no value for placeholder ${unresolved.map(name => `\${${name}}`).join(', ')}`, this.origin)
+    }
+    const unused = Object.keys(values).filter(name => !placeholders.includes(name))
+    if (unused.length > 0) {
+      throw new ConfigError(`${this.origin}: values for ${unused.join(', ')} match no placeholder`, this.origin)
+    }
+    this.checkConnections()
+
+    const rendered = visitStrings(this.subPipelines, value =>
+      value.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name])
+    )
+    // Values are double-quoted so they stay valid YAML once CDK tokens resolve, and long
+    // lines are not folded, as that would split the tokens
+    return YAML.stringify({ version: this.version, ...rendered }, {
+      defaultStringType: 'QUOTE_DOUBLE',
+      defaultKeyType: 'PLAIN',
+      lineWidth: 0,
+      nullStr: ''
+    })
+  }
+
+  private checkSubPipeline (name: string, subPipeline: SubPipeline): void {
+    if (!isObject(subPipeline) || !isPlugin(subPipeline.source)) {
+      throw new ConfigError(`${this.origin}: sub-pipeline '${name}' needs a single source plugin`, this.origin)
+    }
+    if (!Array.isArray(subPipeline.sink) || subPipeline.sink.length === 0 || !subPipeline.sink.every(isPlugin)) {
+      throw new ConfigError(`${this.origin}: sub-pipeline '${name}' needs at least one sink plugin`, this.origin)
+    }
+    if (subPipeline.processor !== undefined && !(Array.isArray(subPipeline.processor) && subPipeline.processor.every(isPlugin))) {
+      throw new ConfigError(`${this.origin}: processors of sub-pipeline '${name}' must each be a single plugin`, this.origin)
+    }
+  }
+
+  private checkConnections (): void {
+    const connected = (plugin: PipelinePlugin): string | undefined => {
+      const settings = plugin[PIPELINE_CONNECTOR]
+      return isObject(settings) ? String(settings.name) : undefined
+    }
+    for (const [name, subPipeline] of Object.entries(this.subPipelines)) {
+      const upstream = connected(subPipeline.source)
+      if (upstream !== undefined && !this.subPipelines[upstream]?.sink.some(sink => connected(sink) === name)) {
+        throw new ConfigError(`${this.origin}: sub-pipeline '${name}' reads from '${upstream}', which does not write to it`, this.origin)
+      }
+      for (const downstream of subPipeline.sink.map(connected).filter(target => target !== undefined)) {
+        if (connected(this.subPipelines[downstream]?.source ?? {}) !== name) {
+          throw new ConfigError(`${this.origin}: sub-pipeline '${name}' writes to '${downstream}', which does not read from it`, this.origin)
+        }
+      }
+    }
+  }
+}
+
+function isObject (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPlugin (value: unknown): value is PipelinePlugin {
+  return isObject(value) && Object.keys(value).length === 1
+}
+
+/**
+ * Copy of a value with every string passed through a function
+ */
+function visitStrings<T> (value: T, visit: (value: string) => string): T {
+  if (typeof value === 'string') {
+    return visit(value) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => visitStrings(item, visit)) as T
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visitStrings(item, visit)])) as T
+  }
+  return value
+}
@@ -0,0 +1,160 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as YAML from 'yaml'
+import { ConfigError, StackConfig } from './stack-config'
+
+/**
+ * One environment deployed to one region (and optionally a specific account)
+ */
+export interface DeploymentTarget {
+  environment: string
+  region: string
+  /** AWS account ID (optional, defaults to the CLI account) */
+  account?: string
+  /** Configuration overrides applied on top of the environment's layered configuration */
+  overrides?: Partial<StackConfig>
+}
+
+/**
+ * Location of the Grafana workspace aggregating the Prometheus workspaces of all targets
+ */
+export interface CentralGrafanaConfig {
+  environment: string
+  region: string
+}
+
+/**
+ * Every stack set the app synthesizes
+ */
+export interface DeploymentMatrix {
+  targets: DeploymentTarget[]
+  /** One Grafana workspace for all targets instead of one per target (optional) */
+  centralGrafana?: CentralGrafanaConfig
+}
+
+/**
+ * Matrix file entry; `environments` × `regions` expands to one target per combination
+ */
+interface MatrixEntry {
+  environment?: string
+  environments?: string[]
+  region?: string
+  regions?: string[]
+  account?: string
+  overrides?: Partial<StackConfig>
+}
+
+/**
+ * Default location of the deployment matrix
+ */
+export const DEFAULT_MATRIX_FILE = path.resolve(__dirname, '../config/deployments.yaml')
+
+/**
+ * Read a deployment matrix file:
+ *
+ * ```yaml
+ * targets:
+ *   - environment: dev
+ *     region: ap-southeast-1
+ *   - environment: prod
+ *     regions: [ap-southeast-1, eu-west-1]
+ *     account: "123456789012"
+ * grafana:
+ *   central: { environment: prod, region: ap-southeast-1 }
+ * ```
+ */
+export function loadDeploymentMatrix (file: string = DEFAULT_MATRIX_FILE): DeploymentMatrix {
+  let parsed: { targets?: MatrixEntry[], grafana?: { central?: CentralGrafanaConfig } }
+  try {
+    parsed = YAML.parse(fs.readFileSync(file, 'utf8')) ?? {}
+  } catch (error) {
+    throw new ConfigError(`Failed to parse ${file}: ${(error as Error).message}`, file)
+  }
+  if (!Array.isArray(parsed.targets) || parsed.targets.length === 0) {
+    throw new ConfigError(`${file}: 'targets' must list at least one deployment target`, file)
+  }
+
+  const targets = parsed.targets.flatMap((entry, index) => {
+    const environments = entry.environments ?? (entry.environment ? [entry.environment] : [])
+    const regions = entry.regions ?? (entry.region ? [entry.region] : [])
+    if (environments.length === 0 || regions.length === 0) {
+      throw new ConfigError(`${file}: targets[${index}] needs an environment and a region`, file)
+    }
+    if (entry.account !== undefined && !/^\d{12}$/.test(String(entry.account))) {
+      throw new ConfigError(`${file}: targets[${index}].account must be a 12-digit account ID`, file)
+    }
+    return environments.flatMap(environment => regions.map(region => ({
+      environment,
+      region,
+      ...(entry.account !== undefined ? { account: String(entry.account) } : {}),
+      ...(entry.overrides ? { overrides: entry.overrides } : {})
+    })))
+  })
+
+  const seen = new Set<string>()
+  for (const target of targets) {
+    const key = targetName(target)
+    if (seen.has(key)) {
+      throw new ConfigError(`${file}: ${key} is listed more than once`, file)
+    }
+    seen.add(key)
+  }
+
+  const centralGrafana = parsed.grafana?.central
+  if (centralGrafana) {
+    const central = targets.find(target =>
+      target.environment === centralGrafana.environment && target.region === centralGrafana.region
+    )
+    if (!central) {
+      throw new ConfigError(`${file}: grafana.central ${targetName(centralGrafana)} is not one of the targets`, file)
+    }
+    const otherAccounts = targets.filter(target => target.account !== central.account)
+    if (otherAccounts.length > 0) {
+      throw new ConfigError(
+        `${file}: grafana.central can only aggregate targets in its own account; ` +
+          `${otherAccounts.map(targetName).join(', ')} use another account`,
+        file
+      )
+    }
+  }
+
+  return { targets, centralGrafana }
+}
+
+/**
+ * Display name of a target, e.g. prod/eu-west-1
+ */
+export function targetName (target: { environment: string, region: string }): string {
+  return `${target.environment}/${target.region}`
+}
+
+/**
+ * Targets matching a comma-separated filter of `env` or `env/region` patterns, where
+ * `*` matches anything, e.g. `prod/*,dev/eu-west-1`. An empty filter keeps every target.
+ */
+export function filterTargets (targets: DeploymentTarget[], filter?: string): DeploymentTarget[] {
+  const patterns = (filter ?? '').split(',').map(pattern => pattern.trim()).filter(Boolean)
+  if (patterns.length === 0) {
+    return targets
+  }
+  const matchers = patterns.map(pattern => {
+    const [environment, region = '*'] = pattern.split('/')
+    const glob = (value: string) => new RegExp(`^${value.split('*').map(escapeRegExp).join('.*')}$`)
+    return { environment: glob(environment), region: glob(region) }
+  })
+  return targets.filter(target =>
+    matchers.some(matcher => matcher.environment.test(target.environment) && matcher.region.test(target.region))
+  )
+}
+
+/**
+ * Whether a target is the first region listed for its environment. Its stacks keep
+ * the unqualified names; stacks in further regions get the region in their names.
+ */
+export function isPrimaryRegion (targets: DeploymentTarget[], target: DeploymentTarget): boolean {
+  return targets.find(candidate => candidate.environment === target.environment)?.region === target.region
+}
+
+function escapeRegExp (value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+}
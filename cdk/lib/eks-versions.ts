@@ -0,0 +1,56 @@
+import * as eks from 'aws-cdk-lib/aws-eks'
+import * as lambda from 'aws-cdk-lib/aws-lambda'
+import { Construct } from 'constructs'
+import { KubectlV31Layer } from '@aws-cdk/lambda-layer-kubectl-v31'
+import { KubectlV32Layer } from '@aws-cdk/lambda-layer-kubectl-v32'
+
+/**
+ * Everything that has to match a given EKS Kubernetes version
+ */
+export interface EksVersionSpec {
+  /** Kubernetes version passed to the cluster */
+  kubernetesVersion: eks.KubernetesVersion
+  /** Creates the kubectl/helm layer built for this version */
+  kubectlLayer: (scope: Construct, id: string) => lambda.ILayerVersion
+  /** Add-on versions known to work with this version, keyed by add-on name. Unlisted add-ons use the EKS default. */
+  addonVersions: Record<string, string>
+}
+
+/**
+ * Registry of supported EKS versions. To support a new version, add the matching
+ * `@aws-cdk/lambda-layer-kubectl-vXX` dependency and an entry here.
+ */
+export const EKS_VERSIONS: Record<string, EksVersionSpec> = {
+  '1.31': {
+    kubernetesVersion: eks.KubernetesVersion.V1_31,
+    kubectlLayer: (scope, id) => new KubectlV31Layer(scope, id),
+    addonVersions: {
+      'kube-state-metrics': 'v2.16.0-eksbuild.1'
+    }
+  },
+  '1.32': {
+    kubernetesVersion: eks.KubernetesVersion.V1_32,
+    kubectlLayer: (scope, id) => new KubectlV32Layer(scope, id),
+    addonVersions: {
+      'kube-state-metrics': 'v2.16.0-eksbuild.1'
+    }
+  }
+}
+
+/**
+ * Supported EKS version strings, in registry order
+ */
+export const SUPPORTED_EKS_VERSIONS = Object.keys(EKS_VERSIONS)
+
+/**
+ * Look up the registry entry for an EKS version, failing synth for unsupported versions
+ */
+export function resolveEksVersion (version: string): EksVersionSpec {
+  const spec = EKS_VERSIONS[version]
+  if (!spec) {
+    throw new Error(
+      `EKS version '${version}' is not supported (supported: ${SUPPORTED_EKS_VERSIONS.join(', ')})`
+    )
+  }
+  return spec
+}
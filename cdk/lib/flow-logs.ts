@@ -0,0 +1,127 @@
+import * as cdk from 'aws-cdk-lib'
+import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as logs from 'aws-cdk-lib/aws-logs'
+import * as s3 from 'aws-cdk-lib/aws-s3'
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications'
+import * as sqs from 'aws-cdk-lib/aws-sqs'
+import { Construct } from 'constructs'
+import { DEFAULT_FLOW_LOGS_CONFIG, FlowLogsConfig, FlowLogField } from './stack-config'
+
+/**
+ * Prefix of the daily OpenSearch indices holding flow records
+ */
+export const FLOW_LOGS_INDEX_PREFIX = 'vpc-flow-logs'
+
+/**
+ * OpenSearch field types of flow log fields; unlisted fields are keywords
+ */
+const FLOW_LOG_FIELD_MAPPINGS: Partial<Record<FlowLogField, Record<string, string>>> = {
+  version: { type: 'integer' },
+  srcaddr: { type: 'ip' },
+  dstaddr: { type: 'ip' },
+  'pkt-srcaddr': { type: 'ip' },
+  'pkt-dstaddr': { type: 'ip' },
+  srcport: { type: 'integer' },
+  dstport: { type: 'integer' },
+  protocol: { type: 'integer' },
+  packets: { type: 'long' },
+  bytes: { type: 'long' },
+  start: { type: 'date', format: 'epoch_second' },
+  end: { type: 'date', format: 'epoch_second' },
+  'tcp-flags': { type: 'integer' },
+  'traffic-path': { type: 'integer' },
+  'reject-reason': { type: 'keyword' }
+}
+
+/**
+ * Composable index template for the flow log indices. Records without data carry
+ * `-` in numeric and address fields, so malformed values are ignored rather than rejected.
+ */
+export function flowLogsIndexTemplate (fields: FlowLogField[]): object {
+  return {
+    index_patterns: [`${FLOW_LOGS_INDEX_PREFIX}-*`],
+    template: {
+      settings: {
+        'index.mapping.ignore_malformed': true
+      },
+      mappings: {
+        properties: {
+          '@timestamp': { type: 'date' },
+          ...Object.fromEntries(
+            fields.map(field => [field, FLOW_LOG_FIELD_MAPPINGS[field] ?? { type: 'keyword' }])
+          )
+        }
+      }
+    }
+  }
+}
+
+export interface VpcFlowLogsProps {
+  vpc: ec2.IVpc
+  config: FlowLogsConfig
+  /** Environment name, used in the log group name */
+  environment: string
+}
+
+/**
+ * VPC flow log with a custom format, delivered to CloudWatch Logs or S3. For the
+ * opensearch destination, new S3 objects are announced on an SQS queue read by OSIS.
+ */
+export class VpcFlowLogs extends Construct {
+  public readonly flowLog: ec2.FlowLog
+  public readonly logGroup?: logs.LogGroup
+  public readonly bucket?: s3.Bucket
+  public readonly queue?: sqs.Queue
+
+  constructor (scope: Construct, id: string, props: VpcFlowLogsProps) {
+    super(scope, id)
+
+    const config = { ...DEFAULT_FLOW_LOGS_CONFIG, ...props.config }
+    let destination: ec2.FlowLogDestination
+
+    if (config.destination === 'cloudwatch') {
+      this.logGroup = new logs.LogGroup(this, 'LogGroup', {
+        logGroupName: `/aws/vpc/flowlogs/${props.environment}`,
+        retention: config.retentionDays as logs.RetentionDays,
+        removalPolicy: cdk.RemovalPolicy.DESTROY
+      })
+      destination = ec2.FlowLogDestination.toCloudWatchLogs(this.logGroup)
+    } else {
+      this.bucket = new s3.Bucket(this, 'Bucket', {
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        enforceSSL: true,
+        lifecycleRules: [{ expiration: cdk.Duration.days(config.retentionDays) }],
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+        autoDeleteObjects: true
+      })
+      destination = ec2.FlowLogDestination.toS3(this.bucket, undefined, {
+        fileFormat: ec2.FlowLogFileFormat.PLAIN_TEXT
+      })
+
+      // Notify the ingestion pipeline of every delivered log file
+      if (config.destination === 'opensearch') {
+        this.queue = new sqs.Queue(this, 'Queue', {
+          visibilityTimeout: cdk.Duration.minutes(5),
+          retentionPeriod: cdk.Duration.days(4),
+          enforceSSL: true
+        })
+        this.bucket.addEventNotification(
+          s3.EventType.OBJECT_CREATED,
+          new s3n.SqsDestination(this.queue),
+          { prefix: 'AWSLogs/' }
+        )
+      }
+    }
+
+    this.flowLog = new ec2.FlowLog(this, 'FlowLog', {
+      resourceType: ec2.FlowLogResourceType.fromVpc(props.vpc),
+      destination,
+      trafficType: ec2.FlowLogTrafficType[config.trafficType],
+      maxAggregationInterval: config.maxAggregationInterval === 60
+        ? ec2.FlowLogMaxAggregationInterval.ONE_MINUTE
+        : ec2.FlowLogMaxAggregationInterval.TEN_MINUTES,
+      logFormat: config.fields.map(field => ec2.LogFormat.field(field))
+    })
+  }
+}
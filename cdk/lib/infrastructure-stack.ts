@@ -4,8 +4,20 @@ import * as eks from 'aws-cdk-lib/aws-eks'
 import * as iam from 'aws-cdk-lib/aws-iam'
 import * as ecr from 'aws-cdk-lib/aws-ecr'
 import { Construct } from 'constructs'
-import { KubectlV31Layer } from '@aws-cdk/lambda-layer-kubectl-v31'
-import { StackConfig, ExportNames, CrossStackUtils } from './stack-config'
+import {
+  StackConfig,
+  ClusterEndpointConfig,
+  ExportNames,
+  CrossStackUtils,
+  DEFAULT_CONFIG,
+  DEFAULT_CLUSTER_ENDPOINT_CONFIG,
+  ConfigError
+} from './stack-config'
+import { CrossStackReferences } from './cross-stack-references'
+import { ACCOUNT_PLACEHOLDER, accessEntryId, normalizePrincipalArn } from './access-entries'
+import { resolveEksVersion } from './eks-versions'
+import { resolveNodeGroups, nodeGroupId, nodeGroupName } from './node-groups'
+import { Karpenter } from './karpenter'
 
 /**
  * InfrastructureStack manages EKS cluster and compute infrastructure
@@ -21,9 +33,11 @@ export class InfrastructureStack extends cdk.Stack {
   ) {
     super(scope, id, props)
 
+    const references = new CrossStackReferences(this, config)
+
     // Import VPC resources from NetworkStack
-    const vpcId = CrossStackUtils.importValue(ExportNames.NETWORK_VPC_ID)
-    const privateSubnetIds = CrossStackUtils.importListValue(
+    const vpcId = references.importValue(ExportNames.NETWORK_VPC_ID)
+    const privateSubnetIds = references.importListValue(
       ExportNames.NETWORK_PRIVATE_SUBNET_IDS
     )
 
@@ -34,16 +48,13 @@ export class InfrastructureStack extends cdk.Stack {
       privateSubnetIds
     })
 
-    // Determine Kubernetes version
-    const kubernetesVersion =
-      config.eksVersion === '1.32'
-        ? eks.KubernetesVersion.V1_32
-        : eks.KubernetesVersion.V1_31
+    // Resolve Kubernetes version with its matching kubectl layer and add-on versions
+    const eksVersion = resolveEksVersion(config.eksVersion ?? DEFAULT_CONFIG.eksVersion!)
 
     // Create EKS Cluster
     this.cluster = new eks.Cluster(this, 'EksCluster', {
-      version: kubernetesVersion,
-      clusterName: `${config.environment}-eks-cluster`,
+      version: eksVersion.kubernetesVersion,
+      clusterName: CrossStackUtils.generateClusterName(config.environment),
       authenticationMode: eks.AuthenticationMode.API_AND_CONFIG_MAP,
       vpc: vpc,
       vpcSubnets: [
@@ -52,9 +63,12 @@ export class InfrastructureStack extends cdk.Stack {
         }
       ],
       defaultCapacity: 0, // We'll add our own node group
-      kubectlLayer: new KubectlV31Layer(this, 'KubectlLayer'),
-      endpointAccess:
-        eks.EndpointAccess.PUBLIC_AND_PRIVATE.onlyFrom('0.0.0.0/0'),
+      kubectlLayer: eksVersion.kubectlLayer(this, 'KubectlLayer'),
+      // With private access the kubectl handler is placed in the private subnets
+      endpointAccess: InfrastructureStack.endpointAccess({
+        ...DEFAULT_CLUSTER_ENDPOINT_CONFIG,
+        ...config.clusterEndpoint
+      }),
       clusterLogging: [
         eks.ClusterLoggingTypes.API,
         eks.ClusterLoggingTypes.AUTHENTICATOR,
@@ -63,62 +77,96 @@ export class InfrastructureStack extends cdk.Stack {
       ]
     })
 
-    // Create access entries for EKS cluster
-    new eks.AccessEntry(this, 'AdminRoleAccess', {
-      cluster: this.cluster,
-      principal: `arn:aws:iam::${this.account}:role/Admin`,
-      accessPolicies: [eks.AccessPolicy.fromAccessPolicyName('AmazonEKSClusterAdminPolicy', {
-        accessScopeType: eks.AccessScopeType.CLUSTER
-      })]
-    })
-
-    new eks.AccessEntry(this, 'YagrxuUserAccess', {
-      cluster: this.cluster,
-      principal: `arn:aws:iam::${this.account}:user/yagrxu`,
-      accessPolicies: [eks.AccessPolicy.fromAccessPolicyName('AmazonEKSClusterAdminPolicy', {
-        accessScopeType: eks.AccessScopeType.CLUSTER
-      })]
-    })
+    // Create access entries for EKS cluster from configured principals. The validator cannot
+    // tell that a literal account is the deployment account, so those duplicates are caught here.
+    const principals = new Map<string, string>()
+    for (const entry of config.accessEntries ?? []) {
+      const normalized = normalizePrincipalArn(entry.principal, this.account)
+      const duplicate = principals.get(normalized)
+      if (duplicate !== undefined) {
+        throw new ConfigError(`accessEntries: '${entry.principal}' and '${duplicate}' are the same principal in account ${this.account}`, undefined, 'accessEntries')
+      }
+      principals.set(normalized, entry.principal)
+      const principal = entry.principal.replace(ACCOUNT_PLACEHOLDER, this.account)
+      new eks.AccessEntry(this, accessEntryId(entry.principal, this.account), {
+        cluster: this.cluster,
+        principal,
+        accessPolicies: entry.policies.map(policy =>
+          eks.AccessPolicy.fromAccessPolicyName(policy.policy, {
+            accessScopeType: policy.scope === 'namespace'
+              ? eks.AccessScopeType.NAMESPACE
+              : eks.AccessScopeType.CLUSTER,
+            namespaces: policy.namespaces
+          })
+        )
+      })
+    }
 
     // Add EBS CSI driver addon for volume metrics
     new eks.CfnAddon(this, 'EbsCsiDriverAddon', {
       clusterName: this.cluster.clusterName,
-      addonName: 'aws-ebs-csi-driver'
+      addonName: 'aws-ebs-csi-driver',
+      addonVersion: eksVersion.addonVersions['aws-ebs-csi-driver']
     })
 
     // Add kube-state-metrics addon for comprehensive metrics including PV metrics
     new eks.CfnAddon(this, 'KubeStateMetricsAddon', {
       clusterName: this.cluster.clusterName,
       addonName: 'kube-state-metrics',
-      addonVersion: 'v2.16.0-eksbuild.1'
+      addonVersion: eksVersion.addonVersions['kube-state-metrics']
     })
 
-    // Add managed node group
-    const nodeGroup = this.cluster.addNodegroupCapacity('DefaultNodeGroup', {
-      instanceTypes: [
-        new ec2.InstanceType(config.nodeInstanceType || 't3.large')
-      ],
-      minSize: config.nodeCount || 3,
-      maxSize: (config.nodeCount || 3) + 2,
-      desiredSize: config.nodeCount || 3,
-      subnets: {
-        subnets: vpc.privateSubnets
-      },
-      amiType: eks.NodegroupAmiType.AL2_X86_64,
-      capacityType: eks.CapacityType.ON_DEMAND,
-      diskSize: 20,
-      nodegroupName: `${config.environment}-eks-nodes`
+    // Add managed node groups
+    const nodeGroups = resolveNodeGroups(config).map(group => {
+      const nodeGroup = this.cluster.addNodegroupCapacity(nodeGroupId(group), {
+        instanceTypes: group.instanceTypes.map(type => new ec2.InstanceType(type)),
+        minSize: group.minSize,
+        maxSize: group.maxSize,
+        desiredSize: group.desiredSize,
+        subnets: {
+          subnets: vpc.privateSubnets
+        },
+        amiType: eks.NodegroupAmiType[group.amiType!],
+        capacityType: eks.CapacityType[group.capacityType!],
+        diskSize: group.diskSize,
+        labels: group.labels,
+        taints: group.taints?.map(taint => ({
+          key: taint.key,
+          value: taint.value,
+          effect: eks.TaintEffect[taint.effect]
+        })),
+        nodegroupName: nodeGroupName(config.environment, group)
+      })
+
+      // Add EBS CSI policy to node group role
+      nodeGroup.role.addManagedPolicy(
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AmazonEBSCSIDriverPolicy')
+      )
+
+      cdk.Tags.of(nodeGroup).add('Environment', config.environment)
+      return nodeGroup
     })
 
-    // Add EBS CSI policy to node group role
-    nodeGroup.role.addManagedPolicy(
-      iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AmazonEBSCSIDriverPolicy')
-    )
+    // Add EKS Pod Identity addon
+    const podIdentityAddon = new eks.CfnAddon(this, 'PodIdentityAddon', {
+      clusterName: this.cluster.clusterName,
+      addonName: 'eks-pod-identity-agent',
+      addonVersion: eksVersion.addonVersions['eks-pod-identity-agent']
+    })
 
-    // Add tags to cluster and node group
+    // Optionally install Karpenter, keeping the managed node groups as the system pool
+    const karpenter = config.karpenter?.enabled
+      ? new Karpenter(this, 'Karpenter', {
+        cluster: this.cluster,
+        config: config.karpenter,
+        podIdentityAgent: podIdentityAddon,
+        environment: config.environment
+      })
+      : undefined
+
+    // Add tags to cluster
     cdk.Tags.of(this.cluster).add('Environment', config.environment)
     cdk.Tags.of(this.cluster).add('Stack', 'Infrastructure')
-    cdk.Tags.of(nodeGroup).add('Environment', config.environment)
 
     // create ecr repo, not import
     const helloServiceRepo = new ecr.Repository(this, 'HelloServiceRepo', {
@@ -139,45 +187,42 @@ export class InfrastructureStack extends cdk.Stack {
       emptyOnDelete: true
     })
     
-    // Add EKS Pod Identity addon
-    new eks.CfnAddon(this, 'PodIdentityAddon', {
-      clusterName: this.cluster.clusterName,
-      addonName: 'eks-pod-identity-agent'
-    })
-    
     // Export cluster information for other stacks
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'ClusterNameExport',
       this.cluster.clusterName,
       ExportNames.INFRA_CLUSTER_NAME,
       'EKS cluster name for cross-stack reference'
     )
 
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'ClusterArnExport',
       this.cluster.clusterArn,
       ExportNames.INFRA_CLUSTER_ARN,
       'EKS cluster ARN for cross-stack reference'
     )
 
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'OidcProviderArnExport',
       this.cluster.openIdConnectProvider.openIdConnectProviderArn,
       ExportNames.INFRA_OIDC_PROVIDER_ARN,
       'EKS OIDC provider ARN for IRSA'
     )
 
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'OidcProviderIssuerExport',
       this.cluster.openIdConnectProvider.openIdConnectProviderIssuer,
       ExportNames.INFRA_OIDC_PROVIDER_ISSUER,
       'EKS OIDC provider issuer URL for IRSA'
     )
 
+    references.exportValue(
+      'ClusterSecurityGroupIdExport',
+      this.cluster.clusterSecurityGroupId,
+      ExportNames.INFRA_CLUSTER_SECURITY_GROUP_ID,
+      'EKS cluster security group, attached to the nodes'
+    )
+
     // Create IAM role for FluentBit using IRSA
     const fluentBitRole = new iam.Role(this, 'FluentBitRole', {
       assumedBy: new iam.FederatedPrincipal(
@@ -199,10 +244,15 @@ export class InfrastructureStack extends cdk.Stack {
               effect: iam.Effect.ALLOW,
               actions: [
                 'es:ESHttpPost',
-                'es:ESHttpPut',
-                'osis:*'
+                'es:ESHttpPut'
               ],
               resources: ['*']
+            }),
+            // The pipelines are created after this stack, under names prefixed with the environment
+            new iam.PolicyStatement({
+              effect: iam.Effect.ALLOW,
+              actions: ['osis:*'],
+              resources: [`arn:${this.partition}:osis:${this.region}:${this.account}:pipeline/${config.environment}-*`]
             })
           ]
         })
@@ -254,10 +304,27 @@ export class InfrastructureStack extends cdk.Stack {
     })
 
     new cdk.CfnOutput(this, 'NodeGroupName', {
-      value: nodeGroup.nodegroupName,
+      value: nodeGroups[0].nodegroupName,
       description: 'EKS Node Group Name'
     })
 
+    new cdk.CfnOutput(this, 'NodeGroupNames', {
+      value: cdk.Fn.join(',', nodeGroups.map(nodeGroup => nodeGroup.nodegroupName)),
+      description: 'Names of all EKS managed node groups'
+    })
+
+    if (karpenter) {
+      new cdk.CfnOutput(this, 'KarpenterNodeRoleName', {
+        value: karpenter.nodeRole.roleName,
+        description: 'IAM role of nodes launched by Karpenter'
+      })
+
+      new cdk.CfnOutput(this, 'KarpenterInterruptionQueueName', {
+        value: karpenter.interruptionQueue.queueName,
+        description: 'SQS queue receiving Karpenter interruption events'
+      })
+    }
+
     new cdk.CfnOutput(this, 'HelloServiceRepoUri', {
       value: helloServiceRepo.repositoryUri,
       description: 'Hello Service ECR Repository URI'
@@ -273,6 +340,14 @@ export class InfrastructureStack extends cdk.Stack {
       description: 'Traffic Generator ECR Repository URI'
     })
 
+    // The OpenSearch domain access policy admits the FluentBit role
+    references.exportValue(
+      'FluentBitRoleArnExport',
+      fluentBitRole.roleArn,
+      ExportNames.INFRA_FLUENT_BIT_ROLE_ARN,
+      'FluentBit IAM role ARN'
+    )
+
     new cdk.CfnOutput(this, 'FluentBitRoleArn', {
       value: fluentBitRole.roleArn,
       description: 'FluentBit IAM Role ARN'
@@ -283,4 +358,19 @@ export class InfrastructureStack extends cdk.Stack {
     //   description: 'FluentBit Ingestion Role ARN for OSIS'
     // })
   }
+
+  /**
+   * EKS endpoint access for the configured mode and public CIDR allowlist. A public-only
+   * endpoint stays open: its kubectl handler runs outside the VPC.
+   */
+  private static endpointAccess (endpoint: Required<ClusterEndpointConfig>): eks.EndpointAccess {
+    switch (endpoint.access) {
+      case 'private':
+        return eks.EndpointAccess.PRIVATE
+      case 'public':
+        return eks.EndpointAccess.PUBLIC
+      default:
+        return eks.EndpointAccess.PUBLIC_AND_PRIVATE.onlyFrom(...endpoint.publicAccessCidrs)
+    }
+  }
 }
@@ -0,0 +1,335 @@
+import * as cdk from 'aws-cdk-lib'
+import * as eks from 'aws-cdk-lib/aws-eks'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as sqs from 'aws-cdk-lib/aws-sqs'
+import * as events from 'aws-cdk-lib/aws-events'
+import * as targets from 'aws-cdk-lib/aws-events-targets'
+import { Construct, IDependable } from 'constructs'
+import { KarpenterConfig, CrossStackUtils } from './stack-config'
+
+/**
+ * Tag Karpenter uses to discover the subnets it may launch nodes into
+ */
+export const KARPENTER_DISCOVERY_TAG = 'karpenter.sh/discovery'
+
+/**
+ * Default Karpenter Helm chart version
+ */
+export const DEFAULT_KARPENTER_VERSION = '1.6.3'
+
+export interface KarpenterProps {
+  cluster: eks.Cluster
+  config: KarpenterConfig
+  /** EKS Pod Identity Agent add-on, which must run before the controller's association works */
+  podIdentityAgent: IDependable
+  /** Environment name, tagged onto launched nodes */
+  environment: string
+}
+
+/**
+ * Karpenter controller with its IAM roles, interruption queue and a default
+ * NodePool/EC2NodeClass generated from configuration
+ */
+export class Karpenter extends Construct {
+  public readonly nodeRole: iam.Role
+  public readonly controllerRole: iam.Role
+  public readonly interruptionQueue: sqs.Queue
+
+  constructor (scope: Construct, id: string, props: KarpenterProps) {
+    super(scope, id)
+
+    const { cluster, config, podIdentityAgent, environment } = props
+    const stack = cdk.Stack.of(this)
+    // Literal cluster name: IAM condition keys and discovery tags cannot contain tokens
+    const clusterName = CrossStackUtils.generateClusterName(environment)
+    const namespace = 'kube-system'
+    const serviceAccount = 'karpenter'
+
+    // Role assumed by nodes launched by Karpenter
+    this.nodeRole = new iam.Role(this, 'NodeRole', {
+      assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonEKSWorkerNodePolicy'),
+        iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonEKS_CNI_Policy'),
+        iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonEC2ContainerRegistryReadOnly'),
+        iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'),
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AmazonEBSCSIDriverPolicy')
+      ]
+    })
+
+    // Let Karpenter nodes join the cluster
+    new eks.AccessEntry(this, 'NodeAccess', {
+      cluster,
+      principal: this.nodeRole.roleArn,
+      accessEntryType: eks.AccessEntryType.EC2_LINUX,
+      accessPolicies: []
+    })
+
+    // Queue receiving Spot interruption, rebalance, health and state change events
+    this.interruptionQueue = new sqs.Queue(this, 'InterruptionQueue', {
+      retentionPeriod: cdk.Duration.minutes(5),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true
+    })
+
+    const interruptionEvents: Record<string, events.EventPattern> = {
+      SpotInterruptionRule: { source: ['aws.ec2'], detailType: ['EC2 Spot Instance Interruption Warning'] },
+      RebalanceRule: { source: ['aws.ec2'], detailType: ['EC2 Instance Rebalance Recommendation'] },
+      InstanceStateChangeRule: { source: ['aws.ec2'], detailType: ['EC2 Instance State-change Notification'] },
+      ScheduledChangeRule: { source: ['aws.health'], detailType: ['AWS Health Event'] }
+    }
+    for (const [ruleId, eventPattern] of Object.entries(interruptionEvents)) {
+      new events.Rule(this, ruleId, {
+        eventPattern,
+        targets: [new targets.SqsQueue(this.interruptionQueue)]
+      })
+    }
+
+    // Controller role, bound to the service account through EKS Pod Identity
+    this.controllerRole = new iam.Role(this, 'ControllerRole', {
+      assumedBy: new iam.ServicePrincipal('pods.eks.amazonaws.com').withSessionTags(),
+      description: 'IAM role for the Karpenter controller using Pod Identity'
+    })
+
+    const clusterTag = `aws:RequestTag/kubernetes.io/cluster/${clusterName}`
+    // Karpenter v1 tags everything it creates with the cluster name
+    const clusterNameTag = 'eks:eks-cluster-name'
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedEC2InstanceAccessActions',
+      actions: ['ec2:RunInstances', 'ec2:CreateFleet'],
+      resources: [
+        `arn:${stack.partition}:ec2:${stack.region}::image/*`,
+        `arn:${stack.partition}:ec2:${stack.region}::snapshot/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:security-group/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:subnet/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:capacity-reservation/*`
+      ]
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedEC2LaunchTemplateAccessActions',
+      actions: ['ec2:RunInstances', 'ec2:CreateFleet'],
+      resources: [`arn:${stack.partition}:ec2:${stack.region}:*:launch-template/*`],
+      conditions: {
+        StringEquals: {
+          [`aws:ResourceTag/kubernetes.io/cluster/${clusterName}`]: 'owned',
+          [`aws:ResourceTag/${clusterNameTag}`]: clusterName
+        },
+        StringLike: { 'aws:ResourceTag/karpenter.sh/nodepool': '*' }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedEC2InstanceActionsWithTags',
+      actions: ['ec2:RunInstances', 'ec2:CreateFleet', 'ec2:CreateLaunchTemplate'],
+      resources: [
+        `arn:${stack.partition}:ec2:${stack.region}:*:fleet/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:instance/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:volume/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:network-interface/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:launch-template/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:spot-instances-request/*`
+      ],
+      conditions: {
+        StringEquals: {
+          [clusterTag]: 'owned',
+          [`aws:RequestTag/${clusterNameTag}`]: clusterName
+        },
+        StringLike: { 'aws:RequestTag/karpenter.sh/nodepool': '*' }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedResourceCreationTagging',
+      actions: ['ec2:CreateTags'],
+      resources: [
+        `arn:${stack.partition}:ec2:${stack.region}:*:fleet/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:instance/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:volume/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:network-interface/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:launch-template/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:spot-instances-request/*`
+      ],
+      conditions: {
+        StringEquals: {
+          [clusterTag]: 'owned',
+          [`aws:RequestTag/${clusterNameTag}`]: clusterName,
+          'ec2:CreateAction': ['RunInstances', 'CreateFleet', 'CreateLaunchTemplate']
+        }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedResourceTagging',
+      actions: ['ec2:CreateTags'],
+      resources: [`arn:${stack.partition}:ec2:${stack.region}:*:instance/*`],
+      conditions: {
+        StringEquals: { [`aws:ResourceTag/kubernetes.io/cluster/${clusterName}`]: 'owned' },
+        StringLike: { 'aws:ResourceTag/karpenter.sh/nodepool': '*' },
+        StringEqualsIfExists: { [`aws:RequestTag/${clusterNameTag}`]: clusterName },
+        'ForAllValues:StringEquals': { 'aws:TagKeys': [clusterNameTag, 'karpenter.sh/nodeclaim', 'Name'] }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowScopedDeletion',
+      actions: ['ec2:TerminateInstances', 'ec2:DeleteLaunchTemplate'],
+      resources: [
+        `arn:${stack.partition}:ec2:${stack.region}:*:instance/*`,
+        `arn:${stack.partition}:ec2:${stack.region}:*:launch-template/*`
+      ],
+      conditions: {
+        StringEquals: {
+          [`aws:ResourceTag/kubernetes.io/cluster/${clusterName}`]: 'owned',
+          [`aws:ResourceTag/${clusterNameTag}`]: clusterName
+        },
+        StringLike: { 'aws:ResourceTag/karpenter.sh/nodepool': '*' }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowRegionalReadActions',
+      actions: [
+        'ec2:DescribeAvailabilityZones',
+        'ec2:DescribeImages',
+        'ec2:DescribeInstances',
+        'ec2:DescribeInstanceTypeOfferings',
+        'ec2:DescribeInstanceTypes',
+        'ec2:DescribeLaunchTemplates',
+        'ec2:DescribeSecurityGroups',
+        'ec2:DescribeSpotPriceHistory',
+        'ec2:DescribeSubnets',
+        'ec2:DescribeCapacityReservations'
+      ],
+      resources: ['*'],
+      conditions: {
+        StringEquals: { 'aws:RequestedRegion': stack.region }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowSSMReadActions',
+      actions: ['ssm:GetParameter'],
+      resources: [`arn:${stack.partition}:ssm:${stack.region}::parameter/aws/service/*`]
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowPricingReadActions',
+      actions: ['pricing:GetProducts'],
+      resources: ['*']
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowInterruptionQueueActions',
+      actions: ['sqs:DeleteMessage', 'sqs:GetQueueUrl', 'sqs:ReceiveMessage'],
+      resources: [this.interruptionQueue.queueArn]
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowPassingInstanceRole',
+      actions: ['iam:PassRole'],
+      resources: [this.nodeRole.roleArn],
+      conditions: {
+        StringEquals: { 'iam:PassedToService': 'ec2.amazonaws.com' }
+      }
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowInstanceProfileActions',
+      actions: [
+        'iam:CreateInstanceProfile',
+        'iam:TagInstanceProfile',
+        'iam:AddRoleToInstanceProfile',
+        'iam:RemoveRoleFromInstanceProfile',
+        'iam:DeleteInstanceProfile',
+        'iam:GetInstanceProfile',
+        'iam:ListInstanceProfiles'
+      ],
+      resources: [`arn:${stack.partition}:iam::${stack.account}:instance-profile/*`]
+    }))
+    this.controllerRole.addToPolicy(new iam.PolicyStatement({
+      sid: 'AllowAPIServerEndpointDiscovery',
+      actions: ['eks:DescribeCluster'],
+      resources: [cluster.clusterArn]
+    }))
+
+    const podIdentity = new eks.CfnPodIdentityAssociation(this, 'ControllerPodIdentity', {
+      clusterName: cluster.clusterName,
+      namespace,
+      serviceAccount,
+      roleArn: this.controllerRole.roleArn
+    })
+    podIdentity.node.addDependency(podIdentityAgent)
+
+    // Install the controller; its default affinity keeps it on the managed node groups
+    const chart = cluster.addHelmChart('KarpenterChart', {
+      chart: 'karpenter',
+      repository: 'oci://public.ecr.aws/karpenter/karpenter',
+      version: config.version ?? DEFAULT_KARPENTER_VERSION,
+      namespace,
+      release: 'karpenter',
+      wait: true,
+      values: {
+        serviceAccount: {
+          name: serviceAccount
+        },
+        settings: {
+          clusterName: cluster.clusterName,
+          interruptionQueue: this.interruptionQueue.queueName
+        },
+        controller: {
+          resources: {
+            requests: { cpu: '250m', memory: '512Mi' },
+            limits: { cpu: '1', memory: '1Gi' }
+          }
+        }
+      }
+    })
+    chart.node.addDependency(podIdentity)
+
+    // Default EC2NodeClass and NodePool
+    const nodeClass = cluster.addManifest('KarpenterNodeClass', {
+      apiVersion: 'karpenter.k8s.aws/v1',
+      kind: 'EC2NodeClass',
+      metadata: { name: 'default' },
+      spec: {
+        role: this.nodeRole.roleName,
+        amiSelectorTerms: [{ alias: 'al2023@latest' }],
+        subnetSelectorTerms: [{ tags: { [KARPENTER_DISCOVERY_TAG]: clusterName } }],
+        securityGroupSelectorTerms: [{ id: cluster.clusterSecurityGroupId }],
+        blockDeviceMappings: [
+          {
+            deviceName: '/dev/xvda',
+            ebs: {
+              volumeSize: `${config.diskSize ?? 20}Gi`,
+              volumeType: 'gp3',
+              encrypted: true
+            }
+          }
+        ],
+        tags: {
+          Environment: environment,
+          ManagedBy: 'Karpenter'
+        }
+      }
+    })
+    nodeClass.node.addDependency(chart)
+
+    const nodePool = cluster.addManifest('KarpenterNodePool', {
+      apiVersion: 'karpenter.sh/v1',
+      kind: 'NodePool',
+      metadata: { name: 'default' },
+      spec: {
+        template: {
+          spec: {
+            nodeClassRef: { group: 'karpenter.k8s.aws', kind: 'EC2NodeClass', name: 'default' },
+            expireAfter: config.expireAfter ?? '720h',
+            requirements: [
+              { key: 'karpenter.sh/capacity-type', operator: 'In', values: config.capacityTypes ?? ['on-demand'] },
+              { key: 'kubernetes.io/arch', operator: 'In', values: config.architectures ?? ['amd64'] },
+              { key: 'karpenter.k8s.aws/instance-category', operator: 'In', values: config.instanceCategories ?? ['c', 'm', 'r'] },
+              { key: 'karpenter.k8s.aws/instance-generation', operator: 'Gt', values: ['2'] }
+            ]
+          }
+        },
+        limits: {
+          cpu: config.cpuLimit ?? 100
+        },
+        disruption: {
+          consolidationPolicy: 'WhenEmptyOrUnderutilized',
+          consolidateAfter: config.consolidateAfter ?? '1m'
+        }
+      }
+    })
+    nodePool.node.addDependency(nodeClass)
+  }
+}
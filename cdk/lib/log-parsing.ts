@@ -0,0 +1,153 @@
+import {
+  DEFAULT_LOG_MULTILINE_PARSERS,
+  DEFAULT_LOG_TIMESTAMP_FORMATS,
+  LogParsingConfig,
+  MultilineParser,
+  PiiKind,
+  PipelinePlugin
+} from './stack-config'
+
+/**
+ * Sub-pipeline of logs-pipeline.yaml receiving the container logs from Fluent Bit
+ */
+export const LOG_ENTRY_PIPELINE = 'log-pipeline'
+
+/**
+ * Lines holding a JSON object rather than text
+ */
+const JSON_LINE = '/message =~ "^[{]"'
+
+/**
+ * Keys other logging libraries put the level under
+ */
+const LEVEL_KEYS = ['log_level', 'severity', 'lvl']
+
+/**
+ * Level spellings, lowercased, and the level they stand for
+ */
+const LEVEL_ALIASES: Record<string, string[]> = {
+  trace: ['finest', 'finer'],
+  debug: ['fine', 'config'],
+  info: ['information', 'notice'],
+  warn: ['warning'],
+  error: ['err', 'severe'],
+  fatal: ['critical', 'crit', 'alert', 'emerg', 'emergency', 'panic']
+}
+
+/**
+ * Trace context written into the text of a line: a W3C traceparent, or trace and span IDs
+ * as key-value pairs
+ */
+const TRACE_CONTEXT_PATTERNS = [
+  '\\b00-%{TRACE_ID:traceId}-%{SPAN_ID:spanId}-[0-9a-f]{2}\\b',
+  '\\btrace_?[iI]d[=:]\\s*"?%{TRACE_ID:traceId}"?[,\\s]+span_?[iI]d[=:]\\s*"?%{SPAN_ID:spanId}',
+  '\\btrace_?[iI]d[=:]\\s*"?%{TRACE_ID:traceId}'
+]
+
+/**
+ * Obfuscate processor patterns of the kinds of personal data
+ */
+const PII_PATTERNS: Record<PiiKind, string> = {
+  email: '%{EMAIL_ADDRESS}',
+  ipv4: '%{IP_ADDRESS_V4}',
+  'credit-card': '%{CREDIT_CARD_NUMBER}',
+  phone: '%{US_PHONE_NUMBER}',
+  ssn: '%{US_SSN_NUMBER}'
+}
+
+/**
+ * Multiline parsers of the Fluent Bit filter joining stack traces, which scripts/deploy-log.sh
+ * writes into the Fluent Bit configuration; none leaves the filter out
+ */
+export function logMultilineParsers (config: LogParsingConfig | undefined): MultilineParser[] {
+  return config?.multiline ?? DEFAULT_LOG_MULTILINE_PARSERS
+}
+
+/**
+ * Processors parsing and enriching container log lines, appended to log-pipeline after the
+ * Kubernetes fields are set. In order: grok for text lines, JSON for the others, the
+ * grok-captured timestamp into @timestamp, level normalisation, trace context for
+ * correlating logs with spans, and PII masking last so parsed text is masked too.
+ * Stack traces are joined into one line by Fluent Bit before they get here.
+ */
+export function logParsingProcessors (config: LogParsingConfig | undefined): PipelinePlugin[] {
+  const parsing = config ?? {}
+  const processors: PipelinePlugin[] = []
+
+  if (parsing.grok !== undefined && parsing.grok.length > 0) {
+    processors.push(
+      {
+        grok: {
+          match: { message: parsing.grok },
+          // A `message` capture replaces the line rather than joining it in a list
+          keys_to_overwrite: ['message'],
+          ...(parsing.json ? { grok_when: `not ${JSON_LINE}` } : {}),
+          tags_on_match_failure: ['_grokparsefailure']
+        }
+      },
+      {
+        date: {
+          match: [{ key: 'timestamp', patterns: parsing.timestampFormats ?? DEFAULT_LOG_TIMESTAMP_FORMATS }],
+          destination: '@timestamp',
+          date_when: '/timestamp != null'
+        }
+      },
+      { delete_entries: { with_keys: ['timestamp'] } }
+    )
+  }
+  if (parsing.json) {
+    processors.push({
+      parse_json: {
+        source: 'message',
+        parse_when: JSON_LINE,
+        tags_on_failure: ['_jsonparsefailure']
+      }
+    })
+  }
+  if (parsing.normalizeLevel) {
+    processors.push(
+      { rename_keys: { entries: LEVEL_KEYS.map(key => ({ from_key: key, to_key: 'level' })) } },
+      { lowercase_string: { with_keys: ['level'] } },
+      {
+        substitute_string: {
+          entries: Object.entries(LEVEL_ALIASES).map(([level, aliases]) => ({
+            source: 'level',
+            from: `^(${aliases.join('|')})$`,
+            to: level
+          }))
+        }
+      }
+    )
+  }
+  if (parsing.traceContext) {
+    processors.push(
+      {
+        rename_keys: {
+          entries: [
+            { from_key: 'trace_id', to_key: 'traceId' },
+            { from_key: 'span_id', to_key: 'spanId' }
+          ]
+        }
+      },
+      // Logback's MDC fields are empty outside a span
+      { delete_entries: { with_keys: ['traceId'], delete_when: '/traceId == ""' } },
+      { delete_entries: { with_keys: ['spanId'], delete_when: '/spanId == ""' } },
+      {
+        grok: {
+          match: { message: TRACE_CONTEXT_PATTERNS },
+          pattern_definitions: { TRACE_ID: '[0-9a-f]{32}', SPAN_ID: '[0-9a-f]{16}' },
+          grok_when: '/traceId == null'
+        }
+      }
+    )
+  }
+  if (parsing.maskPii !== undefined && parsing.maskPii.length > 0) {
+    processors.push({
+      obfuscate: {
+        source: 'message',
+        patterns: parsing.maskPii.map(kind => PII_PATTERNS[kind])
+      }
+    })
+  }
+  return processors
+}
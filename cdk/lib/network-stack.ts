@@ -1,13 +1,37 @@
 import * as cdk from 'aws-cdk-lib'
 import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as cxschema from 'aws-cdk-lib/cloud-assembly-schema'
 import { Construct } from 'constructs'
-import { StackConfig, ExportNames, CrossStackUtils } from './stack-config'
+import {
+  StackConfig,
+  ExportNames,
+  CrossStackUtils,
+  DEFAULT_CONFIG,
+  DEFAULT_NETWORK_CONFIG,
+  NetworkConfig,
+  ExistingVpcConfig,
+  VpcEndpointService
+} from './stack-config'
+import { CrossStackReferences } from './cross-stack-references'
+import { KARPENTER_DISCOVERY_TAG } from './karpenter'
+import { VpcFlowLogs } from './flow-logs'
+
+/**
+ * VPC together with the subnets published as the private and isolated tiers
+ */
+interface VpcSubnets<T extends ec2.IVpc> {
+  vpc: T
+  privateSubnets: ec2.ISubnet[]
+  isolatedSubnets: ec2.ISubnet[]
+}
 
 /**
  * NetworkStack manages all networking infrastructure including VPC, subnets, and connectivity components
  */
 export class NetworkStack extends cdk.Stack {
-  public readonly vpc: ec2.Vpc
+  private static readonly PENDING_LOOKUP = 'pending-lookup'
+
+  public readonly vpc: ec2.IVpc
 
   constructor (
     scope: Construct,
@@ -17,55 +41,34 @@ export class NetworkStack extends cdk.Stack {
   ) {
     super(scope, id, props)
 
-    // Create VPC with public and private subnets across 3 AZs
-    this.vpc = new ec2.Vpc(this, 'EksVpc', {
-      maxAzs: 3,
-      natGateways: 1,
-      vpcName: `${config.environment}-eks-vpc`,
-      ipAddresses: config.vpcCidr
-        ? ec2.IpAddresses.cidr(config.vpcCidr)
-        : ec2.IpAddresses.cidr('10.0.0.0/16'),
-      subnetConfiguration: [
-        {
-          cidrMask: 24,
-          name: 'public',
-          subnetType: ec2.SubnetType.PUBLIC,
-          mapPublicIpOnLaunch: false
-        },
-        {
-          cidrMask: 24,
-          name: 'private',
-          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS
-        }
-      ],
-      enableDnsHostnames: true,
-      enableDnsSupport: true
-    })
+    const references = new CrossStackReferences(this, config)
 
-    // Add tags to VPC and subnets for better organization
-    cdk.Tags.of(this.vpc).add('Environment', config.environment)
-    cdk.Tags.of(this.vpc).add('Stack', 'Network')
+    const network = { ...DEFAULT_NETWORK_CONFIG, ...config.network }
 
-    // Tag subnets for EKS discovery
-    this.vpc.privateSubnets.forEach((subnet, index) => {
-      cdk.Tags.of(subnet).add('kubernetes.io/role/internal-elb', '1')
-      cdk.Tags.of(subnet).add(
-        'Name',
-        `${config.environment}-private-subnet-${index + 1}`
-      )
-    })
+    // Either adopt a pre-built VPC or create one with the configured layout
+    const { vpc, privateSubnets, isolatedSubnets } = network.existingVpc
+      ? this.importVpc(config, network.existingVpc)
+      : this.createVpc(config, network)
+    this.vpc = vpc
 
-    this.vpc.publicSubnets.forEach((subnet, index) => {
-      cdk.Tags.of(subnet).add('kubernetes.io/role/elb', '1')
-      cdk.Tags.of(subnet).add(
-        'Name',
-        `${config.environment}-public-subnet-${index + 1}`
-      )
-    })
+    // Optional VPC endpoints so nodes and pipelines reach AWS services without NAT
+    const vpcEndpoints = this.createVpcEndpoints(
+      network.vpcEndpoints ?? [],
+      privateSubnets,
+      [...privateSubnets, ...isolatedSubnets]
+    )
+
+    // Optional VPC Flow Logs
+    const flowLogs = config.flowLogs?.enabled
+      ? new VpcFlowLogs(this, 'VpcFlowLogs', {
+        vpc: this.vpc,
+        config: config.flowLogs,
+        environment: config.environment
+      })
+      : undefined
 
     // Export VPC ID for other stacks
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'VpcIdExport',
       this.vpc.vpcId,
       ExportNames.NETWORK_VPC_ID,
@@ -73,26 +76,101 @@ export class NetworkStack extends cdk.Stack {
     )
 
     // Export private subnet IDs as comma-separated string
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'PrivateSubnetIdsExport',
-      this.vpc.privateSubnets.map(subnet => subnet.subnetId).join(','),
+      privateSubnets.map(subnet => subnet.subnetId).join(','),
       ExportNames.NETWORK_PRIVATE_SUBNET_IDS,
       'Private subnet IDs for cross-stack reference'
     )
 
     // Export public subnet IDs as comma-separated string
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'PublicSubnetIdsExport',
       this.vpc.publicSubnets.map(subnet => subnet.subnetId).join(','),
       ExportNames.NETWORK_PUBLIC_SUBNET_IDS,
       'Public subnet IDs for cross-stack reference'
     )
 
+    // Export isolated subnet IDs when the data tier exists
+    if (isolatedSubnets.length > 0) {
+      references.exportValue(
+        'IsolatedSubnetIdsExport',
+        isolatedSubnets.map(subnet => subnet.subnetId).join(','),
+        ExportNames.NETWORK_ISOLATED_SUBNET_IDS,
+        'Isolated subnet IDs for data services'
+      )
+    }
+
+    // Export availability zones used by the subnets
+    references.exportValue(
+      'AvailabilityZonesExport',
+      this.vpc.availabilityZones.join(','),
+      ExportNames.NETWORK_AVAILABILITY_ZONES,
+      'Availability zones used by the VPC'
+    )
+
+    // Export VPC endpoint IDs
+    for (const [service, endpointId] of Object.entries(vpcEndpoints.endpointIds)) {
+      references.exportValue(
+        `VpcEndpoint${NetworkStack.endpointIdSuffix(service)}Export`,
+        endpointId,
+        ExportNames.networkVpcEndpointId(service),
+        `VPC endpoint ID for ${service}`
+      )
+    }
+
+    if (vpcEndpoints.securityGroup) {
+      references.exportValue(
+        'VpcEndpointSecurityGroupIdExport',
+        vpcEndpoints.securityGroup.securityGroupId,
+        ExportNames.NETWORK_VPC_ENDPOINT_SECURITY_GROUP_ID,
+        'Security group of the VPC interface endpoints'
+      )
+    }
+
+    // Export the flow log bucket and notification queue read by the flow logs pipeline
+    if (flowLogs?.bucket) {
+      references.exportValue(
+        'FlowLogsBucketNameExport',
+        flowLogs.bucket.bucketName,
+        ExportNames.NETWORK_FLOW_LOGS_BUCKET_NAME,
+        'Bucket receiving VPC Flow Logs'
+      )
+    }
+
+    if (flowLogs?.queue) {
+      references.exportValue(
+        'FlowLogsQueueUrlExport',
+        flowLogs.queue.queueUrl,
+        ExportNames.NETWORK_FLOW_LOGS_QUEUE_URL,
+        'Queue announcing new VPC Flow Log objects'
+      )
+      references.exportValue(
+        'FlowLogsQueueArnExport',
+        flowLogs.queue.queueArn,
+        ExportNames.NETWORK_FLOW_LOGS_QUEUE_ARN,
+        'ARN of the queue announcing new VPC Flow Log objects'
+      )
+    }
+
+    // Prefix list of the public subnets, for rules admitting traffic from the NLB in them
+    const publicSubnetsPrefixList = new ec2.PrefixList(this, 'PublicSubnetsPrefixList', {
+      prefixListName: `${config.environment}-public-subnets`,
+      addressFamily: ec2.AddressFamily.IP_V4,
+      entries: this.vpc.publicSubnets.map(subnet => ({
+        cidr: subnet.ipv4CidrBlock,
+        description: `Public subnet in ${subnet.availabilityZone}`
+      }))
+    })
+    references.exportValue(
+      'PublicSubnetsPrefixListIdExport',
+      publicSubnetsPrefixList.prefixListId,
+      ExportNames.NETWORK_PUBLIC_SUBNETS_PREFIX_LIST_ID,
+      'Prefix list of the public subnet CIDR blocks'
+    )
+
     // Export VPC CIDR block for security group rules
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'VpcCidrExport',
       this.vpc.vpcCidrBlock,
       ExportNames.NETWORK_VPC_CIDR,
@@ -111,7 +189,7 @@ export class NetworkStack extends cdk.Stack {
     })
 
     new cdk.CfnOutput(this, 'PrivateSubnetCount', {
-      value: this.vpc.privateSubnets.length.toString(),
+      value: privateSubnets.length.toString(),
       description: 'Number of private subnets created'
     })
 
@@ -119,5 +197,247 @@ export class NetworkStack extends cdk.Stack {
       value: this.vpc.publicSubnets.length.toString(),
       description: 'Number of public subnets created'
     })
+
+    new cdk.CfnOutput(this, 'IsolatedSubnetCount', {
+      value: isolatedSubnets.length.toString(),
+      description: 'Number of isolated subnets created'
+    })
+
+    if (flowLogs) {
+      new cdk.CfnOutput(this, 'FlowLogsDestination', {
+        value: flowLogs.logGroup?.logGroupName ?? flowLogs.bucket!.bucketName,
+        description: 'Log group or bucket receiving VPC Flow Logs'
+      })
+    }
+
+    if (!network.existingVpc) {
+      new cdk.CfnOutput(this, 'NatGatewayCount', {
+        value: network.natGateways.toString(),
+        description: 'Number of NAT gateways created'
+      })
+    }
+  }
+
+  /**
+   * Create the VPC with public, private and optional isolated subnets, tagged for EKS discovery
+   */
+  private createVpc (
+    config: StackConfig,
+    network: typeof DEFAULT_NETWORK_CONFIG & NetworkConfig
+  ): VpcSubnets<ec2.Vpc> {
+    // Without NAT gateways the private tier has no egress and relies on VPC endpoints
+    const subnetConfiguration: ec2.SubnetConfiguration[] = [
+      {
+        cidrMask: network.publicSubnetCidrMask,
+        name: 'public',
+        subnetType: ec2.SubnetType.PUBLIC,
+        mapPublicIpOnLaunch: false
+      },
+      {
+        cidrMask: network.privateSubnetCidrMask,
+        name: 'private',
+        subnetType: network.natGateways > 0
+          ? ec2.SubnetType.PRIVATE_WITH_EGRESS
+          : ec2.SubnetType.PRIVATE_ISOLATED
+      }
+    ]
+    if (network.isolatedSubnetCidrMask) {
+      subnetConfiguration.push({
+        cidrMask: network.isolatedSubnetCidrMask,
+        name: 'isolated',
+        subnetType: ec2.SubnetType.PRIVATE_ISOLATED
+      })
+    }
+
+    // Create VPC with public, private and optional isolated subnets
+    const vpc = new ec2.Vpc(this, 'EksVpc', {
+      maxAzs: network.maxAzs,
+      natGateways: network.natGateways,
+      vpcName: `${config.environment}-eks-vpc`,
+      ipAddresses: ec2.IpAddresses.cidr(config.vpcCidr ?? DEFAULT_CONFIG.vpcCidr!),
+      subnetConfiguration,
+      enableDnsHostnames: true,
+      enableDnsSupport: true
+    })
+
+    // Select tiers by name: the private tier is isolated when there are no NAT gateways
+    const privateSubnets = vpc.selectSubnets({ subnetGroupName: 'private' }).subnets
+    const isolatedSubnets = network.isolatedSubnetCidrMask
+      ? vpc.selectSubnets({ subnetGroupName: 'isolated' }).subnets
+      : []
+
+    // Add tags to VPC and subnets for better organization
+    cdk.Tags.of(vpc).add('Environment', config.environment)
+    cdk.Tags.of(vpc).add('Stack', 'Network')
+
+    // Tag subnets for EKS discovery
+    privateSubnets.forEach((subnet, index) => {
+      cdk.Tags.of(subnet).add('kubernetes.io/role/internal-elb', '1')
+      if (config.karpenter?.enabled) {
+        cdk.Tags.of(subnet).add(
+          KARPENTER_DISCOVERY_TAG,
+          CrossStackUtils.generateClusterName(config.environment)
+        )
+      }
+      cdk.Tags.of(subnet).add(
+        'Name',
+        `${config.environment}-private-subnet-${index + 1}`
+      )
+    })
+
+    vpc.publicSubnets.forEach((subnet, index) => {
+      cdk.Tags.of(subnet).add('kubernetes.io/role/elb', '1')
+      cdk.Tags.of(subnet).add(
+        'Name',
+        `${config.environment}-public-subnet-${index + 1}`
+      )
+    })
+
+    isolatedSubnets.forEach((subnet, index) => {
+      cdk.Tags.of(subnet).add(
+        'Name',
+        `${config.environment}-isolated-subnet-${index + 1}`
+      )
+    })
+
+    return { vpc, privateSubnets, isolatedSubnets }
+  }
+
+  /**
+   * Look up an existing VPC and verify its subnets carry the tags the stacks rely on
+   */
+  private importVpc (config: StackConfig, existing: ExistingVpcConfig): VpcSubnets<ec2.IVpc> {
+    const vpc = ec2.Vpc.fromLookup(this, 'ImportedVpc', {
+      vpcId: existing.vpcId,
+      tags: existing.tags
+    })
+
+    // A VPC without NAT has its private tier classified as isolated
+    const privateSubnets = vpc.privateSubnets.length > 0 ? vpc.privateSubnets : vpc.isolatedSubnets
+    const isolatedSubnets = vpc.privateSubnets.length > 0 ? vpc.isolatedSubnets : []
+
+    const requiredTags: { subnets: ec2.ISubnet[], tags: Record<string, string> }[] = [
+      { subnets: vpc.publicSubnets, tags: { 'kubernetes.io/role/elb': '1' } },
+      {
+        subnets: privateSubnets,
+        tags: {
+          'kubernetes.io/role/internal-elb': '1',
+          ...(config.karpenter?.enabled
+            ? { [KARPENTER_DISCOVERY_TAG]: CrossStackUtils.generateClusterName(config.environment) }
+            : {})
+        }
+      }
+    ]
+
+    const subnetTags = this.lookupSubnetTags(vpc.vpcId)
+    if (subnetTags) {
+      const problems = requiredTags.flatMap(({ subnets, tags }) =>
+        subnets.flatMap(subnet =>
+          Object.entries(tags)
+            .filter(([key, value]) => subnetTags[subnet.subnetId]?.[key] !== value)
+            .map(([key, value]) => `${subnet.subnetId} is missing tag ${key}=${value}`)
+        )
+      )
+      if (privateSubnets.length === 0) {
+        problems.push('no private subnets found')
+      }
+      if (problems.length > 0) {
+        throw new Error(
+          `Existing VPC ${vpc.vpcId} cannot be used by environment '${config.environment}':\n` +
+            problems.map(problem => `  - ${problem}`).join('\n')
+        )
+      }
+    }
+
+    return { vpc, privateSubnets, isolatedSubnets }
+  }
+
+  /**
+   * Tags of every subnet in a VPC, keyed by subnet ID, via the Cloud Control API context
+   * provider. Returns undefined while the lookup is still pending (dummy value pass).
+   */
+  private lookupSubnetTags (vpcId: string): Record<string, Record<string, string>> | undefined {
+    const dummyValue = [{ Identifier: NetworkStack.PENDING_LOOKUP }]
+    const { value } = cdk.ContextProvider.getValue(this, {
+      provider: cxschema.ContextProvider.CC_API_PROVIDER,
+      props: {
+        typeName: 'AWS::EC2::Subnet',
+        propertyMatch: { VpcId: vpcId },
+        propertiesToReturn: ['SubnetId', 'Tags']
+      },
+      dummyValue
+    })
+
+    const subnets = value as { Identifier: string, SubnetId?: string, Tags?: { Key: string, Value: string }[] }[]
+    if (subnets.some(subnet => subnet.Identifier === NetworkStack.PENDING_LOOKUP)) {
+      return undefined
+    }
+    return Object.fromEntries(
+      subnets.map(subnet => [
+        subnet.SubnetId ?? subnet.Identifier,
+        Object.fromEntries((subnet.Tags ?? []).map(tag => [tag.Key, tag.Value]))
+      ])
+    )
+  }
+
+  /**
+   * Create the S3 gateway endpoint and interface endpoints (with private DNS) for the requested services
+   */
+  private createVpcEndpoints (
+    services: VpcEndpointService[],
+    interfaceSubnets: ec2.ISubnet[],
+    gatewaySubnets: ec2.ISubnet[]
+  ): { endpointIds: Record<string, string>, securityGroup?: ec2.SecurityGroup } {
+    const endpointIds: Record<string, string> = {}
+    const interfaceServices = services.filter(service => service !== 's3')
+
+    if (services.includes('s3')) {
+      const s3Endpoint = this.vpc.addGatewayEndpoint('S3GatewayEndpoint', {
+        service: ec2.GatewayVpcEndpointAwsService.S3,
+        subnets: [{ subnets: gatewaySubnets }]
+      })
+      endpointIds.s3 = s3Endpoint.vpcEndpointId
+    }
+
+    if (interfaceServices.length === 0) {
+      return { endpointIds }
+    }
+
+    const securityGroup = new ec2.SecurityGroup(this, 'VpcEndpointSecurityGroup', {
+      vpc: this.vpc,
+      description: 'Security group for VPC interface endpoints',
+      allowAllOutbound: false
+    })
+    securityGroup.addIngressRule(
+      ec2.Peer.ipv4(this.vpc.vpcCidrBlock),
+      ec2.Port.tcp(443),
+      'HTTPS from within the VPC'
+    )
+
+    // Interface endpoints live in the private tier, one ENI per AZ
+    for (const service of interfaceServices) {
+      const endpoint = this.vpc.addInterfaceEndpoint(
+        `${NetworkStack.endpointIdSuffix(service)}Endpoint`,
+        {
+          service: new ec2.InterfaceVpcEndpointAwsService(service),
+          subnets: { subnets: interfaceSubnets },
+          securityGroups: [securityGroup],
+          privateDnsEnabled: true
+        }
+      )
+      endpointIds[service] = endpoint.vpcEndpointId
+    }
+
+    return { endpointIds, securityGroup }
+  }
+
+  /**
+   * PascalCase construct ID fragment for an endpoint service, e.g. ecr.dkr → EcrDkr
+   */
+  private static endpointIdSuffix (service: string): string {
+    return service
+      .split(/[.-]/)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('')
   }
 }
@@ -0,0 +1,79 @@
+import type { StackConfig, NodeGroupConfig, NodeGroupAmiType } from './stack-config'
+
+/**
+ * CPU architecture of each supported node group AMI type
+ */
+export const NODE_GROUP_AMI_ARCHITECTURES: Record<NodeGroupAmiType, 'x86_64' | 'arm64'> = {
+  AL2_X86_64: 'x86_64',
+  AL2_ARM_64: 'arm64',
+  AL2023_X86_64_STANDARD: 'x86_64',
+  AL2023_ARM_64_STANDARD: 'arm64',
+  BOTTLEROCKET_X86_64: 'x86_64',
+  BOTTLEROCKET_ARM_64: 'arm64'
+}
+
+/**
+ * Name of the node group derived from nodeInstanceType/nodeCount when no nodeGroups are configured
+ */
+export const DEFAULT_NODE_GROUP_NAME = 'default'
+
+/**
+ * Whether an instance type runs on AWS Graviton (arm64), e.g. t4g, m7g, c6gn, r6gd
+ */
+export function isGravitonInstanceType (instanceType: string): boolean {
+  const family = instanceType.split('.')[0]
+  const attributes = family.replace(/^[a-z]+\d+/, '')
+  return attributes.includes('g')
+}
+
+/**
+ * Node groups to create for a configuration. Without explicit `nodeGroups`, a single
+ * on-demand AL2 group is derived from `nodeInstanceType` and `nodeCount` exactly as before.
+ */
+export function resolveNodeGroups (config: StackConfig): NodeGroupConfig[] {
+  if (config.nodeGroups && config.nodeGroups.length > 0) {
+    return config.nodeGroups.map(group => ({
+      capacityType: 'ON_DEMAND',
+      amiType: isGravitonInstanceType(group.instanceTypes[0])
+        ? 'AL2023_ARM_64_STANDARD'
+        : 'AL2023_X86_64_STANDARD',
+      diskSize: 20,
+      desiredSize: group.minSize,
+      ...group
+    }))
+  }
+
+  const nodeCount = config.nodeCount || 3
+  return [
+    {
+      name: DEFAULT_NODE_GROUP_NAME,
+      instanceTypes: [config.nodeInstanceType || 't3.large'],
+      capacityType: 'ON_DEMAND',
+      amiType: 'AL2_X86_64',
+      diskSize: 20,
+      minSize: nodeCount,
+      maxSize: nodeCount + 2,
+      desiredSize: nodeCount
+    }
+  ]
+}
+
+/**
+ * EKS node group name; the default group keeps its original `<env>-eks-nodes` name
+ */
+export function nodeGroupName (environment: string, group: NodeGroupConfig): string {
+  return group.name === DEFAULT_NODE_GROUP_NAME
+    ? `${environment}-eks-nodes`
+    : `${environment}-${group.name}-nodes`
+}
+
+/**
+ * Construct ID of a node group, e.g. `DefaultNodeGroup` or `ObservabilityNodeGroup`
+ */
+export function nodeGroupId (group: NodeGroupConfig): string {
+  const pascal = group.name
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+  return `${pascal}NodeGroup`
+}
@@ -8,34 +8,64 @@ import * as opensearch from 'aws-cdk-lib/aws-opensearchservice'
 import * as osis from 'aws-cdk-lib/aws-osis'
 import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2'
 import * as logs from 'aws-cdk-lib/aws-logs'
+import * as kms from 'aws-cdk-lib/aws-kms'
+import * as cr from 'aws-cdk-lib/custom-resources'
 import * as fs from 'fs'
 import * as path from 'path'
 import { Construct } from 'constructs'
-import { StackConfig, ExportNames, CrossStackUtils } from './stack-config'
+import { StackConfig, ExportNames, PipelineConfig, DEFAULT_FLOW_LOGS_CONFIG, DEFAULT_OPENSEARCH_ADMINS, DEFAULT_PIPELINE_SETTINGS, DEFAULT_TRACE_METRICS_CONFIG } from './stack-config'
+import { CrossStackReferences } from './cross-stack-references'
+import { FLOW_LOGS_INDEX_PREFIX, flowLogsIndexTemplate } from './flow-logs'
+import { DeploymentTarget } from './deployment-matrix'
+import { suppressSecurityRules } from './security-rules'
+import { OpenSearchMasterUser } from './opensearch-master-user'
+import { openSearchTopologyProps, resolveOpenSearchTopology } from './opensearch-topology'
+import { METRICS_INDEX_PREFIX, OpenSearchIndexLifecycle, indexLifecycleSettings } from './opensearch-index-lifecycle'
+import { DataPrepperPipeline, SubPipeline } from './data-prepper-pipeline'
+import { traceMetricsSubPipelines } from './trace-metrics'
+import { PipelineArchive, logsReplayPipeline } from './pipeline-archive'
+import { LOG_ENTRY_PIPELINE, logMultilineParsers, logParsingProcessors } from './log-parsing'
+
+export interface ObservabilityStackProps extends cdk.StackProps {
+  /** Put the region into IAM role names; needed in every region of an environment but its first */
+  qualifyGlobalNames?: boolean
+  /** Leave out the Grafana workspace because a central workspace aggregates this stack set */
+  skipGrafana?: boolean
+  /** Stack sets deployed in the same run whose Prometheus workspaces this stack's Grafana workspace aggregates; listed as outputs for scripts/add-grafana-datasources.sh */
+  aggregatedTargets?: DeploymentTarget[]
+}
 
 /**
  * ObservabilityStack manages monitoring, logging, and observability infrastructure
  */
 export class ObservabilityStack extends cdk.Stack {
   public readonly prometheusWorkspace: aps.CfnWorkspace
-  public readonly grafanaWorkspace: grafana.CfnWorkspace
+  public readonly grafanaWorkspace?: grafana.CfnWorkspace
   public readonly opensearchDomain: opensearch.Domain
+  /** Bucket of the pipelines' dead-letter queues and event archive */
+  public readonly pipelineArchive: PipelineArchive
 
   constructor (
     scope: Construct,
     id: string,
     config: StackConfig,
-    props?: cdk.StackProps
+    props?: ObservabilityStackProps
   ) {
     super(scope, id, props)
 
+    const references = new CrossStackReferences(this, config)
+    // IAM is global: role names must differ between regions of the same environment
+    const roleNamePrefix = props?.qualifyGlobalNames
+      ? `${config.environment}-${config.region}`
+      : config.environment
+
     // Import VPC for OpenSearch domain
-    const vpcId = CrossStackUtils.importValue(ExportNames.NETWORK_VPC_ID)
-    const vpcCidr = CrossStackUtils.importValue(ExportNames.NETWORK_VPC_CIDR)
-    const privateSubnetIds = CrossStackUtils.importListValue(
+    const vpcId = references.importValue(ExportNames.NETWORK_VPC_ID)
+    const vpcCidr = references.importValue(ExportNames.NETWORK_VPC_CIDR)
+    const privateSubnetIds = references.importListValue(
       ExportNames.NETWORK_PRIVATE_SUBNET_IDS
     )
-    const publicSubnetIds = CrossStackUtils.importListValue(
+    const publicSubnetIds = references.importListValue(
       ExportNames.NETWORK_PUBLIC_SUBNET_IDS
     )
 
@@ -58,29 +88,66 @@ export class ObservabilityStack extends cdk.Stack {
       }
     )
 
-    // Allow HTTPS access from VPC CIDR (for NLB and OSIS pipelines)
-    opensearchSecurityGroup.addIngressRule(
+    opensearchSecurityGroup.addEgressRule(
       ec2.Peer.anyIpv4(),
       ec2.Port.tcp(443),
-      'HTTPS access from anywhere'
+      'Allow outbound HTTPS traffic'
     )
 
-    opensearchSecurityGroup.addEgressRule(
+    // Security group for OSIS pipelines, which receive from the cluster and write to the domain
+    const pipelineSecurityGroup = new ec2.SecurityGroup(
+      this,
+      'PipelineSecurityGroup',
+      {
+        vpc,
+        description: 'Security group for OpenSearch Ingestion pipelines',
+        allowAllOutbound: false
+      }
+    )
+
+    pipelineSecurityGroup.addEgressRule(
       ec2.Peer.anyIpv4(),
       ec2.Port.tcp(443),
-      'Allow outbound HTTPS traffic'
+      'Allow outbound HTTPS traffic to the domain and AWS APIs'
+    )
+
+    // Allow HTTPS to the domain and pipelines only from the cluster, the pipelines and the NLB
+    const clusterSecurityGroup = ec2.SecurityGroup.fromSecurityGroupId(
+      this,
+      'ClusterSecurityGroup',
+      references.importValue(ExportNames.INFRA_CLUSTER_SECURITY_GROUP_ID)
+    )
+    pipelineSecurityGroup.addIngressRule(
+      clusterSecurityGroup,
+      ec2.Port.tcp(443),
+      'HTTPS from EKS nodes shipping logs and traces'
+    )
+    opensearchSecurityGroup.addIngressRule(
+      clusterSecurityGroup,
+      ec2.Port.tcp(443),
+      'HTTPS from EKS nodes'
+    )
+    opensearchSecurityGroup.addIngressRule(
+      pipelineSecurityGroup,
+      ec2.Port.tcp(443),
+      'HTTPS from OpenSearch Ingestion pipelines'
+    )
+    opensearchSecurityGroup.addIngressRule(
+      ec2.Peer.prefixList(references.importValue(ExportNames.NETWORK_PUBLIC_SUBNETS_PREFIX_LIST_ID)),
+      ec2.Port.tcp(443),
+      'HTTPS from the NLB in the public subnets'
     )
 
     // Import EKS resources from InfrastructureStack for IRSA configuration
-    const oidcProviderArn = CrossStackUtils.importValue(
+    const oidcProviderArn = references.importValue(
       ExportNames.INFRA_OIDC_PROVIDER_ARN
     )
-    const oidcProviderIssuer = CrossStackUtils.importValue(
+    const oidcProviderIssuer = references.importValue(
       ExportNames.INFRA_OIDC_PROVIDER_ISSUER
     )
 
     // Import EKS cluster name for the collector
-    const clusterName = CrossStackUtils.importValue(
+    const clusterName = references.importValue(
       ExportNames.INFRA_CLUSTER_NAME
     )
 
@@ -123,7 +190,7 @@ export class ObservabilityStack extends cdk.Stack {
       source: {
         eksConfiguration: {
           clusterArn: `arn:aws:eks:${this.region}:${this.account}:cluster/${clusterName}`,
-          subnetIds: CrossStackUtils.importListValue(
+          subnetIds: references.importListValue(
             ExportNames.NETWORK_PRIVATE_SUBNET_IDS
           )
         }
@@ -135,74 +202,18 @@ export class ObservabilityStack extends cdk.Stack {
       }
     })
 
-    // Create IAM role for Grafana to access Prometheus, CloudWatch, and OpenSearch
-    const grafanaRole = new iam.Role(this, 'GrafanaServiceRole', {
-      roleName: `${config.environment}-grafana-service-role`,
-      assumedBy: new iam.ServicePrincipal('grafana.amazonaws.com'),
-      managedPolicies: [
-        iam.ManagedPolicy.fromAwsManagedPolicyName(
-          'service-role/AmazonGrafanaCloudWatchAccess'
-        )
-      ],
-      inlinePolicies: {
-        PrometheusAccess: new iam.PolicyDocument({
-          statements: [
-            new iam.PolicyStatement({
-              effect: iam.Effect.ALLOW,
-              actions: [
-                'aps:ListWorkspaces',
-                'aps:DescribeWorkspace',
-                'aps:QueryMetrics',
-                'aps:GetLabels',
-                'aps:GetSeries',
-                'aps:GetMetricMetadata'
-              ],
-              resources: ['*']
-            })
-          ]
-        }),
-        OpenSearchAccess: new iam.PolicyDocument({
-          statements: [
-            new iam.PolicyStatement({
-              effect: iam.Effect.ALLOW,
-              actions: [
-                'es:ESHttpGet',
-                'es:DescribeElasticsearchDomains',
-                'es:ListDomainNames',
-                'aoss:*',
-              ],
-              resources: ['*']
-            }),
-            new iam.PolicyStatement({
-              effect: iam.Effect.ALLOW,
-              actions: ['es:ESHttpPost'],
-              resources: [
-                'arn:aws:es:*:*:domain/*/_msearch*',
-                'arn:aws:es:*:*:domain/*/_opendistro/_ppl',
-                'arn:aws:es:*:*:domain/*/collection/*'
-              ]
-            })
-          ]
-        })
-      }
-    })
-
-    // Create Amazon Managed Grafana workspace
-    this.grafanaWorkspace = new grafana.CfnWorkspace(this, 'GrafanaWorkspace', {
-      accountAccessType: 'CURRENT_ACCOUNT',
-      authenticationProviders: ['AWS_SSO'],
-      permissionType: 'SERVICE_MANAGED',
-      name: `${config.environment}-eks-observability-grafana`,
-      description: `Grafana workspace for EKS observability in ${config.environment}`,
-      dataSources: ['PROMETHEUS', 'CLOUDWATCH', 'AMAZON_OPENSEARCH_SERVICE'],
-      roleArn: grafanaRole.roleArn,
-      grafanaVersion: '10.4',
-      pluginAdminEnabled: true,
-      vpcConfiguration: {
-        securityGroupIds: [opensearchSecurityGroup.securityGroupId],
-        subnetIds: privateSubnetIds
-      }
-    })
+    // Grafana workspace, unless a central workspace aggregates this stack set
+    const grafanaResources = props?.skipGrafana
+      ? undefined
+      : this.createGrafana(config, roleNamePrefix, vpc, privateSubnetIds)
+    this.grafanaWorkspace = grafanaResources?.workspace
+    if (grafanaResources) {
+      opensearchSecurityGroup.addIngressRule(
+        grafanaResources.securityGroup,
+        ec2.Port.tcp(443),
+        'HTTPS from the Grafana workspace'
+      )
+    }
 
     // Create IAM role for EKS service account to write to Prometheus
     // Use CfnJson to handle cross-stack token resolution in trust policy
@@ -232,7 +243,7 @@ export class ObservabilityStack extends cdk.Stack {
       this,
       'PrometheusServiceAccountRole',
       {
-        roleName: `${config.environment}-prometheus-service-account-role`,
+        roleName: `${roleNamePrefix}-prometheus-service-account-role`,
         assumeRolePolicyDocument: trustPolicyDocument,
         policies: [
           {
@@ -257,37 +268,28 @@ export class ObservabilityStack extends cdk.Stack {
       }
     )
 
-    // Create OpenSearch domain with fine-grained access control
+    // Fine-grained access control master user: generated password in Secrets Manager or an IAM role
+    const masterUser = new OpenSearchMasterUser(this, 'OpenSearchMasterUser', {
+      config: config.openSearch?.masterUser,
+      roleName: `${roleNamePrefix}-opensearch-master-role`
+    })
+
+    // Create OpenSearch domain with fine-grained access control, spread across the first
+    // private subnets (the network stack creates one per AZ)
+    const topology = resolveOpenSearchTopology(config)
+    const domainSubnets = Array.from({ length: topology.availabilityZones }, (_, index) =>
+      ec2.Subnet.fromSubnetAttributes(this, `OpenSearchSubnet${index + 1}`, {
+        subnetId: cdk.Fn.select(index, privateSubnetIds),
+        availabilityZone: cdk.Fn.select(index, vpc.availabilityZones)
+      })
+    )
     this.opensearchDomain = new opensearch.Domain(this, 'OpenSearchCluster', {
       version: opensearch.EngineVersion.OPENSEARCH_2_19,
       vpc: vpc,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
-      vpcSubnets: [
-        {
-          subnets: [
-            ec2.Subnet.fromSubnetId(
-              this,
-              'OpenSearchSubnet',
-              cdk.Fn.select(0, privateSubnetIds)
-            )
-          ]
-        }
-      ],
+      vpcSubnets: [{ subnets: domainSubnets }],
       securityGroups: [opensearchSecurityGroup],
-      capacity: {
-        dataNodes: 1,
-        dataNodeInstanceType:
-          config.environment === 'prod' ? 'm7g.xlarge.search' : 'm7g.large.search',
-        masterNodes: 0,
-        multiAzWithStandbyEnabled: false
-      },
-      ebs: {
-        volumeSize: config.environment === 'prod' ? 50 : 30,
-        volumeType: ec2.EbsDeviceVolumeType.GP3
-      },
-      zoneAwareness: {
-        enabled: false
-      },
+      ...openSearchTopologyProps(topology),
       logging: {
         slowSearchLogEnabled: true,
         appLogEnabled: true,
@@ -298,22 +300,20 @@ export class ObservabilityStack extends cdk.Stack {
         enabled: true
       },
       enforceHttps: true,
-      accessPolicies: [
-        new iam.PolicyStatement({
-          effect: iam.Effect.ALLOW,
-          principals: [
-            new iam.AnyPrincipal(),
-            new iam.ArnPrincipal('arn:aws:iam::613477150601:role/Admin')
-          ],
-          actions: ['es:*'],
-          resources: ['*']
-        })
-      ]
+      fineGrainedAccessControl: masterUser.fineGrainedAccessControl
     })
+    const rotationSecurityGroup = masterUser.addRotation(this.opensearchDomain, vpc, domainSubnets)
+    if (rotationSecurityGroup) {
+      opensearchSecurityGroup.addIngressRule(
+        rotationSecurityGroup,
+        ec2.Port.tcp(443),
+        'HTTPS from the master user rotation function'
+      )
+    }
 
     // Add CloudWatch Logs resource policy for OpenSearch
     new logs.CfnResourcePolicy(this, 'OpenSearchLogsPolicy', {
-      policyName: 'OpenSearchLogsPolicy',
+      policyName: `${config.environment}-OpenSearchLogsPolicy`,
       policyDocument: JSON.stringify({
         Version: '2012-10-17',
         Statement: [
@@ -378,46 +378,56 @@ export class ObservabilityStack extends cdk.Stack {
         })
       }
     })
+    suppressSecurityRules(ingestionRole, [{
+      id: 'WildcardServiceResources',
+      reason: 'OSIS resolves VPC endpoints through Cloud Map namespaces that are not created by this stack'
+    }])
 
-    // Add ingestion role to OpenSearch access policy
-    this.opensearchDomain.addAccessPolicies(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        principals: [new iam.ArnPrincipal(ingestionRole.roleArn)],
-        actions: [
-          'es:*'
-        ],
-        resources: [
-          this.opensearchDomain.domainArn,
-          `${this.opensearchDomain.domainArn}/*`
-        ]
+    // Dead-letter queues and archive of the pipelines
+    const replay = config.pipelineArchive?.replay
+    this.pipelineArchive = new PipelineArchive(this, 'PipelineArchive', { config: config.pipelineArchive })
+    this.pipelineArchive.grantPipelineAccess(ingestionRole, replay?.enabled === true)
+
+    // Capacity, buffering, log retention and encryption shared by the pipelines
+    const pipelineSettings = { ...DEFAULT_PIPELINE_SETTINGS, ...config.pipelineSettings }
+    let pipelineKey: kms.Key | undefined
+    if (pipelineSettings.customerManagedKey) {
+      pipelineKey = new kms.Key(this, 'PipelineKey', {
+        description: `Encrypts the ${config.environment} OpenSearch Ingestion pipeline logs and buffers`,
+        enableKeyRotation: true
       })
-    )
+      // CloudWatch Logs uses the key on behalf of the log groups, OSIS as the pipeline role
+      pipelineKey.grantEncryptDecrypt(new iam.ServicePrincipal(`logs.${this.region}.amazonaws.com`))
+      pipelineKey.grantEncryptDecrypt(ingestionRole)
+    }
+    const pipelineLogRetention = pipelineSettings.logRetentionDays as logs.RetentionDays
+    const pipelineCapacity = {
+      minUnits: pipelineSettings.minUnits,
+      maxUnits: pipelineSettings.maxUnits,
+      bufferOptions: { persistentBufferEnabled: pipelineSettings.persistentBuffer },
+      encryptionAtRestOptions: pipelineKey ? { kmsKeyArn: pipelineKey.keyArn } : undefined
+    }
 
     // Logs ingestion pipeline
-    // TODO: Add OSIS pipelines for log and trace processing
-    const logsConfigPath = path.resolve(
-      __dirname,
-      '../config/logs-pipeline.yaml'
-    )
-    const logsConfig = fs
-      .readFileSync(logsConfigPath, 'utf8')
-      .replace(
-        '${OPENSEARCH_ENDPOINT}',
-        `https://${this.opensearchDomain.domainEndpoint}`
-      )
-      .replace('${INGESTION_ROLE_ARN}', ingestionRole.roleArn)
-      .replace('${AWS_REGION}', this.region)
+    const sinkValues = {
+      OPENSEARCH_ENDPOINT: `https://${this.opensearchDomain.domainEndpoint}`,
+      INGESTION_ROLE_ARN: ingestionRole.roleArn,
+      AWS_REGION: this.region,
+      ARCHIVE_BUCKET: this.pipelineArchive.bucket.bucketName
+    }
+    const logsTemplate = DataPrepperPipeline.fromFile(path.resolve(__dirname, '../config/logs-pipeline.yaml'))
+      .addProcessors({ [LOG_ENTRY_PIPELINE]: logParsingProcessors(config.pipelines?.logs?.parsing) })
+    const logsConfig = this.renderPipeline(logsTemplate, config.pipelines?.logs, sinkValues)
 
     const logLogGroup = new cdk.aws_logs.LogGroup(this, 'LogPipelineLogGroup', {
       logGroupName: `/aws/vendedlogs/OpenSearchIngestion/${config.environment}-logs-pipeline/logs`,
-      retention: cdk.aws_logs.RetentionDays.ONE_DAY,
+      retention: pipelineLogRetention,
+      encryptionKey: pipelineKey,
       removalPolicy: cdk.RemovalPolicy.DESTROY
     })
     const logsPipeline = new osis.CfnPipeline(this, 'LogsPipeline', {
       pipelineName: `${config.environment}-logs-pipeline`,
-      minUnits: 1,
-      maxUnits: 4,
+      ...pipelineCapacity,
       pipelineConfigurationBody: logsConfig,
       logPublishingOptions: {
         cloudWatchLogDestination: {
@@ -427,34 +437,38 @@ export class ObservabilityStack extends cdk.Stack {
       },
       vpcOptions: {
         subnetIds: privateSubnetIds,
-        securityGroupIds: [opensearchSecurityGroup.securityGroupId]
+        securityGroupIds: [pipelineSecurityGroup.securityGroupId]
       }
     })
 
-    // // Traces ingestion pipeline
-    const tracesConfigPath = path.resolve(
-      __dirname,
-      '../config/traces-pipeline.yaml'
-    )
-    const tracesConfig = fs
-      .readFileSync(tracesConfigPath, 'utf8')
-      .replace(
-        /\$\{OPENSEARCH_ENDPOINT\}/g,
-        `https://${this.opensearchDomain.domainEndpoint}`
+    // Traces ingestion pipeline, with the RED metrics sub-pipelines when enabled
+    const traceMetrics = { ...DEFAULT_TRACE_METRICS_CONFIG, ...config.pipelines?.traces?.redMetrics }
+    const tracesValues: Record<string, string> = { ...sinkValues }
+    if (traceMetrics.enabled && traceMetrics.prometheus) {
+      tracesValues.PROMETHEUS_REMOTE_WRITE_URL = `${this.prometheusWorkspace.attrPrometheusEndpoint}api/v1/remote_write`
+      ingestionRole.addToPolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['aps:RemoteWrite'],
+          resources: [this.prometheusWorkspace.attrArn]
+        })
       )
-      .replace(/\$\{INGESTION_ROLE_ARN\}/g, ingestionRole.roleArn)
-      .replace(/\$\{AWS_REGION\}/g, cdk.Stack.of(this).region)
-    // create log group for traces pipeline
-
+    }
+    const tracesConfig = this.renderPipeline(
+      'traces-pipeline.yaml',
+      config.pipelines?.traces,
+      tracesValues,
+      traceMetricsSubPipelines(traceMetrics)
+    )
     const tracesLogGroup = new cdk.aws_logs.LogGroup(this, 'TracesPipelineLogGroup', {
       logGroupName: `/aws/vendedlogs/OpenSearchIngestion/${config.environment}-traces-pipeline/logs`,
-      retention: cdk.aws_logs.RetentionDays.ONE_DAY,
+      retention: pipelineLogRetention,
+      encryptionKey: pipelineKey,
       removalPolicy: cdk.RemovalPolicy.DESTROY
     })
     const tracesPipeline = new osis.CfnPipeline(this, 'TracesPipeline', {
       pipelineName: `${config.environment}-traces-pipeline`,
-      minUnits: 1,
-      maxUnits: 4,
+      ...pipelineCapacity,
       logPublishingOptions: {
         cloudWatchLogDestination: {
           logGroup: tracesLogGroup.logGroupName
@@ -464,7 +478,7 @@ export class ObservabilityStack extends cdk.Stack {
       pipelineConfigurationBody: tracesConfig,
       vpcOptions: {
         subnetIds: privateSubnetIds,
-        securityGroupIds: [opensearchSecurityGroup.securityGroupId]
+        securityGroupIds: [pipelineSecurityGroup.securityGroupId]
       }
     })
 
@@ -472,6 +486,125 @@ export class ObservabilityStack extends cdk.Stack {
       ingestionRole.node.defaultChild as cdk.CfnResource
     )
 
+    // VPC Flow Logs pipeline reading the objects announced on the network stack's queue
+    const flowLogsConfig = { ...DEFAULT_FLOW_LOGS_CONFIG, ...config.flowLogs }
+    let flowLogsPipeline: osis.CfnPipeline | undefined
+    if (flowLogsConfig.enabled && flowLogsConfig.destination === 'opensearch') {
+      const flowLogsBucketName = references.importValue(
+        ExportNames.NETWORK_FLOW_LOGS_BUCKET_NAME
+      )
+      const flowLogsQueueArn = references.importValue(
+        ExportNames.NETWORK_FLOW_LOGS_QUEUE_ARN
+      )
+      ingestionRole.addToPolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [`arn:${this.partition}:s3:::${flowLogsBucketName}/*`]
+        })
+      )
+      ingestionRole.addToPolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: [
+            'sqs:ReceiveMessage',
+            'sqs:DeleteMessage',
+            'sqs:ChangeMessageVisibility'
+          ],
+          resources: [flowLogsQueueArn]
+        })
+      )
+
+      const flowLogsPipelineConfig = this.renderPipeline('flow-logs-pipeline.yaml', config.pipelines?.flowLogs, {
+        ...sinkValues,
+        FLOW_LOGS_QUEUE_URL: references.importValue(ExportNames.NETWORK_FLOW_LOGS_QUEUE_URL),
+        FLOW_LOGS_INDEX_PREFIX,
+        FLOW_LOGS_INDEX_TEMPLATE: JSON.stringify(flowLogsIndexTemplate(flowLogsConfig.fields))
+      })
+
+      const flowLogsLogGroup = new cdk.aws_logs.LogGroup(this, 'FlowLogsPipelineLogGroup', {
+        logGroupName: `/aws/vendedlogs/OpenSearchIngestion/${config.environment}-flow-logs-pipeline/logs`,
+        retention: pipelineLogRetention,
+        encryptionKey: pipelineKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY
+      })
+      flowLogsPipeline = new osis.CfnPipeline(this, 'FlowLogsPipeline', {
+        pipelineName: `${config.environment}-flow-logs-pipeline`,
+        ...pipelineCapacity,
+        pipelineConfigurationBody: flowLogsPipelineConfig,
+        logPublishingOptions: {
+          cloudWatchLogDestination: {
+            logGroup: flowLogsLogGroup.logGroupName
+          },
+          isLoggingEnabled: true
+        },
+        vpcOptions: {
+          subnetIds: privateSubnetIds,
+          securityGroupIds: [pipelineSecurityGroup.securityGroupId]
+        }
+      })
+      flowLogsPipeline.node.addDependency(ingestionRole)
+    }
+
+    // OTLP metrics pipeline, fed by the OTEL collector next to its remote write to AMP
+    let metricsPipeline: osis.CfnPipeline | undefined
+    if (config.pipelines?.metrics?.enabled) {
+      const metricsConfig = this.renderPipeline('metrics-pipeline.yaml', config.pipelines.metrics, {
+        ...sinkValues,
+        METRICS_INDEX_PREFIX
+      })
+
+      const metricsLogGroup = new cdk.aws_logs.LogGroup(this, 'MetricsPipelineLogGroup', {
+        logGroupName: `/aws/vendedlogs/OpenSearchIngestion/${config.environment}-metrics-pipeline/logs`,
+        retention: pipelineLogRetention,
+        encryptionKey: pipelineKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY
+      })
+      metricsPipeline = new osis.CfnPipeline(this, 'MetricsPipeline', {
+        pipelineName: `${config.environment}-metrics-pipeline`,
+        ...pipelineCapacity,
+        pipelineConfigurationBody: metricsConfig,
+        logPublishingOptions: {
+          cloudWatchLogDestination: {
+            logGroup: metricsLogGroup.logGroupName
+          },
+          isLoggingEnabled: true
+        },
+        vpcOptions: {
+          subnetIds: privateSubnetIds,
+          securityGroupIds: [pipelineSecurityGroup.securityGroupId]
+        }
+      })
+      metricsPipeline.node.addDependency(ingestionRole)
+    }
+
+    // One-off replay of archived logs through a pipeline scanning the archive bucket
+    let replayPipeline: osis.CfnPipeline | undefined
+    if (replay?.enabled) {
+      const replayLogGroup = new cdk.aws_logs.LogGroup(this, 'LogsReplayPipelineLogGroup', {
+        logGroupName: `/aws/vendedlogs/OpenSearchIngestion/${config.environment}-logs-replay-pipeline/logs`,
+        retention: pipelineLogRetention,
+        encryptionKey: pipelineKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY
+      })
+      replayPipeline = new osis.CfnPipeline(this, 'LogsReplayPipeline', {
+        pipelineName: `${config.environment}-logs-replay-pipeline`,
+        ...pipelineCapacity,
+        pipelineConfigurationBody: this.renderPipeline(logsReplayPipeline(replay), undefined, sinkValues),
+        logPublishingOptions: {
+          cloudWatchLogDestination: {
+            logGroup: replayLogGroup.logGroupName
+          },
+          isLoggingEnabled: true
+        },
+        vpcOptions: {
+          subnetIds: privateSubnetIds,
+          securityGroupIds: [pipelineSecurityGroup.securityGroupId]
+        }
+      })
+      replayPipeline.node.addDependency(ingestionRole)
+    }
+
     // Create OpenSearch Application for observability dashboard
     const opensearchApplication = new opensearch.CfnApplication(
       this,
@@ -489,51 +622,67 @@ export class ObservabilityStack extends cdk.Stack {
 
     // Add tags to all resources
     cdk.Tags.of(this.prometheusWorkspace).add('Environment', config.environment)
-    cdk.Tags.of(this.grafanaWorkspace).add('Environment', config.environment)
     cdk.Tags.of(this.opensearchDomain).add('Environment', config.environment)
     cdk.Tags.of(opensearchApplication).add('Environment', config.environment)
 
     // Export observability service information
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'PrometheusWorkspaceIdExport',
       this.prometheusWorkspace.attrWorkspaceId,
       ExportNames.OBS_PROMETHEUS_WORKSPACE_ID,
       'Amazon Managed Prometheus Workspace ID'
     )
 
-    CrossStackUtils.createExport(
-      this,
+    references.exportValue(
       'PrometheusEndpointExport',
       this.prometheusWorkspace.attrPrometheusEndpoint,
       ExportNames.OBS_PROMETHEUS_ENDPOINT,
       'Amazon Managed Prometheus Endpoint'
     )
 
-    CrossStackUtils.createExport(
-      this,
-      'GrafanaWorkspaceIdExport',
-      this.grafanaWorkspace.attrId,
-      ExportNames.OBS_GRAFANA_WORKSPACE_ID,
-      'Amazon Managed Grafana Workspace ID'
-    )
+    if (grafanaResources) {
+      cdk.Tags.of(grafanaResources.workspace).add('Environment', config.environment)
 
-    CrossStackUtils.createExport(
-      this,
-      'GrafanaEndpointExport',
-      this.grafanaWorkspace.attrEndpoint,
-      ExportNames.OBS_GRAFANA_ENDPOINT,
-      'Amazon Managed Grafana Endpoint'
-    )
+      references.exportValue(
+        'GrafanaWorkspaceIdExport',
+        grafanaResources.workspace.attrId,
+        ExportNames.OBS_GRAFANA_WORKSPACE_ID,
+        'Amazon Managed Grafana Workspace ID'
+      )
 
-    CrossStackUtils.createExport(
-      this,
+      references.exportValue(
+        'GrafanaEndpointExport',
+        grafanaResources.workspace.attrEndpoint,
+        ExportNames.OBS_GRAFANA_ENDPOINT,
+        'Amazon Managed Grafana Endpoint'
+      )
+    }
+
+    references.exportValue(
       'OpenSearchEndpointExport',
       this.opensearchDomain.domainEndpoint,
       ExportNames.OBS_OPENSEARCH_ENDPOINT,
       'OpenSearch Domain Endpoint'
     )
 
+    if (masterUser.secret) {
+      references.exportValue(
+        'OpenSearchMasterUserSecretArnExport',
+        masterUser.secret.secretArn,
+        ExportNames.OBS_OPENSEARCH_MASTER_USER_SECRET_ARN,
+        'OpenSearch master user secret ARN'
+      )
+    }
+
+    if (masterUser.roleArn) {
+      references.exportValue(
+        'OpenSearchMasterUserRoleArnExport',
+        masterUser.roleArn,
+        ExportNames.OBS_OPENSEARCH_MASTER_USER_ROLE_ARN,
+        'OpenSearch master user role ARN'
+      )
+    }
+
     // Create IAM role for OTEL collector (Pod Identity)
     const otelCollectorRole = new iam.CfnRole(this, 'OtelCollectorRole', {
       assumeRolePolicyDocument: {
@@ -583,6 +732,25 @@ export class ObservabilityStack extends cdk.Stack {
             ]
           }
         },
+        ...(metricsPipeline
+          ? [{
+              policyName: 'OSISMetricsAccess',
+              policyDocument: {
+                Version: '2012-10-17',
+                Statement: [
+                  {
+                    Effect: 'Allow',
+                    Action: [
+                      'osis:Ingest',
+                      'osis:BatchGetCollection',
+                      'osis:GetPipeline'
+                    ],
+                    Resource: metricsPipeline.attrPipelineArn
+                  }
+                ]
+              }
+            }]
+          : []),
         {
           policyName: 'OpenSearchAccess',
           policyDocument: {
@@ -624,6 +792,90 @@ export class ObservabilityStack extends cdk.Stack {
       ]
     })
 
+    // Domain access policy: only the roles reading or writing the domain, and the configured admins
+    const domainResources = [
+      this.opensearchDomain.domainArn,
+      `${this.opensearchDomain.domainArn}/*`
+    ]
+    const clientRoleArns = [
+      otelCollectorRole.attrArn,
+      references.importValue(ExportNames.INFRA_FLUENT_BIT_ROLE_ARN),
+      ...(grafanaResources ? [grafanaResources.role.roleArn] : [])
+    ]
+    const adminArns = [
+      ...(config.openSearch?.admins ?? DEFAULT_OPENSEARCH_ADMINS)
+        .map(arn => arn.replace('${AWS_ACCOUNT_ID}', this.account)),
+      ...(masterUser.roleArn ? [masterUser.roleArn] : [])
+    ]
+    this.opensearchDomain.addAccessPolicies(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        principals: [new iam.ArnPrincipal(ingestionRole.roleArn)],
+        actions: ['es:DescribeDomain', 'es:ESHttp*'],
+        resources: domainResources
+      }),
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        principals: clientRoleArns.map(arn => new iam.ArnPrincipal(arn)),
+        actions: ['es:ESHttp*'],
+        resources: domainResources
+      })
+    )
+    // Opt-in: Dashboards users sign in to the internal user database with basic auth, so their
+    // requests are unsigned. IP conditions are not supported on VPC domains; the security group
+    // admits the NLB subnets, and fine-grained access control authenticates every request.
+    const allowUnsigned = config.openSearch?.allowUnsignedDashboardsAccess === true
+    if (allowUnsigned) {
+      this.opensearchDomain.addAccessPolicies(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          principals: [new iam.AnyPrincipal()],
+          actions: ['es:ESHttp*'],
+          resources: domainResources
+        })
+      )
+      suppressSecurityRules(this.opensearchDomain, [{
+        id: 'OpenSearchAnyPrincipal',
+        reason: 'openSearch.allowUnsignedDashboardsAccess is set: basic-auth users are authenticated by fine-grained access control'
+      }])
+    }
+    if (adminArns.length > 0) {
+      this.opensearchDomain.addAccessPolicies(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          principals: adminArns.map(arn => new iam.ArnPrincipal(arn)),
+          actions: ['es:*'],
+          resources: domainResources
+        })
+      )
+    }
+
+    // ISM policies and index templates, installed through the domain API as the master user.
+    // A secret master user signs in with basic auth, which the access policy must admit.
+    if (masterUser.roleArn || allowUnsigned) {
+      const indexLifecycle = new OpenSearchIndexLifecycle(this, 'IndexLifecycle', {
+        domain: this.opensearchDomain,
+        masterRoleArn: masterUser.roleArn,
+        masterUserSecret: masterUser.roleArn ? undefined : masterUser.secret,
+        vpc,
+        subnets: domainSubnets,
+        settings: indexLifecycleSettings(config.openSearch?.indexLifecycle, topology)
+      })
+      opensearchSecurityGroup.addIngressRule(
+        indexLifecycle.securityGroup,
+        ec2.Port.tcp(443),
+        'HTTPS from the index lifecycle setup function'
+      )
+      // The traces sink keeps an existing span policy, so it must be installed first
+      logsPipeline.node.addDependency(indexLifecycle)
+      tracesPipeline.node.addDependency(indexLifecycle)
+    } else {
+      cdk.Annotations.of(this).addWarningV2(
+        'eks-observability:index-lifecycle',
+        'ISM policies and index templates need an IAM master user, or a secret master user with openSearch.allowUnsignedDashboardsAccess; log and trace indices are kept until deleted by hand'
+      )
+    }
+
     // Create Pod Identity Association for OTEL collector
     new eks.CfnPodIdentityAssociation(this, 'OtelCollectorPodIdentity', {
       clusterName: clusterName,
@@ -642,15 +894,17 @@ export class ObservabilityStack extends cdk.Stack {
       description: 'Amazon Managed Prometheus Endpoint'
     })
 
-    new cdk.CfnOutput(this, 'GrafanaWorkspaceId', {
-      value: this.grafanaWorkspace.attrId,
-      description: 'Amazon Managed Grafana Workspace ID'
-    })
+    if (grafanaResources) {
+      new cdk.CfnOutput(this, 'GrafanaWorkspaceId', {
+        value: grafanaResources.workspace.attrId,
+        description: 'Amazon Managed Grafana Workspace ID'
+      })
 
-    new cdk.CfnOutput(this, 'GrafanaEndpoint', {
-      value: this.grafanaWorkspace.attrEndpoint,
-      description: 'Amazon Managed Grafana Endpoint'
-    })
+      new cdk.CfnOutput(this, 'GrafanaEndpoint', {
+        value: grafanaResources.workspace.attrEndpoint,
+        description: 'Amazon Managed Grafana Endpoint'
+      })
+    }
 
     new cdk.CfnOutput(this, 'OpenSearchEndpoint', {
       value: this.opensearchDomain.domainEndpoint,
@@ -662,10 +916,12 @@ export class ObservabilityStack extends cdk.Stack {
       description: 'IAM Role ARN for Prometheus service account'
     })
 
-    new cdk.CfnOutput(this, 'GrafanaRoleArn', {
-      value: grafanaRole.roleArn,
-      description: 'IAM Role ARN for Grafana service'
-    })
+    if (grafanaResources) {
+      new cdk.CfnOutput(this, 'GrafanaRoleArn', {
+        value: grafanaResources.role.roleArn,
+        description: 'IAM Role ARN for Grafana service'
+      })
+    }
 
     new cdk.CfnOutput(this, 'OpenSearchApplicationId', {
       value: opensearchApplication.attrId,
@@ -683,11 +939,46 @@ export class ObservabilityStack extends cdk.Stack {
       description: 'Logs pipeline ingestion URL'
     })
 
+    // Read by scripts/deploy-log.sh, which adds Fluent Bit's multiline filter only with parsers
+    const multilineParsers = logMultilineParsers(config.pipelines?.logs?.parsing)
+    if (multilineParsers.length > 0) {
+      new cdk.CfnOutput(this, 'LogMultilineParsers', {
+        value: multilineParsers.join(','),
+        description: 'Fluent Bit multiline parsers joining stack traces'
+      })
+    }
+
     new cdk.CfnOutput(this, 'TracesIngestionUrl', {
       value: cdk.Fn.select(0, tracesPipeline.attrIngestEndpointUrls),
       description: 'Traces pipeline ingestion URL'
     })
 
+    if (metricsPipeline) {
+      new cdk.CfnOutput(this, 'MetricsIngestionUrl', {
+        value: cdk.Fn.select(0, metricsPipeline.attrIngestEndpointUrls),
+        description: 'Metrics pipeline ingestion URL'
+      })
+    }
+
+    new cdk.CfnOutput(this, 'PipelineArchiveBucketName', {
+      value: this.pipelineArchive.bucket.bucketName,
+      description: 'S3 bucket of the pipeline dead-letter queues and event archive'
+    })
+
+    if (replayPipeline) {
+      new cdk.CfnOutput(this, 'LogsReplayPipelineName', {
+        value: replayPipeline.pipelineName,
+        description: 'Pipeline replaying archived logs'
+      })
+    }
+
+    if (flowLogsPipeline) {
+      new cdk.CfnOutput(this, 'FlowLogsPipelineName', {
+        value: flowLogsPipeline.pipelineName,
+        description: 'VPC Flow Logs ingestion pipeline'
+      })
+    }
+
     new cdk.CfnOutput(this, 'OtelCollectorRoleArn', {
       value: otelCollectorRole.attrArn,
       description: 'OTEL Collector IAM Role ARN'
@@ -703,9 +994,166 @@ export class ObservabilityStack extends cdk.Stack {
       description: 'Target Group ARN for manual IP registration'
     })
 
-    new cdk.CfnOutput(this, 'OpenSearchCredentials', {
-      value: 'Username: admin, Password: Admin123!',
-      description: 'OpenSearch dashboard login credentials'
+    // Consumers read the master user credentials from Secrets Manager, never from outputs
+    if (masterUser.secret) {
+      new cdk.CfnOutput(this, 'OpenSearchMasterUserSecretArn', {
+        value: masterUser.secret.secretArn,
+        description: 'Secrets Manager secret with the OpenSearch master user name and password'
+      })
+    }
+
+    if (masterUser.roleArn) {
+      new cdk.CfnOutput(this, 'OpenSearchMasterUserRoleArn', {
+        value: masterUser.roleArn,
+        description: 'IAM role that is the OpenSearch master user'
+      })
+    }
+
+    // Prometheus endpoints of the stack sets this Grafana workspace aggregates, read
+    // from their regions; scripts/add-grafana-datasources.sh adds them as data sources
+    for (const target of props?.aggregatedTargets ?? []) {
+      const parameterName = CrossStackReferences.parameterName(
+        target.environment,
+        ExportNames.OBS_PROMETHEUS_ENDPOINT
+      )
+      const suffix = ObservabilityStack.pascalCase(`${target.environment}-${target.region}`)
+      const endpoint = new cr.AwsCustomResource(this, `PrometheusEndpoint${suffix}`, {
+        onUpdate: {
+          service: 'SSM',
+          action: 'getParameter',
+          parameters: { Name: parameterName },
+          region: target.region,
+          physicalResourceId: cr.PhysicalResourceId.of(`${target.region}${parameterName}`)
+        },
+        policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
+          resources: [
+            `arn:${this.partition}:ssm:${target.region}:${this.account}:parameter${parameterName}`
+          ]
+        }),
+        installLatestAwsSdk: false
+      })
+
+      new cdk.CfnOutput(this, `AggregatedPrometheusEndpoint${suffix}`, {
+        value: endpoint.getResponseField('Parameter.Value'),
+        description: `Prometheus endpoint of ${target.environment} in ${target.region}`
+      })
+    }
+  }
+
+  /**
+   * Configuration body of an OSIS pipeline from a template in cdk/config, with extra
+   * sub-pipelines, the environment's extra processors and the archive bucket's sinks
+   */
+  private renderPipeline (
+    template: string | DataPrepperPipeline,
+    additions: PipelineConfig | undefined,
+    values: Record<string, string>,
+    subPipelines: Record<string, SubPipeline> = {}
+  ): string {
+    const pipeline = typeof template === 'string'
+      ? DataPrepperPipeline.fromFile(path.resolve(__dirname, '../config', template))
+      : template
+    for (const [name, subPipeline] of Object.entries(subPipelines)) {
+      pipeline.addSubPipeline(name, subPipeline)
+    }
+    pipeline.addProcessors(additions?.processors)
+    return this.pipelineArchive.applyTo(pipeline).render(values)
+  }
+
+  /**
+   * Grafana workspace with a role that can read Prometheus, CloudWatch and OpenSearch
+   */
+  private createGrafana (
+    config: StackConfig,
+    roleNamePrefix: string,
+    vpc: ec2.IVpc,
+    subnetIds: string[]
+  ): { role: iam.Role, workspace: grafana.CfnWorkspace, securityGroup: ec2.SecurityGroup } {
+    // Security group for the workspace's network interfaces in the VPC
+    const securityGroup = new ec2.SecurityGroup(this, 'GrafanaSecurityGroup', {
+      vpc,
+      description: 'Security group for the Grafana workspace'
+    })
+
+    // Create IAM role for Grafana to access Prometheus, CloudWatch, and OpenSearch
+    const role = new iam.Role(this, 'GrafanaServiceRole', {
+      roleName: `${roleNamePrefix}-grafana-service-role`,
+      assumedBy: new iam.ServicePrincipal('grafana.amazonaws.com'),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName(
+          'service-role/AmazonGrafanaCloudWatchAccess'
+        )
+      ],
+      inlinePolicies: {
+        PrometheusAccess: new iam.PolicyDocument({
+          statements: [
+            new iam.PolicyStatement({
+              effect: iam.Effect.ALLOW,
+              actions: [
+                'aps:ListWorkspaces',
+                'aps:DescribeWorkspace',
+                'aps:QueryMetrics',
+                'aps:GetLabels',
+                'aps:GetSeries',
+                'aps:GetMetricMetadata'
+              ],
+              resources: ['*']
+            })
+          ]
+        }),
+        OpenSearchAccess: new iam.PolicyDocument({
+          statements: [
+            new iam.PolicyStatement({
+              effect: iam.Effect.ALLOW,
+              actions: [
+                'es:ESHttpGet',
+                'es:DescribeElasticsearchDomains',
+                'es:ListDomainNames',
+                'aoss:*',
+              ],
+              resources: ['*']
+            }),
+            new iam.PolicyStatement({
+              effect: iam.Effect.ALLOW,
+              actions: ['es:ESHttpPost'],
+              resources: [
+                'arn:aws:es:*:*:domain/*/_msearch*',
+                'arn:aws:es:*:*:domain/*/_opendistro/_ppl',
+                'arn:aws:es:*:*:domain/*/collection/*'
+              ]
+            })
+          ]
+        })
+      }
+    })
+
+    // Create Amazon Managed Grafana workspace
+    const workspace = new grafana.CfnWorkspace(this, 'GrafanaWorkspace', {
+      accountAccessType: 'CURRENT_ACCOUNT',
+      authenticationProviders: ['AWS_SSO'],
+      permissionType: 'SERVICE_MANAGED',
+      name: `${config.environment}-eks-observability-grafana`,
+      description: `Grafana workspace for EKS observability in ${config.environment}`,
+      dataSources: ['PROMETHEUS', 'CLOUDWATCH', 'AMAZON_OPENSEARCH_SERVICE'],
+      roleArn: role.roleArn,
+      grafanaVersion: '10.4',
+      pluginAdminEnabled: true,
+      vpcConfiguration: {
+        securityGroupIds: [securityGroup.securityGroupId],
+        subnetIds
+      }
     })
+
+    return { role, workspace, securityGroup }
+  }
+
+  /**
+   * PascalCase construct ID fragment, e.g. prod-eu-west-1 → ProdEuWest1
+   */
+  private static pascalCase (value: string): string {
+    return value
+      .split('-')
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('')
   }
 }
@@ -0,0 +1,354 @@
+import * as cdk from 'aws-cdk-lib'
+import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as lambda from 'aws-cdk-lib/aws-lambda'
+import * as opensearch from 'aws-cdk-lib/aws-opensearchservice'
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager'
+import * as cr from 'aws-cdk-lib/custom-resources'
+import { Construct } from 'constructs'
+import { DEFAULT_OPENSEARCH_INDEX_LIFECYCLE, OpenSearchIndexLifecycleConfig } from './stack-config'
+import { OpenSearchTopology } from './opensearch-topology'
+import { TRACE_ANOMALIES_INDEX_PREFIX, TRACE_METRICS_INDEX_PREFIX } from './trace-metrics'
+
+/**
+ * Prefix of the daily log indices written by the logs pipeline
+ */
+export const LOGS_INDEX_PREFIX = 'logs'
+
+/**
+ * Prefix of the span indices written by the trace-analytics-raw sink
+ */
+export const SPAN_INDEX_PREFIX = 'otel-v1-apm-span'
+
+/**
+ * Prefix of the daily metric indices written by the metrics pipeline, following the
+ * `ss4o_metrics-*` naming that OpenSearch Observability looks for
+ */
+export const METRICS_INDEX_PREFIX = 'ss4o_metrics-otel'
+
+/**
+ * ISM policy of the log indices
+ */
+export const LOGS_ISM_POLICY_ID = 'logs-lifecycle'
+
+/**
+ * ISM policy the trace-analytics-raw sink attaches to span indices. The sink only
+ * creates its own (rollover without deletion) when no policy with this ID exists.
+ */
+export const SPAN_ISM_POLICY_ID = 'raw-span-policy'
+
+/**
+ * ISM policy of the metric indices
+ */
+export const METRICS_ISM_POLICY_ID = 'metrics-lifecycle'
+
+/**
+ * Daily metric index families, deleted after the metrics retention: those of the metrics
+ * pipeline, and the RED metrics and latency anomalies derived from spans
+ */
+export const METRICS_INDEX_PATTERNS = [
+  `${METRICS_INDEX_PREFIX}-*`,
+  `${TRACE_METRICS_INDEX_PREFIX}-*`,
+  `${TRACE_ANOMALIES_INDEX_PREFIX}-*`
+]
+
+/**
+ * Everything the setup function installs on the domain
+ */
+export interface IndexLifecycleSettings {
+  /** ISM policies by policy ID */
+  policies: Record<string, object>
+  /** Composable index templates by name */
+  indexTemplates: Record<string, object>
+  /** Legacy templates by name, merged with the templates the trace-analytics sinks install */
+  legacyTemplates: Record<string, object>
+}
+
+/**
+ * Hot → warm → delete policy of the daily log indices. The warm state migrates indices to
+ * UltraWarm when the domain has warm nodes, and otherwise makes them read-only and merged.
+ */
+export function logsIsmPolicy (lifecycle: Required<OpenSearchIndexLifecycleConfig>, topology: OpenSearchTopology): object {
+  return {
+    description: `Log indices: warm after ${lifecycle.warmAfterDays} days, deleted after ${lifecycle.logRetentionDays} days`,
+    default_state: 'hot',
+    states: [
+      {
+        name: 'hot',
+        actions: [],
+        transitions: [{ state_name: 'warm', conditions: { min_index_age: `${lifecycle.warmAfterDays}d` } }]
+      },
+      {
+        name: 'warm',
+        actions: topology.warmNodes > 0
+          ? [{ warm_migration: {} }]
+          : [{ read_only: {} }, { force_merge: { max_num_segments: 1 } }],
+        transitions: [{ state_name: 'delete', conditions: { min_index_age: `${lifecycle.logRetentionDays}d` } }]
+      },
+      {
+        name: 'delete',
+        actions: [{ delete: {} }],
+        transitions: []
+      }
+    ],
+    ism_template: [{ index_patterns: [`${LOGS_INDEX_PREFIX}-*`], priority: 100 }]
+  }
+}
+
+/**
+ * Span index policy: daily rollover as the sink's own policy does, then deletion
+ */
+export function spanIsmPolicy (lifecycle: Required<OpenSearchIndexLifecycleConfig>): object {
+  return {
+    description: `Trace span indices: rolled over daily, deleted after ${lifecycle.traceRetentionDays} days`,
+    default_state: 'current_write_index',
+    states: [
+      {
+        name: 'current_write_index',
+        actions: [{ rollover: { min_size: '50gb', min_index_age: '24h' } }],
+        transitions: [{ state_name: 'delete', conditions: { min_index_age: `${lifecycle.traceRetentionDays}d` } }]
+      },
+      {
+        name: 'delete',
+        actions: [{ delete: {} }],
+        transitions: []
+      }
+    ]
+  }
+}
+
+/**
+ * Metric index policy: daily indices are written for a day and deleted after the retention
+ */
+export function metricsIsmPolicy (lifecycle: Required<OpenSearchIndexLifecycleConfig>): object {
+  return {
+    description: `Metric indices: deleted after ${lifecycle.metricsRetentionDays} days`,
+    default_state: 'hot',
+    states: [
+      {
+        name: 'hot',
+        actions: [],
+        transitions: [{ state_name: 'delete', conditions: { min_index_age: `${lifecycle.metricsRetentionDays}d` } }]
+      },
+      {
+        name: 'delete',
+        actions: [{ delete: {} }],
+        transitions: []
+      }
+    ],
+    ism_template: [{ index_patterns: METRICS_INDEX_PATTERNS, priority: 100 }]
+  }
+}
+
+/**
+ * Policies and templates for a lifecycle configuration. Indices get a replica when the
+ * domain has more than one data node to hold it.
+ */
+export function indexLifecycleSettings (
+  config: OpenSearchIndexLifecycleConfig | undefined,
+  topology: OpenSearchTopology
+): IndexLifecycleSettings {
+  const lifecycle = { ...DEFAULT_OPENSEARCH_INDEX_LIFECYCLE, ...config }
+  const settings = {
+    number_of_shards: lifecycle.shards,
+    number_of_replicas: topology.dataNodes > 1 ? 1 : 0
+  }
+  return {
+    policies: {
+      [LOGS_ISM_POLICY_ID]: logsIsmPolicy(lifecycle, topology),
+      [SPAN_ISM_POLICY_ID]: spanIsmPolicy(lifecycle),
+      [METRICS_ISM_POLICY_ID]: metricsIsmPolicy(lifecycle)
+    },
+    indexTemplates: {
+      [LOGS_INDEX_PREFIX]: {
+        index_patterns: [`${LOGS_INDEX_PREFIX}-*`],
+        priority: 100,
+        template: {
+          settings,
+          mappings: {
+            properties: {
+              '@timestamp': { type: 'date' },
+              service_name: { type: 'keyword' },
+              pod_name: { type: 'keyword' },
+              namespace: { type: 'keyword' },
+              container_name: { type: 'keyword' },
+              level: { type: 'keyword' },
+              traceId: { type: 'keyword' },
+              spanId: { type: 'keyword' }
+            }
+          }
+        }
+      },
+      metrics: {
+        index_patterns: METRICS_INDEX_PATTERNS,
+        priority: 100,
+        template: { settings }
+      }
+    },
+    legacyTemplates: {
+      [`${SPAN_INDEX_PREFIX}-settings`]: {
+        index_patterns: [`${SPAN_INDEX_PREFIX}-*`],
+        order: 10,
+        settings
+      }
+    }
+  }
+}
+
+/**
+ * Applies the settings on create and update; deleting the resource leaves them in place.
+ * Requests are signed as the IAM master role, or carry the internal master user's
+ * credentials from its secret. ISM policies are versioned, so an existing policy is
+ * updated with its sequence number.
+ */
+const SETUP_HANDLER = `
+const https = require('https')
+const { STS } = require('@aws-sdk/client-sts')
+const { SecretsManager } = require('@aws-sdk/client-secrets-manager')
+const { SignatureV4 } = require('@smithy/signature-v4')
+const { Sha256 } = require('@aws-crypto/sha256-js')
+
+const authenticate = async () => {
+  if (process.env.MASTER_SECRET_ARN) {
+    const { SecretString } = await new SecretsManager().getSecretValue({ SecretId: process.env.MASTER_SECRET_ARN })
+    const { username, password } = JSON.parse(SecretString)
+    const authorization = 'Basic ' + Buffer.from(username + ':' + password).toString('base64')
+    return async request => ({ ...request, headers: { ...request.headers, authorization } })
+  }
+  const { Credentials } = await new STS().assumeRole({
+    RoleArn: process.env.MASTER_ROLE_ARN,
+    RoleSessionName: 'index-lifecycle-setup'
+  })
+  const signer = new SignatureV4({
+    credentials: {
+      accessKeyId: Credentials.AccessKeyId,
+      secretAccessKey: Credentials.SecretAccessKey,
+      sessionToken: Credentials.SessionToken
+    },
+    region: process.env.AWS_REGION,
+    service: 'es',
+    sha256: Sha256
+  })
+  return request => signer.sign(request)
+}
+
+const call = async (authorize, method, path, body, query = {}) => {
+  const payload = body === undefined ? undefined : JSON.stringify(body)
+  const request = await authorize({
+    method,
+    protocol: 'https:',
+    hostname: process.env.DOMAIN_ENDPOINT,
+    path,
+    query,
+    headers: { host: process.env.DOMAIN_ENDPOINT, 'content-type': 'application/json' },
+    body: payload
+  })
+  const search = new URLSearchParams(query).toString()
+  const response = await new Promise((resolve, reject) => {
+    const req = https.request({
+      method,
+      hostname: request.hostname,
+      path: search ? path + '?' + search : path,
+      headers: request.headers
+    }, res => {
+      let data = ''
+      res.on('data', chunk => { data += chunk })
+      res.on('end', () => resolve({ status: res.statusCode, data }))
+    })
+    req.on('error', reject)
+    req.end(payload)
+  })
+  if (response.status >= 300 && !(method === 'GET' && response.status === 404)) {
+    throw new Error(method + ' ' + path + ' failed with ' + response.status + ': ' + response.data)
+  }
+  return { status: response.status, body: response.data ? JSON.parse(response.data) : {} }
+}
+
+exports.handler = async event => {
+  const PhysicalResourceId = 'index-lifecycle'
+  if (event.RequestType === 'Delete') {
+    return { PhysicalResourceId }
+  }
+  const authorize = await authenticate()
+  const { policies, indexTemplates, legacyTemplates } = JSON.parse(event.ResourceProperties.Settings)
+  for (const [id, policy] of Object.entries(policies)) {
+    const existing = await call(authorize, 'GET', '/_plugins/_ism/policies/' + id)
+    const query = existing.status === 200
+      ? { if_seq_no: String(existing.body._seq_no), if_primary_term: String(existing.body._primary_term) }
+      : {}
+    await call(authorize, 'PUT', '/_plugins/_ism/policies/' + id, { policy }, query)
+  }
+  for (const [name, template] of Object.entries(indexTemplates)) {
+    await call(authorize, 'PUT', '/_index_template/' + name, template)
+  }
+  for (const [name, template] of Object.entries(legacyTemplates)) {
+    await call(authorize, 'PUT', '/_template/' + name, template)
+  }
+  return { PhysicalResourceId }
+}
+`
+
+export interface OpenSearchIndexLifecycleProps {
+  domain: opensearch.IDomain
+  /** Fine-grained access control master role the setup function signs its requests as (iam-role master user) */
+  masterRoleArn?: string
+  /** Secret of the internal master user the setup function authenticates as (secret master user) */
+  masterUserSecret?: secretsmanager.ISecret
+  vpc: ec2.IVpc
+  /** Subnets the setup function runs in; they must reach the domain */
+  subnets: ec2.ISubnet[]
+  settings: IndexLifecycleSettings
+}
+
+/**
+ * Custom resource installing ISM policies and index templates through the domain's REST API
+ */
+export class OpenSearchIndexLifecycle extends Construct {
+  /** Security group of the setup function, to be admitted by the domain */
+  public readonly securityGroup: ec2.SecurityGroup
+
+  constructor (scope: Construct, id: string, props: OpenSearchIndexLifecycleProps) {
+    super(scope, id)
+    if (!props.masterRoleArn === !props.masterUserSecret) {
+      throw new Error('OpenSearchIndexLifecycle needs either masterRoleArn or masterUserSecret')
+    }
+
+    this.securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc: props.vpc,
+      description: 'Security group for the OpenSearch index lifecycle setup function'
+    })
+
+    const handler = new lambda.Function(this, 'Handler', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline(SETUP_HANDLER),
+      timeout: cdk.Duration.minutes(2),
+      vpc: props.vpc,
+      vpcSubnets: { subnets: props.subnets },
+      securityGroups: [this.securityGroup],
+      environment: {
+        DOMAIN_ENDPOINT: props.domain.domainEndpoint,
+        ...(props.masterUserSecret
+          ? { MASTER_SECRET_ARN: props.masterUserSecret.secretArn }
+          : { MASTER_ROLE_ARN: props.masterRoleArn! })
+      }
+    })
+    if (props.masterUserSecret) {
+      props.masterUserSecret.grantRead(handler)
+    } else {
+      handler.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['sts:AssumeRole'],
+        resources: [props.masterRoleArn!]
+      }))
+    }
+
+    const provider = new cr.Provider(this, 'Provider', { onEventHandler: handler })
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      serviceToken: provider.serviceToken,
+      resourceType: 'Custom::OpenSearchIndexLifecycle',
+      properties: { Settings: JSON.stringify(props.settings) }
+    })
+    // The domain's access policy must admit the master role or the master user's requests first
+    resource.node.addDependency(props.domain)
+  }
+}
@@ -0,0 +1,196 @@
+import * as cdk from 'aws-cdk-lib'
+import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as lambda from 'aws-cdk-lib/aws-lambda'
+import * as opensearch from 'aws-cdk-lib/aws-opensearchservice'
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager'
+import { Construct } from 'constructs'
+import { DEFAULT_OPENSEARCH_MASTER_USER, OpenSearchMasterUserConfig } from './stack-config'
+
+/**
+ * Characters left out of generated passwords so they can be pasted into shells and JSON
+ */
+const EXCLUDED_PASSWORD_CHARACTERS = '"\'\\/@`$'
+
+/**
+ * Seconds between checks of the domain while it applies a new password
+ */
+const ROTATION_POLL_SECONDS = 15
+
+/**
+ * Secrets Manager rotation steps for the master user secret. The new password is
+ * applied through the domain configuration API, which the domain rolls out on its own;
+ * testSecret waits for the change to finish and for the password to sign in, so the
+ * secret never points at a password the domain does not accept yet.
+ */
+const ROTATION_HANDLER = `
+const https = require('https')
+const { SecretsManager } = require('@aws-sdk/client-secrets-manager')
+const { OpenSearch } = require('@aws-sdk/client-opensearch')
+const secrets = new SecretsManager()
+const domains = new OpenSearch()
+const pollMillis = Number(process.env.POLL_SECONDS) * 1000
+
+const read = async (SecretId, VersionStage, VersionId) =>
+  JSON.parse((await secrets.getSecretValue({ SecretId, VersionStage, VersionId })).SecretString)
+
+const signInStatus = (username, password) => new Promise((resolve, reject) => {
+  const req = https.request({
+    method: 'GET',
+    hostname: process.env.DOMAIN_ENDPOINT,
+    path: '/_plugins/_security/authinfo',
+    headers: { authorization: 'Basic ' + Buffer.from(username + ':' + password).toString('base64') }
+  }, res => {
+    res.resume()
+    res.on('end', () => resolve(res.statusCode))
+  })
+  req.on('error', reject)
+  req.end()
+})
+
+exports.handler = async ({ SecretId, ClientRequestToken: token, Step: step }, context) => {
+  if (step === 'createSecret') {
+    try {
+      await read(SecretId, 'AWSPENDING', token)
+      return
+    } catch (error) {
+      if (error.name !== 'ResourceNotFoundException') throw error
+    }
+    const { RandomPassword } = await secrets.getRandomPassword({
+      PasswordLength: 32,
+      ExcludeCharacters: process.env.EXCLUDE_CHARACTERS,
+      RequireEachIncludedType: true
+    })
+    await secrets.putSecretValue({
+      SecretId,
+      ClientRequestToken: token,
+      SecretString: JSON.stringify({ ...(await read(SecretId, 'AWSCURRENT')), password: RandomPassword }),
+      VersionStages: ['AWSPENDING']
+    })
+  } else if (step === 'setSecret') {
+    const { username, password } = await read(SecretId, 'AWSPENDING', token)
+    await domains.updateDomainConfig({
+      DomainName: process.env.DOMAIN_NAME,
+      AdvancedSecurityOptions: { MasterUserOptions: { MasterUserName: username, MasterUserPassword: password } }
+    })
+  } else if (step === 'testSecret') {
+    const { username, password } = await read(SecretId, 'AWSPENDING', token)
+    for (;;) {
+      const { DomainStatus } = await domains.describeDomain({ DomainName: process.env.DOMAIN_NAME })
+      const status = DomainStatus.Processing ? undefined : await signInStatus(username, password)
+      if (status === 200) return
+      if (context.getRemainingTimeInMillis() < 2 * pollMillis) {
+        throw new Error(status === undefined
+          ? 'the domain is still applying the new password'
+          : 'the new password does not sign in yet (HTTP ' + status + ')')
+      }
+      await new Promise(resolve => setTimeout(resolve, pollMillis))
+    }
+  } else if (step === 'finishSecret') {
+    const { VersionIdsToStages: stages } = await secrets.describeSecret({ SecretId })
+    const current = Object.keys(stages).find(id => stages[id].includes('AWSCURRENT'))
+    if (current !== token) {
+      await secrets.updateSecretVersionStage({
+        SecretId, VersionStage: 'AWSCURRENT', MoveToVersionId: token, RemoveFromVersionId: current
+      })
+    }
+  }
+}
+`
+
+export interface OpenSearchMasterUserProps {
+  /** Master user settings (optional, defaults to DEFAULT_OPENSEARCH_MASTER_USER) */
+  config?: OpenSearchMasterUserConfig
+  /** Name of the master role created for the iam-role type when no roleArn is configured */
+  roleName: string
+}
+
+/**
+ * Fine-grained access control master user of the OpenSearch domain: an internal user
+ * with its password in Secrets Manager, or an IAM role
+ */
+export class OpenSearchMasterUser extends Construct {
+  /** Secret holding `username` and `password` (secret type) */
+  public readonly secret?: secretsmanager.Secret
+  /** ARN of the master role (iam-role type) */
+  public readonly roleArn?: string
+  /** Fine-grained access control settings for the domain */
+  public readonly fineGrainedAccessControl: opensearch.AdvancedSecurityOptions
+
+  private readonly config: OpenSearchMasterUserConfig
+
+  constructor (scope: Construct, id: string, props: OpenSearchMasterUserProps) {
+    super(scope, id)
+
+    this.config = props.config ?? DEFAULT_OPENSEARCH_MASTER_USER
+    const stack = cdk.Stack.of(this)
+
+    if (this.config.type === 'iam-role') {
+      this.roleArn = this.config.roleArn?.replace('${AWS_ACCOUNT_ID}', stack.account) ??
+        new iam.Role(this, 'Role', {
+          roleName: props.roleName,
+          assumedBy: new iam.AccountRootPrincipal(),
+          description: 'OpenSearch fine-grained access control master user'
+        }).roleArn
+      this.fineGrainedAccessControl = { masterUserArn: this.roleArn }
+      return
+    }
+
+    const userName = this.config.userName ?? DEFAULT_OPENSEARCH_MASTER_USER.userName!
+    this.secret = new secretsmanager.Secret(this, 'Secret', {
+      description: `OpenSearch master user of the ${stack.stackName} domain`,
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({ username: userName }),
+        generateStringKey: 'password',
+        passwordLength: 32,
+        excludeCharacters: EXCLUDED_PASSWORD_CHARACTERS,
+        requireEachIncludedType: true
+      }
+    })
+    this.fineGrainedAccessControl = {
+      masterUserName: userName,
+      masterUserPassword: this.secret.secretValueFromJson('password')
+    }
+  }
+
+  /**
+   * Rotate the password on the configured schedule, if any. The rotation function runs in
+   * the given subnets to sign in to the domain; returns its security group, to be admitted
+   * by the domain, or undefined without rotation.
+   */
+  addRotation (domain: opensearch.Domain, vpc: ec2.IVpc, subnets: ec2.ISubnet[]): ec2.SecurityGroup | undefined {
+    if (!this.secret || this.config.rotationDays === undefined) {
+      return undefined
+    }
+    const securityGroup = new ec2.SecurityGroup(this, 'RotationSecurityGroup', {
+      vpc,
+      description: 'Security group for the OpenSearch master user rotation function'
+    })
+    const handler = new lambda.Function(this, 'RotationHandler', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline(ROTATION_HANDLER),
+      // testSecret waits for the domain to apply the new password
+      timeout: cdk.Duration.minutes(15),
+      vpc,
+      vpcSubnets: { subnets },
+      securityGroups: [securityGroup],
+      environment: {
+        DOMAIN_NAME: domain.domainName,
+        DOMAIN_ENDPOINT: domain.domainEndpoint,
+        EXCLUDE_CHARACTERS: EXCLUDED_PASSWORD_CHARACTERS,
+        POLL_SECONDS: String(ROTATION_POLL_SECONDS)
+      }
+    })
+    // The rotation schedule grants access to the secret; the handler also updates the domain
+    handler.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['es:UpdateDomainConfig', 'es:DescribeDomain'],
+      resources: [domain.domainArn]
+    }))
+    this.secret.addRotationSchedule('Rotation', {
+      rotationLambda: handler,
+      automaticallyAfter: cdk.Duration.days(this.config.rotationDays)
+    })
+    return securityGroup
+  }
+}
@@ -0,0 +1,67 @@
+import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as opensearch from 'aws-cdk-lib/aws-opensearchservice'
+import { DEFAULT_OPENSEARCH_TOPOLOGY, type StackConfig } from './stack-config'
+
+/**
+ * OpenSearch topology with every default filled in
+ */
+export type OpenSearchTopology = typeof DEFAULT_OPENSEARCH_TOPOLOGY
+
+/**
+ * Instance types offered for UltraWarm nodes
+ */
+export const ULTRAWARM_INSTANCE_TYPES = ['ultrawarm1.medium.search', 'ultrawarm1.large.search']
+
+/**
+ * Master node counts OpenSearch Service accepts for dedicated masters
+ */
+export const DEDICATED_MASTER_COUNTS = [3, 5]
+
+/**
+ * Whether a search instance type is a burstable T2/T3 type, which supports neither
+ * multi-AZ with standby nor UltraWarm
+ */
+export function isBurstableSearchInstanceType (instanceType: string): boolean {
+  return /^t[23]\./.test(instanceType)
+}
+
+/**
+ * Topology of the domain for a configuration, with defaults for missing keys
+ */
+export function resolveOpenSearchTopology (config: StackConfig): OpenSearchTopology {
+  const topology = config.openSearch?.topology ?? {}
+  return {
+    ...DEFAULT_OPENSEARCH_TOPOLOGY,
+    ...topology,
+    ebs: { ...DEFAULT_OPENSEARCH_TOPOLOGY.ebs, ...topology.ebs }
+  }
+}
+
+/**
+ * Capacity, zone awareness and storage properties of the domain
+ */
+export function openSearchTopologyProps (
+  topology: OpenSearchTopology
+): Pick<opensearch.DomainProps, 'capacity' | 'zoneAwareness' | 'ebs' | 'coldStorageEnabled'> {
+  return {
+    capacity: {
+      dataNodes: topology.dataNodes,
+      dataNodeInstanceType: topology.dataNodeInstanceType,
+      masterNodes: topology.masterNodes,
+      masterNodeInstanceType: topology.masterNodes > 0 ? topology.masterNodeInstanceType : undefined,
+      warmNodes: topology.warmNodes,
+      warmInstanceType: topology.warmNodes > 0 ? topology.warmInstanceType : undefined,
+      multiAzWithStandbyEnabled: topology.multiAzWithStandby
+    },
+    zoneAwareness: topology.availabilityZones > 1
+      ? { enabled: true, availabilityZoneCount: topology.availabilityZones }
+      : { enabled: false },
+    ebs: {
+      volumeSize: topology.ebs.volumeSize,
+      volumeType: ec2.EbsDeviceVolumeType.GP3,
+      iops: topology.ebs.iops,
+      throughput: topology.ebs.throughput
+    },
+    coldStorageEnabled: topology.coldStorage
+  }
+}
@@ -0,0 +1,159 @@
+import * as cdk from 'aws-cdk-lib'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as s3 from 'aws-cdk-lib/aws-s3'
+import { Construct } from 'constructs'
+import { DataPrepperPipeline } from './data-prepper-pipeline'
+import { LOGS_INDEX_PREFIX } from './opensearch-index-lifecycle'
+import {
+  DEFAULT_PIPELINE_ARCHIVE_CONFIG,
+  PipelineArchiveConfig,
+  PipelinePlugin,
+  PipelineReplayConfig
+} from './stack-config'
+
+/**
+ * Key prefix of the events OpenSearch sinks failed to write, followed by the sub-pipeline name
+ */
+export const DLQ_PREFIX = 'dlq'
+
+/**
+ * Archive key prefixes of the sub-pipelines whose events are archived
+ */
+export const ARCHIVED_SUB_PIPELINES: Record<string, string> = {
+  'log-pipeline': 'logs',
+  'span-pipeline': 'traces'
+}
+
+/**
+ * Sub-pipeline of the replay pipeline
+ */
+export const REPLAY_SUB_PIPELINE = 'logs-replay-pipeline'
+
+const PIPELINE_AWS = { sts_role_arn: '${INGESTION_ROLE_ARN}', region: '${AWS_REGION}' }
+
+/**
+ * S3 sink writing gzipped NDJSON objects under date-partitioned keys
+ */
+export function archiveSink (prefix: string): PipelinePlugin {
+  return {
+    s3: {
+      aws: PIPELINE_AWS,
+      bucket: '${ARCHIVE_BUCKET}',
+      object_key: { path_prefix: `${prefix}/%{yyyy}/%{MM}/%{dd}/` },
+      threshold: { event_collect_timeout: '300s', maximum_size: '50mb' },
+      codec: { ndjson: {} },
+      compression: 'gzip'
+    }
+  }
+}
+
+/**
+ * Pipeline scanning the archived logs once and indexing them into the log indices again.
+ * Archived events have been processed already, so they are written as they are.
+ */
+export function logsReplayPipeline (replay: PipelineReplayConfig): DataPrepperPipeline {
+  return new DataPrepperPipeline({
+    [REPLAY_SUB_PIPELINE]: {
+      source: {
+        s3: {
+          codec: { ndjson: {} },
+          compression: 'gzip',
+          scan: {
+            ...(replay.startTime ? { start_time: replay.startTime } : {}),
+            ...(replay.endTime ? { end_time: replay.endTime } : {}),
+            buckets: [{
+              bucket: {
+                name: '${ARCHIVE_BUCKET}',
+                filter: { include_prefix: [`${ARCHIVED_SUB_PIPELINES['log-pipeline']}/`] }
+              }
+            }]
+          },
+          aws: PIPELINE_AWS
+        }
+      },
+      sink: [{
+        opensearch: {
+          hosts: ['${OPENSEARCH_ENDPOINT}'],
+          index: `${LOGS_INDEX_PREFIX}-\${service_name}-%{yyyy.MM.dd}`,
+          aws: PIPELINE_AWS
+        }
+      }]
+    }
+  }, '2', REPLAY_SUB_PIPELINE)
+}
+
+export interface PipelineArchiveProps {
+  /** Archive settings (optional, defaults to DEFAULT_PIPELINE_ARCHIVE_CONFIG) */
+  config?: PipelineArchiveConfig
+}
+
+/**
+ * Bucket holding the OSIS pipelines' dead-letter queues and, optionally, an archive of
+ * their logs and spans. It is retained when the stack is deleted.
+ */
+export class PipelineArchive extends Construct {
+  public readonly bucket: s3.Bucket
+
+  private readonly config: Required<Omit<PipelineArchiveConfig, 'replay'>>
+
+  constructor (scope: Construct, id: string, props: PipelineArchiveProps = {}) {
+    super(scope, id)
+
+    this.config = { ...DEFAULT_PIPELINE_ARCHIVE_CONFIG, ...props.config }
+    this.bucket = new s3.Bucket(this, 'Bucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          prefix: `${DLQ_PREFIX}/`,
+          expiration: cdk.Duration.days(this.config.dlqRetentionDays)
+        },
+        ...Object.values(ARCHIVED_SUB_PIPELINES).map(prefix => ({
+          prefix: `${prefix}/`,
+          transitions: [{
+            storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL,
+            transitionAfter: cdk.Duration.days(this.config.glacierAfterDays)
+          }],
+          expiration: cdk.Duration.days(this.config.retentionDays)
+        })),
+        { abortIncompleteMultipartUploadAfter: cdk.Duration.days(7) }
+      ],
+      removalPolicy: cdk.RemovalPolicy.RETAIN
+    })
+  }
+
+  /**
+   * Send what the OpenSearch sinks fail to write to the bucket, and add the archive sinks
+   * when events are archived. Rendering then needs `${ARCHIVE_BUCKET}`.
+   */
+  applyTo (pipeline: DataPrepperPipeline): DataPrepperPipeline {
+    pipeline.configureSinks('opensearch', subPipeline => ({
+      dlq: {
+        s3: {
+          bucket: '${ARCHIVE_BUCKET}',
+          key_path_prefix: `${DLQ_PREFIX}/${subPipeline}/%{yyyy}/%{MM}/%{dd}`,
+          ...PIPELINE_AWS
+        }
+      }
+    }))
+    if (this.config.archiveEvents) {
+      for (const [name, prefix] of Object.entries(ARCHIVED_SUB_PIPELINES)) {
+        if (pipeline.subPipelines[name]) {
+          pipeline.addSink(name, archiveSink(prefix))
+        }
+      }
+    }
+    return pipeline
+  }
+
+  /**
+   * Let the pipelines write failed and archived events, and read them for replays
+   */
+  grantPipelineAccess (role: iam.IGrantable, replay: boolean): void {
+    this.bucket.grantPut(role)
+    if (replay) {
+      this.bucket.grantRead(role)
+    }
+  }
+}
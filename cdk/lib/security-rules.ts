@@ -0,0 +1,286 @@
+import * as cdk from 'aws-cdk-lib'
+import { IConstruct } from 'constructs'
+
+/**
+ * Rules every stack is checked against at synth time
+ */
+export type SecurityRuleId =
+  | 'OpenSearchAnyPrincipal'
+  | 'WildcardServiceResources'
+  | 'HttpsOpenToWorld'
+  | 'EksPublicEndpointOpen'
+  | 'PlaintextPasswordOutput'
+
+/**
+ * A rule violation exempted on one construct (and everything below it)
+ */
+export interface SecurityRuleSuppression {
+  id: SecurityRuleId
+  /** Why the violation is acceptable; shown in the synth output */
+  reason: string
+}
+
+/**
+ * Node metadata type the suppressions of a construct are recorded under
+ */
+export const SUPPRESSIONS_METADATA = 'eks-observability:security-suppressions'
+
+/**
+ * IAM actions that must be scoped to specific resources rather than `*`
+ */
+export const SCOPED_SERVICE_ACTIONS = ['osis:*', 'servicediscovery:*']
+
+const ANY_IPV4 = '0.0.0.0/0'
+const ANY_IPV6 = '::/0'
+
+/**
+ * A JSON object of a synthesized template, whose values are narrowed where they are read
+ */
+type JsonObject = Record<string, unknown>
+
+interface SecurityRule {
+  id: SecurityRuleId
+  description: string
+  /** Findings for a synthesized resource, or an empty list when it complies */
+  checkResource?: (type: string, properties: JsonObject) => string[]
+  /** Findings for a stack output */
+  checkOutput?: (output: cdk.CfnOutput, value: unknown) => string[]
+}
+
+/**
+ * The rule pack, see "Security checks" in the README
+ */
+export const SECURITY_RULES: SecurityRule[] = [
+  {
+    id: 'OpenSearchAnyPrincipal',
+    description: 'OpenSearch access policies must not allow es: actions to any principal without a condition',
+    checkResource: (type, properties) =>
+      domainAccessStatements(type, properties)
+        .filter(statement =>
+          statement.Effect === 'Allow' &&
+          statement.Condition === undefined &&
+          isAnyPrincipal(statement.Principal)
+        )
+        // es:*, es:ESHttp* and es:ESHttp<Verb> all reach the data plane
+        .flatMap(statement => strings(statement.Action).filter(action => action === '*' || action.toLowerCase().startsWith('es:')))
+        .map(action => `access policy allows ${action} to any principal`)
+  },
+  {
+    id: 'WildcardServiceResources',
+    description: `IAM statements granting ${SCOPED_SERVICE_ACTIONS.join(' or ')} must name their resources`,
+    checkResource: (type, properties) =>
+      iamStatements(type, properties)
+        .filter(statement => statement.Effect === 'Allow' && asList(statement.Resource).includes('*'))
+        .flatMap(statement => strings(statement.Action).filter(action => SCOPED_SERVICE_ACTIONS.includes(action)))
+        .map(action => `${action} is granted on resource '*'`)
+  },
+  {
+    id: 'HttpsOpenToWorld',
+    description: 'Security groups must not allow HTTPS (443) ingress from 0.0.0.0/0 or ::/0',
+    checkResource: (type, properties) => {
+      const rules = type === 'AWS::EC2::SecurityGroup'
+        ? objects(properties.SecurityGroupIngress)
+        : type === 'AWS::EC2::SecurityGroupIngress' ? [properties] : []
+      return rules
+        .filter(rule => (rule.CidrIp === ANY_IPV4 || rule.CidrIpv6 === ANY_IPV6) && coversPort(rule, 443))
+        .map(rule => `ingress on 443 from ${String(rule.CidrIp ?? rule.CidrIpv6)}`)
+    }
+  },
+  {
+    id: 'EksPublicEndpointOpen',
+    description: 'A public EKS API endpoint must be restricted to specific CIDRs',
+    checkResource: (type, properties) => {
+      // The eks.Cluster construct provisions clusters through a custom resource
+      const vpcConfig = type === 'Custom::AWSCDK-EKS-Cluster'
+        ? lowerCaseKeys(asObject(properties.Config)?.ResourcesVpcConfig)
+        : type === 'AWS::EKS::Cluster' ? lowerCaseKeys(properties.ResourcesVpcConfig) : undefined
+      if (vpcConfig === undefined || vpcConfig.endpointpublicaccess === false || vpcConfig.endpointpublicaccess === 'false') {
+        return []
+      }
+      const cidrs = asList(vpcConfig.publicaccesscidrs)
+      return cidrs.length === 0 || cidrs.includes(ANY_IPV4)
+        ? [`public endpoint is reachable from ${ANY_IPV4}`]
+        : []
+    }
+  },
+  {
+    id: 'PlaintextPasswordOutput',
+    description: 'Stack outputs must not contain passwords; output a secret ARN instead',
+    checkOutput: (output, value) => {
+      const text = [output.node.id, output.description, value].join(' ')
+      return typeof value === 'string' && /password/i.test(text)
+        ? ['output holds a literal password']
+        : []
+    }
+  }
+]
+
+/**
+ * Exempt a construct and its children from rules, with a reason for each exemption
+ */
+export function suppressSecurityRules (construct: IConstruct, suppressions: SecurityRuleSuppression[]): void {
+  for (const suppression of suppressions) {
+    if (!SECURITY_RULES.some(rule => rule.id === suppression.id)) {
+      throw new Error(`Unknown security rule '${suppression.id}' suppressed on ${construct.node.path}`)
+    }
+    if (!suppression.reason?.trim()) {
+      throw new Error(`Suppression of ${suppression.id} on ${construct.node.path} needs a reason`)
+    }
+  }
+  construct.node.addMetadata(SUPPRESSIONS_METADATA, suppressions)
+}
+
+/**
+ * Suppressions that apply to a construct, i.e. recorded on it or one of its scopes
+ */
+export function suppressionsOf (construct: IConstruct): SecurityRuleSuppression[] {
+  return construct.node.scopes.flatMap(scope =>
+    scope.node.metadata
+      .filter(entry => entry.type === SUPPRESSIONS_METADATA)
+      .flatMap(entry => entry.data as SecurityRuleSuppression[])
+  )
+}
+
+export interface SecurityRulesAspectProps {
+  /** Report violations as errors, which fails synthesis (default: report warnings) */
+  failOnViolation?: boolean
+}
+
+/**
+ * Checks every resource and output against the rule pack. Violations are reported as
+ * errors or warnings on the offending construct; suppressed ones as info.
+ */
+export class SecurityRulesAspect implements cdk.IAspect {
+  constructor (private readonly props: SecurityRulesAspectProps = {}) {}
+
+  visit (node: IConstruct): void {
+    const findings = this.findingsOf(node)
+    if (findings.length === 0) {
+      return
+    }
+    const suppressions = suppressionsOf(node)
+    const annotations = cdk.Annotations.of(node)
+    for (const { rule, finding } of findings) {
+      const suppression = suppressions.find(candidate => candidate.id === rule.id)
+      if (suppression) {
+        annotations.addInfo(`[${rule.id}] ${finding} (suppressed: ${suppression.reason})`)
+      } else if (this.props.failOnViolation) {
+        annotations.addError(`[${rule.id}] ${rule.description}: ${finding}`)
+      } else {
+        annotations.addWarningV2(`security:${rule.id}`, `[${rule.id}] ${rule.description}: ${finding}`)
+      }
+    }
+  }
+
+  private findingsOf (node: IConstruct): Array<{ rule: SecurityRule, finding: string }> {
+    const check = (rule: SecurityRule): string[] => {
+      if (node instanceof cdk.CfnResource && rule.checkResource) {
+        // cfnProperties is a protected getter, hence the element access
+        const properties = asObject(pascalCaseKeys(cdk.Stack.of(node).resolve(node['cfnProperties'])))
+        return rule.checkResource(node.cfnResourceType, properties ?? {})
+      }
+      if (node instanceof cdk.CfnOutput && rule.checkOutput) {
+        return rule.checkOutput(node, cdk.Stack.of(node).resolve(node.value))
+      }
+      return []
+    }
+    return SECURITY_RULES.flatMap(rule => check(rule).map(finding => ({ rule, finding })))
+  }
+}
+
+function asList (value: unknown): unknown[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+function asObject (value: unknown): JsonObject | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : undefined
+}
+
+/**
+ * The objects of a value that CloudFormation accepts as one item or a list
+ */
+function objects (value: unknown): JsonObject[] {
+  return asList(value).filter((item): item is JsonObject => asObject(item) !== undefined)
+}
+
+function strings (value: unknown): string[] {
+  return asList(value).filter((item): item is string => typeof item === 'string')
+}
+
+/**
+ * Resource properties with the keys of the template. L1 constructs hold their properties
+ * camelCased; CloudFormation names them with an upper-case first letter.
+ */
+function pascalCaseKeys (value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(pascalCaseKeys)
+  }
+  const object = asObject(value)
+  return object
+    ? Object.fromEntries(Object.entries(object).map(([key, item]) => [key.charAt(0).toUpperCase() + key.slice(1), pascalCaseKeys(item)]))
+    : value
+}
+
+function lowerCaseKeys (value: unknown): JsonObject | undefined {
+  const object = asObject(value)
+  return object && Object.fromEntries(Object.entries(object).map(([key, item]) => [key.toLowerCase(), item]))
+}
+
+function isAnyPrincipal (principal: unknown): boolean {
+  return principal === '*' || asList(asObject(principal)?.AWS).includes('*')
+}
+
+function coversPort (rule: JsonObject, port: number): boolean {
+  return String(rule.IpProtocol) === '-1' || (Number(rule.FromPort) <= port && port <= Number(rule.ToPort))
+}
+
+/**
+ * Statements of the IAM policies a resource defines
+ */
+function iamStatements (type: string, properties: JsonObject): JsonObject[] {
+  const statementsOf = (document: unknown) => objects(asObject(document)?.Statement)
+  switch (type) {
+    case 'AWS::IAM::Policy':
+    case 'AWS::IAM::ManagedPolicy':
+      return statementsOf(properties.PolicyDocument)
+    case 'AWS::IAM::Role':
+    case 'AWS::IAM::User':
+    case 'AWS::IAM::Group':
+      return objects(properties.Policies).flatMap(policy => statementsOf(policy.PolicyDocument))
+    default:
+      return []
+  }
+}
+
+/**
+ * Statements of an OpenSearch domain access policy. Domains in a VPC get theirs from
+ * a custom resource whose request is a JSON string with embedded tokens.
+ */
+function domainAccessStatements (type: string, properties: JsonObject): JsonObject[] {
+  if (type === 'AWS::OpenSearchService::Domain') {
+    return objects(asObject(properties.AccessPolicies)?.Statement)
+  }
+  if (type === 'Custom::OpenSearchAccessPolicy') {
+    try {
+      const request = JSON.parse(renderWithoutTokens(properties.Create))
+      return objects(JSON.parse(request.parameters.AccessPolicies).Statement)
+    } catch {
+      return []
+    }
+  }
+  return []
+}
+
+/**
+ * Render a CloudFormation string, replacing intrinsic functions with a placeholder
+ */
+function renderWithoutTokens (value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  const join = asObject(value)?.['Fn::Join']
+  if (Array.isArray(join) && typeof join[0] === 'string') {
+    return asList(join[1]).map(renderWithoutTokens).join(join[0])
+  }
+  return 'TOKEN'
+}
@@ -1,4 +1,8 @@
 import * as cdk from 'aws-cdk-lib'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as YAML from 'yaml'
+import { ConfigValidationError, validateStackConfig } from './config-validator'
 
 /**
  * Configuration interface for all stacks in the multi-stack architecture
@@ -8,18 +12,534 @@ export interface StackConfig {
   environment: string
   /** AWS region for deployment */
   region: string
-  /** VPC CIDR block (optional, defaults to auto-assigned) */
+  /** VPC CIDR block (optional, defaults to 10.0.0.0/16) */
   vpcCidr?: string
-  /** EKS Kubernetes version (optional, defaults to v1.31) */
+  /** VPC availability zone, NAT gateway and subnet layout (optional) */
+  network?: NetworkConfig
+  /** EKS Kubernetes version (optional, defaults to v1.32) */
   eksVersion?: string
-  /** EC2 instance type for EKS nodes (optional, defaults to t3.large) */
+  /** EC2 instance type for EKS nodes (optional, defaults to t3.large; ignored when nodeGroups is set) */
   nodeInstanceType?: string
-  /** Number of EKS nodes (optional, defaults to 3) */
+  /** Number of EKS nodes (optional, defaults to 3; ignored when nodeGroups is set) */
   nodeCount?: number
+  /** Managed node groups (optional, defaults to a single group built from nodeInstanceType and nodeCount) */
+  nodeGroups?: NodeGroupConfig[]
+  /** IAM principals granted access to the EKS cluster (optional, defaults to the account's Admin role) */
+  accessEntries?: AccessEntryConfig[]
+  /** EKS API endpoint access (optional, defaults to public and private, open to 0.0.0.0/0) */
+  clusterEndpoint?: ClusterEndpointConfig
+  /** Karpenter autoscaling (optional, disabled by default) */
+  karpenter?: KarpenterConfig
+  /** VPC Flow Logs (optional, disabled by default) */
+  flowLogs?: FlowLogsConfig
+  /** OpenSearch domain settings (optional) */
+  openSearch?: OpenSearchConfig
+  /** Extra processors for the OSIS pipelines and the optional metrics pipeline (optional) */
+  pipelines?: PipelinesConfig
+  /** Capacity, buffering, log retention and encryption of every OSIS pipeline (optional, see DEFAULT_PIPELINE_SETTINGS) */
+  pipelineSettings?: PipelineSettingsConfig
+  /** S3 bucket for the pipelines' dead-letter queues, event archive and replays (optional) */
+  pipelineArchive?: PipelineArchiveConfig
+  /** Keep the unscoped CloudFormation exports while migrating deployed stacks to SSM references (optional, defaults to false) */
+  legacyExports?: boolean
 }
 
 /**
- * Cross-stack export names for consistent referencing
+ * Where VPC Flow Logs are delivered. `opensearch` delivers to S3 and ingests the
+ * objects into OpenSearch through an OSIS pipeline.
+ */
+export type FlowLogDestination = 'cloudwatch' | 's3' | 'opensearch'
+
+/**
+ * VPC Flow Logs settings
+ */
+export interface FlowLogsConfig {
+  /** Create a flow log for the VPC */
+  enabled: boolean
+  /** Delivery destination (optional, defaults to cloudwatch) */
+  destination?: FlowLogDestination
+  /** Traffic captured (optional, defaults to ALL) */
+  trafficType?: 'ALL' | 'ACCEPT' | 'REJECT'
+  /** Fields of the custom log format, in order (optional, defaults to DEFAULT_FLOW_LOG_FIELDS) */
+  fields?: FlowLogField[]
+  /** Days records are kept in the log group or bucket (optional, defaults to 14) */
+  retentionDays?: number
+  /** Maximum aggregation interval in seconds, 60 or 600 (optional, defaults to 600) */
+  maxAggregationInterval?: 60 | 600
+}
+
+/**
+ * Fields available in a custom flow log format
+ */
+export const FLOW_LOG_FIELDS = [
+  'version',
+  'account-id',
+  'interface-id',
+  'srcaddr',
+  'dstaddr',
+  'srcport',
+  'dstport',
+  'protocol',
+  'packets',
+  'bytes',
+  'start',
+  'end',
+  'action',
+  'log-status',
+  'vpc-id',
+  'subnet-id',
+  'instance-id',
+  'tcp-flags',
+  'type',
+  'pkt-srcaddr',
+  'pkt-dstaddr',
+  'region',
+  'az-id',
+  'sublocation-type',
+  'sublocation-id',
+  'pkt-src-aws-service',
+  'pkt-dst-aws-service',
+  'flow-direction',
+  'traffic-path',
+  'ecs-cluster-arn',
+  'ecs-cluster-name',
+  'ecs-container-instance-arn',
+  'ecs-container-instance-id',
+  'ecs-container-id',
+  'ecs-second-container-id',
+  'ecs-service-name',
+  'ecs-task-definition-arn',
+  'ecs-task-arn',
+  'ecs-task-id',
+  'reject-reason'
+] as const
+
+export type FlowLogField = typeof FLOW_LOG_FIELDS[number]
+
+/**
+ * Default flow log format: the version 2 fields plus the ones that tie a flow to a
+ * subnet, instance and direction
+ */
+export const DEFAULT_FLOW_LOG_FIELDS: FlowLogField[] = [
+  'version',
+  'account-id',
+  'interface-id',
+  'srcaddr',
+  'dstaddr',
+  'srcport',
+  'dstport',
+  'protocol',
+  'packets',
+  'bytes',
+  'start',
+  'end',
+  'action',
+  'log-status',
+  'vpc-id',
+  'subnet-id',
+  'instance-id',
+  'tcp-flags',
+  'pkt-srcaddr',
+  'pkt-dstaddr',
+  'flow-direction',
+  'traffic-path'
+]
+
+/**
+ * OpenSearch domain settings
+ */
+export interface OpenSearchConfig {
+  /** Fine-grained access control master user (optional, defaults to `admin` with a generated password) */
+  masterUser?: OpenSearchMasterUserConfig
+  /** IAM roles or users granted full access in the domain access policy; `${AWS_ACCOUNT_ID}` is replaced with the deployment account (optional, defaults to the account's Admin role) */
+  admins?: string[]
+  /** Data nodes, dedicated masters, availability zones and storage tiers (optional, defaults to one data node in one AZ) */
+  topology?: OpenSearchTopologyConfig
+  /** Retention and shard settings of the log, trace and metric indices; with a secret master user only installed when allowUnsignedDashboardsAccess is set (optional, see DEFAULT_OPENSEARCH_INDEX_LIFECYCLE) */
+  indexLifecycle?: OpenSearchIndexLifecycleConfig
+  /** Admit unsigned requests to the domain, so Dashboards users can sign in with basic auth through the NLB; needs a secret master user (optional, defaults to false) */
+  allowUnsignedDashboardsAccess?: boolean
+}
+
+/**
+ * ISM policies and index templates of the log, trace and metric indices
+ */
+export interface OpenSearchIndexLifecycleConfig {
+  /** Days after which daily log indices move to the warm state (optional, defaults to 7) */
+  warmAfterDays?: number
+  /** Days after which daily log indices are deleted (optional, defaults to 30) */
+  logRetentionDays?: number
+  /** Days after which trace span indices are deleted (optional, defaults to 14) */
+  traceRetentionDays?: number
+  /** Days after which daily metric indices are deleted (optional, defaults to 14) */
+  metricsRetentionDays?: number
+  /** Primary shards of each log, span and metric index (optional, defaults to 1) */
+  shards?: number
+}
+
+/**
+ * Nodes and storage of the OpenSearch domain
+ */
+export interface OpenSearchTopologyConfig {
+  /** Number of data nodes; a multiple of availabilityZones (optional, defaults to 1) */
+  dataNodes?: number
+  /** Data node instance type (optional, defaults to m7g.large.search) */
+  dataNodeInstanceType?: string
+  /** Dedicated master nodes, 3 or 5 (optional, defaults to none) */
+  masterNodes?: number
+  /** Dedicated master instance type (optional, defaults to m7g.large.search) */
+  masterNodeInstanceType?: string
+  /** Private subnets (one per AZ) the data nodes are spread across: 1, 2 or 3 (optional, defaults to 1) */
+  availabilityZones?: number
+  /** Multi-AZ with standby: one AZ's worth of nodes is held in reserve; needs 3 AZs and dedicated masters (optional, defaults to false) */
+  multiAzWithStandby?: boolean
+  /** UltraWarm nodes; needs dedicated masters (optional, defaults to none) */
+  warmNodes?: number
+  /** UltraWarm instance type (optional, defaults to ultrawarm1.medium.search) */
+  warmInstanceType?: string
+  /** Cold storage; needs UltraWarm (optional, defaults to false) */
+  coldStorage?: boolean
+  /** gp3 volume of each data node (optional) */
+  ebs?: OpenSearchEbsConfig
+}
+
+/**
+ * gp3 volume of each OpenSearch data node
+ */
+export interface OpenSearchEbsConfig {
+  /** Size in GiB (optional, defaults to 30) */
+  volumeSize?: number
+  /** Provisioned IOPS, 3000 to 16000 (optional, defaults to the gp3 baseline) */
+  iops?: number
+  /** Provisioned throughput in MiB/s, 125 to 1000 (optional, defaults to the gp3 baseline) */
+  throughput?: number
+}
+
+/**
+ * Fine-grained access control master user. `secret` creates an internal user whose
+ * password is generated into Secrets Manager; `iam-role` makes an IAM role the master user.
+ */
+export interface OpenSearchMasterUserConfig {
+  type: 'secret' | 'iam-role'
+  /** Internal user name (secret only; optional, defaults to admin) */
+  userName?: string
+  /** Rotate the password every this many days (secret only, needs allowUnsignedDashboardsAccess; optional, rotation is off by default) */
+  rotationDays?: number
+  /** Existing role ARN; `${AWS_ACCOUNT_ID}` is replaced with the deployment account (iam-role only; optional, defaults to a role created by the stack) */
+  roleArn?: string
+}
+
+/**
+ * A Data Prepper plugin: its name mapped to its settings, e.g. `{ date: { destination: '@timestamp' } }`
+ */
+export type PipelinePlugin = Record<string, unknown>
+
+/**
+ * Per-environment additions to one OSIS pipeline
+ */
+export interface PipelineConfig {
+  /** Processors appended to sub-pipelines, keyed by sub-pipeline name such as `log-pipeline` (optional) */
+  processors?: Record<string, PipelinePlugin[]>
+}
+
+/**
+ * Kinds of personal data the logs pipeline can mask, each a pattern of the obfuscate processor
+ */
+export const PII_KINDS = ['email', 'ipv4', 'credit-card', 'phone', 'ssn'] as const
+export type PiiKind = typeof PII_KINDS[number]
+
+/**
+ * Fluent Bit built-in multiline parsers for the stack traces of application languages
+ */
+export const MULTILINE_PARSERS = ['java', 'python', 'go', 'ruby'] as const
+export type MultilineParser = typeof MULTILINE_PARSERS[number]
+
+/**
+ * Parsing and enrichment stages of the logs pipeline, run after the Kubernetes fields are set
+ */
+export interface LogParsingConfig {
+  /** Parse lines holding a JSON object, such as the logback JSON of the hello and world services (optional, defaults to false) */
+  json?: boolean
+  /** Grok patterns for plain-text lines, first match wins; a `timestamp` capture becomes @timestamp (optional) */
+  grok?: string[]
+  /** Formats of the grok `timestamp` capture (optional, defaults to DEFAULT_LOG_TIMESTAMP_FORMATS) */
+  timestampFormats?: string[]
+  /** Collect the level into lowercase `level` values trace, debug, info, warn, error and fatal (optional, defaults to false) */
+  normalizeLevel?: boolean
+  /** Put the trace and span IDs of a line into `traceId` and `spanId`, as the span indices name them (optional, defaults to false) */
+  traceContext?: boolean
+  /** Personal data masked in `message` (optional) */
+  maskPii?: PiiKind[]
+  /** Fluent Bit multiline parsers joining stack traces into the line before them; an empty list turns joining off (optional, defaults to DEFAULT_LOG_MULTILINE_PARSERS) */
+  multiline?: MultilineParser[]
+}
+
+/**
+ * Per-environment additions to the logs pipeline
+ */
+export interface LogsPipelineConfig extends PipelineConfig {
+  /** Parsing stages, composed ahead of the environment's processors (optional) */
+  parsing?: LogParsingConfig
+}
+
+/**
+ * Request, error and duration (RED) metrics aggregated from the server spans of each service
+ */
+export interface TraceMetricsConfig {
+  /** Add the aggregate sub-pipelines to the traces pipeline */
+  enabled: boolean
+  /** Aggregation window (optional, defaults to 60s) */
+  window?: string
+  /** Write the metrics to `ss4o_metrics-traces-*` indices (optional, defaults to true) */
+  openSearch?: boolean
+  /** Remote-write the metrics to the AMP workspace (optional, defaults to false) */
+  prometheus?: boolean
+  /** Detect anomalies in each service's latency (optional, defaults to false) */
+  anomalyDetection?: boolean
+}
+
+/**
+ * Per-environment additions to the traces pipeline
+ */
+export interface TracesPipelineConfig extends PipelineConfig {
+  /** Trace-derived RED metrics (optional, disabled by default) */
+  redMetrics?: TraceMetricsConfig
+}
+
+/**
+ * OSIS pipeline receiving OTLP metrics from the OTEL collector, in addition to AMP
+ */
+export interface MetricsPipelineConfig extends PipelineConfig {
+  /** Create the pipeline and let the OTEL collector role ingest into it */
+  enabled: boolean
+}
+
+/**
+ * Per-environment additions to the OSIS pipelines
+ */
+export interface PipelinesConfig {
+  logs?: LogsPipelineConfig
+  traces?: TracesPipelineConfig
+  flowLogs?: PipelineConfig
+  /** Metrics pipeline writing to OpenSearch (optional, disabled by default) */
+  metrics?: MetricsPipelineConfig
+}
+
+/**
+ * Settings shared by the OSIS pipelines
+ */
+export interface PipelineSettingsConfig {
+  /** Minimum OpenSearch Compute Units (OCUs) of each pipeline (optional, defaults to 1) */
+  minUnits?: number
+  /** Maximum OCUs each pipeline scales out to (optional, defaults to 4) */
+  maxUnits?: number
+  /** Buffer events on disk across AZs so they survive pipeline failures; needs minUnits of at least 2 (optional, defaults to false) */
+  persistentBuffer?: boolean
+  /** Days the pipelines' CloudWatch logs are kept (optional, defaults to 1) */
+  logRetentionDays?: number
+  /** Encrypt the pipeline logs and persistent buffers with a KMS key created by the stack (optional, defaults to false) */
+  customerManagedKey?: boolean
+}
+
+/**
+ * Bucket receiving the events OpenSearch sinks fail to write and, optionally, a copy of
+ * every log and span
+ */
+export interface PipelineArchiveConfig {
+  /** Write logs and spans to the bucket next to OpenSearch (optional, defaults to false) */
+  archiveEvents?: boolean
+  /** Days before archived objects move to S3 Glacier Instant Retrieval (optional, defaults to 30) */
+  glacierAfterDays?: number
+  /** Days archived objects are kept (optional, defaults to 365) */
+  retentionDays?: number
+  /** Days failed events are kept (optional, defaults to 30) */
+  dlqRetentionDays?: number
+  /** Pipeline reading archived logs back into OpenSearch (optional) */
+  replay?: PipelineReplayConfig
+}
+
+/**
+ * One-off replay of archived logs. The pipeline scans the bucket once when it is created.
+ */
+export interface PipelineReplayConfig {
+  /** Create the replay pipeline */
+  enabled: boolean
+  /** Replay objects written at or after this time, e.g. 2026-01-01T00:00:00 (optional) */
+  startTime?: string
+  /** Replay objects written before this time (optional) */
+  endTime?: string
+}
+
+/**
+ * Karpenter installation and default NodePool/EC2NodeClass settings
+ */
+export interface KarpenterConfig {
+  /** Install Karpenter; managed node groups remain as the system pool running its controller */
+  enabled: boolean
+  /** Karpenter Helm chart version (optional, defaults to 1.6.3) */
+  version?: string
+  /** Capacity types the default NodePool may launch (optional, defaults to on-demand) */
+  capacityTypes?: ('on-demand' | 'spot')[]
+  /** CPU architectures the default NodePool may launch (optional, defaults to amd64) */
+  architectures?: ('amd64' | 'arm64')[]
+  /** EC2 instance categories, e.g. c, m, r (optional, defaults to c, m, r) */
+  instanceCategories?: string[]
+  /** Total vCPU the default NodePool may provision (optional, defaults to 100) */
+  cpuLimit?: number
+  /** Root volume size in GiB for Karpenter nodes (optional, defaults to 20) */
+  diskSize?: number
+  /** Lifetime after which nodes are replaced, e.g. 720h (optional, defaults to 720h) */
+  expireAfter?: string
+  /** Idle time before underutilized nodes are consolidated, e.g. 1m (optional, defaults to 1m) */
+  consolidateAfter?: string
+}
+
+/**
+ * Pre-built VPC to adopt instead of creating one; looked up by ID and/or tags
+ */
+export interface ExistingVpcConfig {
+  /** VPC ID, e.g. vpc-0123456789abcdef0 */
+  vpcId?: string
+  /** Tags identifying the VPC */
+  tags?: Record<string, string>
+}
+
+/**
+ * VPC layout settings
+ */
+export interface NetworkConfig {
+  /** Use an existing VPC; the layout settings below are then not allowed */
+  existingVpc?: ExistingVpcConfig
+  /** Number of availability zones (optional, defaults to 3) */
+  maxAzs?: number
+  /** Number of NAT gateways; 0 makes the private tier isolated, maxAzs gives one per AZ (optional, defaults to 1) */
+  natGateways?: number
+  /** Prefix length of each public subnet (optional, defaults to 24) */
+  publicSubnetCidrMask?: number
+  /** Prefix length of each private subnet (optional, defaults to 24) */
+  privateSubnetCidrMask?: number
+  /** Prefix length of each isolated data subnet; the tier is only created when set */
+  isolatedSubnetCidrMask?: number
+  /** AWS service endpoints created in the VPC (optional, none by default) */
+  vpcEndpoints?: VpcEndpointService[]
+}
+
+/**
+ * Services that can be reached through VPC endpoints. `s3` is a gateway endpoint,
+ * the others are interface endpoints with private DNS.
+ */
+export const VPC_ENDPOINT_SERVICES = [
+  's3',
+  'ecr.api',
+  'ecr.dkr',
+  'sts',
+  'aps-workspaces',
+  'logs',
+  'osis',
+  'es',
+  'ec2',
+  'eks',
+  'eks-auth',
+  'elasticloadbalancing',
+  'secretsmanager',
+  'lambda'
+] as const
+
+export type VpcEndpointService = typeof VPC_ENDPOINT_SERVICES[number]
+
+/**
+ * Endpoints nodes need to bootstrap and pull images when the VPC has no NAT gateway
+ */
+export const PRIVATE_ONLY_REQUIRED_ENDPOINTS: VpcEndpointService[] = ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2']
+
+/**
+ * AMI types supported for managed node groups, named after `eks.NodegroupAmiType` members
+ */
+export type NodeGroupAmiType =
+  | 'AL2_X86_64'
+  | 'AL2_ARM_64'
+  | 'AL2023_X86_64_STANDARD'
+  | 'AL2023_ARM_64_STANDARD'
+  | 'BOTTLEROCKET_X86_64'
+  | 'BOTTLEROCKET_ARM_64'
+
+/**
+ * Kubernetes taint applied to every node of a node group
+ */
+export interface NodeGroupTaintConfig {
+  key: string
+  value?: string
+  effect: 'NO_SCHEDULE' | 'PREFER_NO_SCHEDULE' | 'NO_EXECUTE'
+}
+
+/**
+ * Managed node group definition
+ */
+export interface NodeGroupConfig {
+  /** Short name, unique within the cluster; the node group is named `<env>-<name>-nodes` */
+  name: string
+  /** EC2 instance types; all must share the CPU architecture of the AMI type */
+  instanceTypes: string[]
+  /** Capacity type (optional, defaults to ON_DEMAND) */
+  capacityType?: 'ON_DEMAND' | 'SPOT'
+  /** AMI type (optional, defaults to AL2023 for the architecture of the instance types) */
+  amiType?: NodeGroupAmiType
+  /** Root volume size in GiB (optional, defaults to 20) */
+  diskSize?: number
+  /** Minimum number of nodes */
+  minSize: number
+  /** Maximum number of nodes */
+  maxSize: number
+  /** Desired number of nodes (optional, defaults to minSize) */
+  desiredSize?: number
+  /** Kubernetes labels applied to the nodes */
+  labels?: Record<string, string>
+  /** Kubernetes taints applied to the nodes */
+  taints?: NodeGroupTaintConfig[]
+}
+
+/**
+ * EKS access policy association for an access entry
+ */
+export interface AccessEntryPolicyConfig {
+  /** EKS access policy name, e.g. AmazonEKSClusterAdminPolicy or AmazonEKSViewPolicy */
+  policy: string
+  /** Whether the policy applies cluster-wide or only to the listed namespaces */
+  scope: 'cluster' | 'namespace'
+  /** Namespaces the policy is limited to (required for namespace scope) */
+  namespaces?: string[]
+}
+
+/**
+ * IAM principal granted access to the EKS cluster through an access entry
+ */
+export interface AccessEntryConfig {
+  /** IAM role or user ARN; `${AWS_ACCOUNT_ID}` is replaced with the deployment account */
+  principal: string
+  /** Access policies associated with the principal */
+  policies: AccessEntryPolicyConfig[]
+}
+
+/**
+ * Where the EKS API endpoint can be reached from. With private access (alone or
+ * together with public) the kubectl handler runs in the private subnets.
+ */
+export type ClusterEndpointAccess = 'public' | 'public-and-private' | 'private'
+
+/**
+ * EKS API endpoint settings
+ */
+export interface ClusterEndpointConfig {
+  /** Endpoint access mode (optional, defaults to public-and-private) */
+  access?: ClusterEndpointAccess
+  /** CIDR blocks allowed to reach the public endpoint (optional, defaults to 0.0.0.0/0; not allowed for private) */
+  publicAccessCidrs?: string[]
+}
+
+/**
+ * Names of the values shared between stacks. Each is published as the SSM parameter
+ * `/eks-observability/<env>/<name>` (see CrossStackReferences) and, with
+ * `legacyExports`, also as a CloudFormation export of the same name.
  */
 export class ExportNames {
   private static formatExportName(stackType: string, resourceType: string, resourceName: string): string {
@@ -31,12 +551,26 @@ export class ExportNames {
   static readonly NETWORK_PRIVATE_SUBNET_IDS = ExportNames.formatExportName('network', 'subnets', 'private-ids')
   static readonly NETWORK_PUBLIC_SUBNET_IDS = ExportNames.formatExportName('network', 'subnets', 'public-ids')
   static readonly NETWORK_VPC_CIDR = ExportNames.formatExportName('network', 'vpc', 'cidr')
+  static readonly NETWORK_ISOLATED_SUBNET_IDS = ExportNames.formatExportName('network', 'subnets', 'isolated-ids')
+  static readonly NETWORK_AVAILABILITY_ZONES = ExportNames.formatExportName('network', 'vpc', 'azs')
+  static readonly NETWORK_VPC_ENDPOINT_SECURITY_GROUP_ID = ExportNames.formatExportName('network', 'vpce', 'sg-id')
+  static readonly NETWORK_PUBLIC_SUBNETS_PREFIX_LIST_ID = ExportNames.formatExportName('network', 'subnets', 'public-prefix-list-id')
+
+  static readonly NETWORK_FLOW_LOGS_BUCKET_NAME = ExportNames.formatExportName('network', 'flow-logs', 'bucket-name')
+  static readonly NETWORK_FLOW_LOGS_QUEUE_URL = ExportNames.formatExportName('network', 'flow-logs', 'queue-url')
+  static readonly NETWORK_FLOW_LOGS_QUEUE_ARN = ExportNames.formatExportName('network', 'flow-logs', 'queue-arn')
+
+  static networkVpcEndpointId(service: string): string {
+    return ExportNames.formatExportName('network', 'vpce', `${service.replace(/\./g, '-')}-id`)
+  }
 
   // Infrastructure Stack Exports
   static readonly INFRA_CLUSTER_NAME = ExportNames.formatExportName('infra', 'eks', 'cluster-name')
   static readonly INFRA_CLUSTER_ARN = ExportNames.formatExportName('infra', 'eks', 'cluster-arn')
   static readonly INFRA_OIDC_PROVIDER_ARN = ExportNames.formatExportName('infra', 'eks', 'oidc-provider-arn')
   static readonly INFRA_OIDC_PROVIDER_ISSUER = ExportNames.formatExportName('infra', 'eks', 'oidc-provider-issuer')
+  static readonly INFRA_CLUSTER_SECURITY_GROUP_ID = ExportNames.formatExportName('infra', 'eks', 'cluster-sg-id')
+  static readonly INFRA_FLUENT_BIT_ROLE_ARN = ExportNames.formatExportName('infra', 'fluent-bit', 'role-arn')
 
   // Observability Stack Exports
   static readonly OBS_PROMETHEUS_WORKSPACE_ID = ExportNames.formatExportName('obs', 'prometheus', 'workspace-id')
@@ -44,6 +578,8 @@ export class ExportNames {
   static readonly OBS_GRAFANA_WORKSPACE_ID = ExportNames.formatExportName('obs', 'grafana', 'workspace-id')
   static readonly OBS_GRAFANA_ENDPOINT = ExportNames.formatExportName('obs', 'grafana', 'endpoint')
   static readonly OBS_OPENSEARCH_ENDPOINT = ExportNames.formatExportName('obs', 'opensearch', 'endpoint')
+  static readonly OBS_OPENSEARCH_MASTER_USER_SECRET_ARN = ExportNames.formatExportName('obs', 'opensearch', 'master-user-secret-arn')
+  static readonly OBS_OPENSEARCH_MASTER_USER_ROLE_ARN = ExportNames.formatExportName('obs', 'opensearch', 'master-user-role-arn')
 }
 
 /**
@@ -51,99 +587,450 @@ export class ExportNames {
  */
 export class CrossStackUtils {
   /**
-   * Create a CfnOutput with consistent export naming
-   */
-  static createExport(scope: cdk.Stack, id: string, value: string, exportName: string, description?: string): cdk.CfnOutput {
-    return new cdk.CfnOutput(scope, id, {
-      value,
-      exportName,
-      description: description || `Export for ${exportName}`
-    })
-  }
-
-  /**
-   * Import a value from another stack using consistent naming
-   */
-  static importValue(exportName: string): string {
-    return cdk.Fn.importValue(exportName)
-  }
-
-  /**
-   * Import a list of values (like subnet IDs) from another stack
+   * Generate stack name with consistent naming convention; the region is included for
+   * stack sets outside the environment's primary region
    */
-  static importListValue(exportName: string): string[] {
-    return cdk.Fn.split(',', cdk.Fn.importValue(exportName))
+  static generateStackName(environment: string, stackType: string, region?: string): string {
+    return region
+      ? `${environment}-${region}-${stackType}-stack`
+      : `${environment}-${stackType}-stack`
   }
 
   /**
-   * Generate stack name with consistent naming convention
+   * Generate EKS cluster name, known before InfrastructureStack is deployed
    */
-  static generateStackName(environment: string, stackType: string): string {
-    return `${environment}-${stackType}-stack`
+  static generateClusterName(environment: string): string {
+    return `${environment}-eks-cluster`
   }
 }
 
+
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG: Partial<StackConfig> = {
-  vpcCidr: undefined, // Let CDK auto-assign
+  vpcCidr: '10.0.0.0/16',
   eksVersion: '1.32',
   nodeInstanceType: 't3.large',
-  nodeCount: 3
+  nodeCount: 3,
+  accessEntries: [
+    {
+      principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin',
+      policies: [{ policy: 'AmazonEKSClusterAdminPolicy', scope: 'cluster' }]
+    }
+  ]
+}
+
+/**
+ * Defaults for keys missing from `network`. A configured `network` object replaces
+ * the whole key, so NetworkStack merges it over these.
+ */
+export const DEFAULT_NETWORK_CONFIG: Required<Omit<NetworkConfig, 'isolatedSubnetCidrMask' | 'vpcEndpoints' | 'existingVpc'>> = {
+  maxAzs: 3,
+  natGateways: 1,
+  publicSubnetCidrMask: 24,
+  privateSubnetCidrMask: 24
+}
+
+/**
+ * Defaults for keys missing from `clusterEndpoint`
+ */
+export const DEFAULT_CLUSTER_ENDPOINT_CONFIG: Required<ClusterEndpointConfig> = {
+  access: 'public-and-private',
+  publicAccessCidrs: ['0.0.0.0/0']
+}
+
+/**
+ * Master user used when `openSearch.masterUser` is not configured
+ */
+export const DEFAULT_OPENSEARCH_MASTER_USER: OpenSearchMasterUserConfig = {
+  type: 'secret',
+  userName: 'admin'
+}
+
+/**
+ * Principals granted full access to the OpenSearch domain when `openSearch.admins` is not configured
+ */
+export const DEFAULT_OPENSEARCH_ADMINS = ['arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin']
+
+/**
+ * Defaults for keys missing from `openSearch.topology`
+ */
+export const DEFAULT_OPENSEARCH_TOPOLOGY: Required<Omit<OpenSearchTopologyConfig, 'ebs'>> & { ebs: OpenSearchEbsConfig } = {
+  dataNodes: 1,
+  dataNodeInstanceType: 'm7g.large.search',
+  masterNodes: 0,
+  masterNodeInstanceType: 'm7g.large.search',
+  availabilityZones: 1,
+  multiAzWithStandby: false,
+  warmNodes: 0,
+  warmInstanceType: 'ultrawarm1.medium.search',
+  coldStorage: false,
+  ebs: { volumeSize: 30 }
+}
+
+/**
+ * Defaults for keys missing from `openSearch.indexLifecycle`
+ */
+export const DEFAULT_OPENSEARCH_INDEX_LIFECYCLE: Required<OpenSearchIndexLifecycleConfig> = {
+  warmAfterDays: 7,
+  logRetentionDays: 30,
+  traceRetentionDays: 14,
+  metricsRetentionDays: 14,
+  shards: 1
+}
+
+/**
+ * Multiline parsers of Fluent Bit's multiline filter when pipelines.logs.parsing sets none
+ */
+export const DEFAULT_LOG_MULTILINE_PARSERS: MultilineParser[] = ['java']
+
+/**
+ * Formats of the timestamps captured by grok patterns of the logs pipeline: ISO 8601 and
+ * the Spring Boot console format
+ */
+export const DEFAULT_LOG_TIMESTAMP_FORMATS = [
+  "yyyy-MM-dd'T'HH:mm:ss.SSSXXX",
+  "yyyy-MM-dd'T'HH:mm:ss.SSSX",
+  'yyyy-MM-dd HH:mm:ss.SSS'
+]
+
+/**
+ * Defaults for keys missing from a `pipelines.traces.redMetrics` configuration
+ */
+export const DEFAULT_TRACE_METRICS_CONFIG: Required<TraceMetricsConfig> = {
+  enabled: false,
+  window: '60s',
+  openSearch: true,
+  prometheus: false,
+  anomalyDetection: false
+}
+
+/**
+ * Pipeline settings of environments that set none: the cheapest that works
+ */
+export const DEFAULT_PIPELINE_SETTINGS: Required<PipelineSettingsConfig> = {
+  minUnits: 1,
+  maxUnits: 4,
+  persistentBuffer: false,
+  logRetentionDays: 1,
+  customerManagedKey: false
+}
+
+/**
+ * Defaults for keys missing from the `pipelineArchive` configuration
+ */
+export const DEFAULT_PIPELINE_ARCHIVE_CONFIG: Required<Omit<PipelineArchiveConfig, 'replay'>> = {
+  archiveEvents: false,
+  glacierAfterDays: 30,
+  retentionDays: 365,
+  dlqRetentionDays: 30
+}
+
+/**
+ * Defaults for keys missing from an enabled `flowLogs` configuration
+ */
+export const DEFAULT_FLOW_LOGS_CONFIG: Required<FlowLogsConfig> = {
+  enabled: false,
+  destination: 'cloudwatch',
+  trafficType: 'ALL',
+  fields: DEFAULT_FLOW_LOG_FIELDS,
+  retentionDays: 14,
+  maxAggregationInterval: 600
+}
+
+/**
+ * Configuration keys that can be set from environment files, CDK context and environment variables
+ */
+export type ConfigurableKey = Exclude<keyof StackConfig, 'environment' | 'region'>
+
+/**
+ * Value kinds used to coerce context and environment variable strings
+ */
+type ConfigValueKind = 'string' | 'number' | 'boolean' | 'json'
+
+/**
+ * Value kind of every configurable key. Context and environment variable values
+ * arrive as strings and are converted according to this table.
+ */
+const CONFIG_KEYS: Record<ConfigurableKey, ConfigValueKind> = {
+  vpcCidr: 'string',
+  network: 'json',
+  eksVersion: 'string',
+  nodeInstanceType: 'string',
+  nodeCount: 'number',
+  nodeGroups: 'json',
+  accessEntries: 'json',
+  clusterEndpoint: 'json',
+  karpenter: 'json',
+  flowLogs: 'json',
+  openSearch: 'json',
+  pipelines: 'json',
+  pipelineSettings: 'json',
+  pipelineArchive: 'json',
+  legacyExports: 'boolean'
+}
+
+/**
+ * Set a configuration key. Values read from files, context and environment variables only
+ * have their kind checked here; validateStackConfig checks their shape.
+ */
+function assign<K extends ConfigurableKey> (target: Partial<StackConfig>, key: K, value: StackConfig[K]): void {
+  target[key] = value
+}
+
+/**
+ * Prefix for environment variables overriding configuration keys, e.g. EKS_OBS_NODE_COUNT
+ */
+export const CONFIG_ENV_PREFIX = 'EKS_OBS_'
+
+/**
+ * Configuration layer an effective value was taken from
+ */
+export type ConfigSource = 'argument' | 'default' | 'file' | 'context' | 'env' | 'override'
+
+/**
+ * Origin of an effective configuration value
+ */
+export interface ConfigValueOrigin {
+  /** Layer that supplied the value */
+  source: ConfigSource
+  /** File path, context key or environment variable name the value was read from */
+  location?: string
+}
+
+/**
+ * Options controlling where layered configuration is read from
+ */
+export interface ConfigLoadOptions {
+  /** Directory holding <env>.yaml|yml|json files (defaults to cdk/config/environments) */
+  configDir?: string
+  /** CDK context lookup, typically `app.node.tryGetContext` */
+  context?: (key: string) => unknown
+  /** Environment variables (defaults to process.env) */
+  env?: NodeJS.ProcessEnv
+  /** Programmatic overrides applied last */
+  overrides?: Partial<StackConfig>
+}
+
+/**
+ * Effective configuration together with the origin of each value
+ */
+export interface LoadedConfig {
+  config: StackConfig
+  sources: Partial<Record<keyof StackConfig, ConfigValueOrigin>>
+}
+
+/**
+ * Error raised when a configuration layer cannot be read or contains an invalid key
+ */
+export class ConfigError extends Error {
+  constructor (
+    message: string,
+    public readonly file?: string,
+    public readonly key?: string
+  ) {
+    super(message)
+    this.name = 'ConfigError'
+  }
 }
 
 /**
  * Environment-specific configuration loader
+ *
+ * Configuration is layered, later layers winning per top-level key:
+ * defaults → config/environments/<env>.yaml|yml|json → CDK context → EKS_OBS_* environment variables → overrides
  */
 export class ConfigLoader {
+  static readonly DEFAULT_CONFIG_DIR = path.resolve(__dirname, '../config/environments')
+  private static readonly FILE_EXTENSIONS = ['.yaml', '.yml', '.json']
+
   /**
    * Load configuration for the specified environment
    */
-  static loadConfig(environment: string, region: string, overrides?: Partial<StackConfig>): StackConfig {
-    const baseConfig: StackConfig = {
-      environment,
-      region,
-      ...DEFAULT_CONFIG,
-      ...overrides
-    }
-
-    // Environment-specific overrides
-    switch (environment) {
-      case 'prod':
-        return {
-          ...baseConfig,
-          nodeInstanceType: 't3.xlarge',
-          nodeCount: 5
+  static loadConfig(environment: string, region: string, options?: ConfigLoadOptions): StackConfig {
+    return ConfigLoader.loadConfigWithSources(environment, region, options).config
+  }
+
+  /**
+   * Load configuration for the specified environment and report where each value came from
+   */
+  static loadConfigWithSources(environment: string, region: string, options: ConfigLoadOptions = {}): LoadedConfig {
+    const config: StackConfig = { environment, region }
+    const sources: LoadedConfig['sources'] = {
+      environment: { source: 'argument' },
+      region: { source: 'argument' }
+    }
+    const apply = (values: Partial<StackConfig>, origin: (key: ConfigurableKey) => ConfigValueOrigin): void => {
+      for (const key of Object.keys(values) as ConfigurableKey[]) {
+        const value = values[key]
+        if (value === undefined) {
+          continue
         }
-      case 'staging':
-        return {
-          ...baseConfig,
-          nodeInstanceType: 't3.large',
-          nodeCount: 3
+        assign(config, key, value)
+        sources[key] = origin(key)
+      }
+    }
+
+    apply(DEFAULT_CONFIG, () => ({ source: 'default' }))
+
+    const file = ConfigLoader.findEnvironmentFile(environment, options.configDir ?? ConfigLoader.DEFAULT_CONFIG_DIR)
+    apply(ConfigLoader.readEnvironmentFile(file), () => ({ source: 'file', location: file }))
+
+    if (options.context) {
+      apply(ConfigLoader.readContext(options.context), key => ({ source: 'context', location: key }))
+    }
+
+    apply(ConfigLoader.readEnv(options.env ?? process.env), key => ({
+      source: 'env',
+      location: ConfigLoader.envVarName(key)
+    }))
+
+    if (options.overrides) {
+      const { environment: _environment, region: _region, ...overrides } = options.overrides
+      apply(overrides, () => ({ source: 'override' }))
+    }
+
+    return { config, sources }
+  }
+
+  /**
+   * Render the origin of each effective value, one `key = value (source)` line per key
+   */
+  static describeSources(loaded: LoadedConfig): string[] {
+    return (Object.keys(loaded.sources) as (keyof StackConfig)[]).map(key => {
+      const origin = loaded.sources[key]!
+      const location = origin.location ? `: ${origin.location}` : ''
+      return `${key} = ${JSON.stringify(loaded.config[key])} (${origin.source}${location})`
+    })
+  }
+
+  /**
+   * Name of the environment variable overriding a configuration key
+   */
+  static envVarName(key: ConfigurableKey): string {
+    return CONFIG_ENV_PREFIX + key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()
+  }
+
+  private static findEnvironmentFile(environment: string, configDir: string): string {
+    const candidates = ConfigLoader.FILE_EXTENSIONS.map(ext => path.join(configDir, `${environment}${ext}`))
+    const found = candidates.filter(candidate => fs.existsSync(candidate))
+    if (found.length === 0) {
+      throw new ConfigError(
+        `No configuration file for environment '${environment}' (looked for ${candidates.join(', ')})`
+      )
+    }
+    if (found.length > 1) {
+      throw new ConfigError(
+        `Ambiguous configuration for environment '${environment}': ${found.join(', ')}`,
+        found[0]
+      )
+    }
+    return found[0]
+  }
+
+  private static readEnvironmentFile(file: string): Partial<StackConfig> {
+    let parsed: unknown
+    try {
+      const content = fs.readFileSync(file, 'utf8')
+      parsed = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content)
+    } catch (error) {
+      throw new ConfigError(`Failed to parse ${file}: ${(error as Error).message}`, file)
+    }
+
+    if (parsed === null || parsed === undefined) {
+      return {}
+    }
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ConfigError(`${file}: expected a mapping of configuration keys`, file)
+    }
+
+    const values: Partial<StackConfig> = {}
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key)) {
+        throw new ConfigError(`${file}: unknown configuration key '${key}'`, file, key)
+      }
+      const configKey = key as ConfigurableKey
+      const kind = CONFIG_KEYS[configKey]
+      if (kind !== 'json' && value !== null && typeof value !== kind) {
+        throw new ConfigError(`${file}: '${key}' must be a ${kind}, got ${JSON.stringify(value)}`, file, key)
+      }
+      if (value !== null) {
+        assign(values, configKey, value)
+      }
+    }
+    return values
+  }
+
+  private static readContext(context: (key: string) => unknown): Partial<StackConfig> {
+    const values: Partial<StackConfig> = {}
+    for (const key of Object.keys(CONFIG_KEYS) as ConfigurableKey[]) {
+      const value = context(key)
+      if (value !== undefined) {
+        assign(values, key, ConfigLoader.coerce(key, value, `context key '${key}'`))
+      }
+    }
+    return values
+  }
+
+  private static readEnv(env: NodeJS.ProcessEnv): Partial<StackConfig> {
+    const values: Partial<StackConfig> = {}
+    for (const key of Object.keys(CONFIG_KEYS) as ConfigurableKey[]) {
+      const name = ConfigLoader.envVarName(key)
+      const value = env[name]
+      if (value !== undefined && value !== '') {
+        assign(values, key, ConfigLoader.coerce(key, value, `environment variable ${name}`))
+      }
+    }
+    return values
+  }
+
+  /**
+   * Convert a context or environment variable value to the kind declared for the key.
+   * CLI context (`-c key=value`) and environment variables are always strings.
+   */
+  private static coerce<K extends ConfigurableKey>(key: K, value: unknown, origin: string): StackConfig[K] {
+    return ConfigLoader.coerceToKind(CONFIG_KEYS[key], key, value, origin) as StackConfig[K]
+  }
+
+  private static coerceToKind(kind: ConfigValueKind, key: ConfigurableKey, value: unknown, origin: string): unknown {
+    if (typeof value !== 'string') {
+      if (kind !== 'json' && typeof value !== kind) {
+        throw new ConfigError(`${origin}: '${key}' must be a ${kind}, got ${JSON.stringify(value)}`, undefined, key)
+      }
+      return value
+    }
+    switch (kind) {
+      case 'number': {
+        const parsed = Number(value)
+        if (value.trim() === '' || Number.isNaN(parsed)) {
+          throw new ConfigError(`${origin}: '${key}' must be a number, got '${value}'`, undefined, key)
         }
-      case 'dev':
-      default:
-        return {
-          ...baseConfig,
-          nodeInstanceType: 't3.medium',
-          nodeCount: 2
+        return parsed
+      }
+      case 'boolean':
+        if (value !== 'true' && value !== 'false') {
+          throw new ConfigError(`${origin}: '${key}' must be true or false, got '${value}'`, undefined, key)
+        }
+        return value === 'true'
+      case 'json':
+        try {
+          return JSON.parse(value)
+        } catch (error) {
+          throw new ConfigError(`${origin}: '${key}' must be valid JSON: ${(error as Error).message}`, undefined, key)
         }
+      default:
+        return value
     }
   }
 
   /**
-   * Validate configuration before use
+   * Validate configuration before use, reporting every problem at once
    */
   static validateConfig(config: StackConfig): void {
-    if (!config.environment) {
-      throw new Error('Environment must be specified')
-    }
-    if (!config.region) {
-      throw new Error('Region must be specified')
-    }
-    if (config.nodeCount && config.nodeCount < 1) {
-      throw new Error('Node count must be at least 1')
+    const issues = validateStackConfig(config)
+    if (issues.length > 0) {
+      throw new ConfigValidationError(config.environment, issues)
     }
   }
-}
\ No newline at end of file
+}
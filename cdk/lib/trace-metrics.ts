@@ -0,0 +1,107 @@
+import { SubPipeline } from './data-prepper-pipeline'
+import { DEFAULT_TRACE_METRICS_CONFIG, PipelinePlugin, TraceMetricsConfig } from './stack-config'
+
+/**
+ * Sub-pipeline of traces-pipeline.yaml receiving the spans from the collector
+ */
+export const TRACE_ENTRY_PIPELINE = 'otel-trace-pipeline'
+
+/**
+ * Prefix of the daily indices holding the trace-derived metrics
+ */
+export const TRACE_METRICS_INDEX_PREFIX = 'ss4o_metrics-traces'
+
+/**
+ * Prefix of the daily indices holding latency anomalies
+ */
+export const TRACE_ANOMALIES_INDEX_PREFIX = 'trace-anomalies'
+
+/**
+ * Spans counted as requests: those a service handled, not the calls it made
+ */
+const SERVER_SPAN = '/kind == "SPAN_KIND_SERVER"'
+
+/**
+ * Upper bounds of the duration histogram buckets, 5ms to 10s in nanoseconds
+ */
+const DURATION_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000].map(millis => millis * 1000000)
+
+function openSearchSink (indexPrefix: string): PipelinePlugin {
+  return {
+    opensearch: {
+      hosts: ['${OPENSEARCH_ENDPOINT}'],
+      index: `${indexPrefix}-%{yyyy.MM.dd}`,
+      aws: { sts_role_arn: '${INGESTION_ROLE_ARN}', region: '${AWS_REGION}' }
+    }
+  }
+}
+
+/**
+ * Sub-pipelines turning the spans of the traces pipeline into per-service RED metrics:
+ * a duration histogram whose count is the request rate, and an error count. With
+ * anomaly detection, a random cut forest scores each service's maximum latency.
+ * The metrics need at least one destination, and rendering needs
+ * `${PROMETHEUS_REMOTE_WRITE_URL}` when they go to AMP.
+ */
+export function traceMetricsSubPipelines (config: TraceMetricsConfig | undefined): Record<string, SubPipeline> {
+  const metrics = { ...DEFAULT_TRACE_METRICS_CONFIG, ...config }
+  if (!metrics.enabled) {
+    return {}
+  }
+
+  const sinks: PipelinePlugin[] = [
+    ...(metrics.openSearch ? [openSearchSink(TRACE_METRICS_INDEX_PREFIX)] : []),
+    ...(metrics.prometheus
+      ? [{
+          prometheus: {
+            url: '${PROMETHEUS_REMOTE_WRITE_URL}',
+            aws: { sts_role_arn: '${INGESTION_ROLE_ARN}', region: '${AWS_REGION}' }
+          }
+        }]
+      : [])
+  ]
+  const fromSpans = { pipeline: { name: TRACE_ENTRY_PIPELINE } }
+  const aggregate = (action: PipelinePlugin, aggregateWhen: string): PipelinePlugin => ({
+    aggregate: {
+      identification_keys: ['serviceName'],
+      action,
+      group_duration: metrics.window,
+      aggregate_when: aggregateWhen
+    }
+  })
+
+  const subPipelines: Record<string, SubPipeline> = {
+    'service-duration-pipeline': {
+      source: fromSpans,
+      processor: [aggregate({
+        histogram: {
+          key: 'durationInNanos',
+          metric_name: 'service_request_duration',
+          units: 'nanoseconds',
+          record_minmax: true,
+          buckets: DURATION_BUCKETS
+        }
+      }, SERVER_SPAN)],
+      sink: sinks
+    },
+    'service-errors-pipeline': {
+      source: fromSpans,
+      processor: [aggregate({ count: { metric_name: 'service_request_errors' } }, `${SERVER_SPAN} and /status/code == 2`)],
+      sink: sinks
+    }
+  }
+  if (metrics.anomalyDetection) {
+    subPipelines['service-latency-anomaly-pipeline'] = {
+      source: { pipeline: { name: 'service-duration-pipeline' } },
+      processor: [{
+        anomaly_detector: {
+          identification_keys: ['serviceName'],
+          keys: ['max'],
+          mode: { random_cut_forest: {} }
+        }
+      }],
+      sink: [openSearchSink(TRACE_ANOMALIES_INDEX_PREFIX)]
+    }
+  }
+  return subPipelines
+}
@@ -0,0 +1,828 @@
+import { StackConfig, ConfigLoader } from '../lib/stack-config'
+import { ConfigValidationError, validateStackConfig } from '../lib/config-validator'
+
+const validConfig: StackConfig = {
+  environment: 'dev',
+  region: 'ap-southeast-1',
+  vpcCidr: '10.0.0.0/16',
+  eksVersion: '1.32',
+  nodeInstanceType: 't3.medium',
+  nodeCount: 2
+}
+
+function issuesFor (overrides: Partial<StackConfig> | Record<string, unknown>) {
+  return validateStackConfig({ ...validConfig, ...overrides } as StackConfig)
+}
+
+function keysWithIssues (overrides: Partial<StackConfig> | Record<string, unknown>) {
+  return issuesFor(overrides).map(issue => issue.key)
+}
+
+describe('validateStackConfig', () => {
+  test('accepts a valid configuration', () => {
+    expect(validateStackConfig(validConfig)).toEqual([])
+  })
+
+  test('accepts a configuration with only required fields', () => {
+    expect(validateStackConfig({ environment: 'dev', region: 'eu-west-1' })).toEqual([])
+  })
+
+  test('rejects unknown keys', () => {
+    expect(issuesFor({ nodeSize: 'large' })).toEqual([
+      { key: 'nodeSize', message: 'is not a known configuration key' }
+    ])
+  })
+
+  test('rejects values of the wrong type', () => {
+    expect(keysWithIssues({ nodeCount: '3' as unknown as number })).toEqual(['nodeCount'])
+    expect(keysWithIssues({ eksVersion: 1.32 as unknown as string })).toEqual(['eksVersion'])
+  })
+
+  describe('environment', () => {
+    test('is required', () => {
+      expect(issuesFor({ environment: '' })).toEqual([{ key: 'environment', message: 'is required' }])
+    })
+
+    test.each(['Prod', '1dev', 'dev_1', 'a-very-long-environment-name'])('rejects %s', environment => {
+      expect(keysWithIssues({ environment })).toEqual(['environment'])
+    })
+
+    test.each(['dev', 'eu-prod', 'perf2'])('accepts %s', environment => {
+      expect(keysWithIssues({ environment })).toEqual([])
+    })
+  })
+
+  describe('region', () => {
+    test('is required', () => {
+      expect(issuesFor({ region: undefined })).toEqual([{ key: 'region', message: 'is required' }])
+    })
+
+    test.each(['apsoutheast1', 'ap-southeast', 'AP-SOUTHEAST-1'])('rejects malformed region %s', region => {
+      expect(keysWithIssues({ region })).toEqual(['region'])
+    })
+
+    test('rejects regions without 3 availability zones', () => {
+      expect(issuesFor({ region: 'us-west-1' })[0].message).toMatch(/only 2 availability zones/)
+    })
+
+    test('accepts regions with fewer AZs when maxAzs fits', () => {
+      expect(keysWithIssues({ region: 'us-west-1', network: { maxAzs: 2, natGateways: 1 } })).toEqual([])
+    })
+
+    test.each(['us-east-1', 'us-gov-west-1', 'eu-central-2'])('accepts %s', region => {
+      expect(keysWithIssues({ region })).toEqual([])
+    })
+  })
+
+  describe('vpcCidr', () => {
+    test.each(['10.0.0.0', '10.0.0/16', 'not-a-cidr'])('rejects malformed CIDR %s', vpcCidr => {
+      expect(issuesFor({ vpcCidr })[0].message).toMatch(/not an IPv4 CIDR block/)
+    })
+
+    test('rejects octets above 255', () => {
+      expect(issuesFor({ vpcCidr: '10.256.0.0/16' })[0].message).toMatch(/greater than 255/)
+    })
+
+    test.each(['10.0.0.0/8', '10.0.0.0/30'])('rejects prefix outside /16-/28 for %s', vpcCidr => {
+      expect(issuesFor({ vpcCidr })[0].message).toMatch(/outside the \/16-\/28 range/)
+    })
+
+    test('rejects CIDRs with host bits set', () => {
+      expect(issuesFor({ vpcCidr: '10.0.1.0/16' })[0].message).toMatch(/host bits set/)
+    })
+
+    test('rejects CIDRs too small for the subnet layout', () => {
+      expect(issuesFor({ vpcCidr: '10.0.0.0/24' })[0].message).toMatch(/cannot hold the subnet layout \(6 subnets need 1536 addresses\)/)
+      expect(issuesFor({
+        vpcCidr: '10.0.0.0/21',
+        network: { isolatedSubnetCidrMask: 24 }
+      })[0].message).toMatch(/cannot hold the subnet layout \(9 subnets/)
+    })
+
+    test('accepts smaller CIDRs with smaller subnets', () => {
+      expect(keysWithIssues({
+        vpcCidr: '10.0.0.0/22',
+        network: { maxAzs: 2, publicSubnetCidrMask: 26, privateSubnetCidrMask: 24 }
+      })).toEqual([])
+    })
+
+    test.each(['10.0.0.0/16', '172.16.8.0/21'])('accepts %s', vpcCidr => {
+      expect(keysWithIssues({ vpcCidr })).toEqual([])
+    })
+  })
+
+  describe('network', () => {
+    const privateOnlyEndpoints: NonNullable<StackConfig['network']>['vpcEndpoints'] = ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2', 'secretsmanager', 'lambda']
+
+    test('accepts one NAT per AZ, zero NAT and an isolated tier', () => {
+      expect(keysWithIssues({ network: { maxAzs: 3, natGateways: 3 } })).toEqual([])
+      expect(keysWithIssues({
+        network: { natGateways: 0, isolatedSubnetCidrMask: 26, vpcEndpoints: privateOnlyEndpoints }
+      })).toEqual([])
+    })
+
+    test('requires bootstrap endpoints when there is no NAT gateway', () => {
+      expect(issuesFor({ network: { natGateways: 0, vpcEndpoints: ['s3', 'sts'] } })[0].message)
+        .toBe('natGateways 0 leaves no internet egress; vpcEndpoints must include ecr.api, ecr.dkr, ec2')
+    })
+
+    test('requires the Secrets Manager endpoint for a basic-auth index lifecycle setup when there is no NAT gateway', () => {
+      const vpcEndpoints: NonNullable<StackConfig['network']>['vpcEndpoints'] = ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2', 'lambda']
+      expect(issuesFor({
+        network: { natGateways: 0, vpcEndpoints },
+        openSearch: { allowUnsignedDashboardsAccess: true }
+      }).map(issue => issue.message)).toEqual([
+        'natGateways 0 with a secret OpenSearch master user; vpcEndpoints must include secretsmanager'
+      ])
+      expect(keysWithIssues({ network: { natGateways: 0, vpcEndpoints } })).toEqual([])
+    })
+
+    test('requires the OpenSearch endpoint for the master user rotation when there is no NAT gateway', () => {
+      const vpcEndpoints: NonNullable<StackConfig['network']>['vpcEndpoints'] = privateOnlyEndpoints
+      const openSearch: StackConfig['openSearch'] = { masterUser: { type: 'secret', rotationDays: 30 }, allowUnsignedDashboardsAccess: true }
+      expect(issuesFor({ network: { natGateways: 0, vpcEndpoints }, openSearch }).map(issue => issue.message)).toEqual([
+        'natGateways 0 with master user rotation; vpcEndpoints must include es'
+      ])
+      expect(keysWithIssues({ network: { natGateways: 0, vpcEndpoints: [...vpcEndpoints!, 'es'] }, openSearch })).toEqual([])
+    })
+
+    test('requires the Lambda endpoint for the kubectl handler in the private subnets when there is no NAT gateway', () => {
+      const vpcEndpoints: NonNullable<StackConfig['network']>['vpcEndpoints'] = ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2', 'secretsmanager']
+      expect(issuesFor({ network: { natGateways: 0, vpcEndpoints } }).map(issue => issue.message)).toEqual([
+        'natGateways 0 with public-and-private cluster endpoint access; vpcEndpoints must include lambda for the kubectl handler'
+      ])
+      expect(keysWithIssues({ network: { natGateways: 0, vpcEndpoints }, clusterEndpoint: { access: 'public' } })).toEqual([])
+    })
+
+    test('rejects unknown and duplicate endpoint services', () => {
+      expect(issuesFor({ network: { vpcEndpoints: ['s3', 'dynamodb' as 's3', 's3'] } }).map(issue => issue.message)).toEqual([
+        expect.stringMatching(/unsupported service 'dynamodb'/),
+        "vpcEndpoints lists 's3' more than once"
+      ])
+    })
+
+    test('accepts an existing VPC looked up by ID or tags', () => {
+      expect(keysWithIssues({ network: { existingVpc: { vpcId: 'vpc-0123456789abcdef0' } } })).toEqual([])
+      expect(keysWithIssues({ network: { existingVpc: { tags: { Name: 'landing-zone-vpc' } }, vpcEndpoints: ['s3'] } })).toEqual([])
+    })
+
+    test('rejects existing VPCs without a lookup key or combined with a layout', () => {
+      expect(issuesFor({ network: { existingVpc: {} } })[0].message).toBe('existingVpc needs a vpcId or tags to look the VPC up')
+      expect(issuesFor({ network: { existingVpc: { vpcId: 'vpc-123' } } })[0].message).toMatch(/not a VPC ID/)
+      expect(issuesFor({ network: { existingVpc: { vpcId: 'vpc-0123456789abcdef0' }, natGateways: 3 } })[0].message)
+        .toBe('natGateways cannot be combined with existingVpc')
+    })
+
+    test('rejects AZ counts EKS cannot use', () => {
+      expect(issuesFor({ network: { maxAzs: 1 } })[0].message).toMatch(/maxAzs must be a whole number between 2 and 6/)
+    })
+
+    test('rejects more NAT gateways than AZs', () => {
+      expect(issuesFor({ network: { maxAzs: 2, natGateways: 3 } })[0].message).toBe('natGateways (3) cannot exceed maxAzs (2)')
+    })
+
+    test('rejects invalid subnet masks', () => {
+      const issues = issuesFor({ network: { privateSubnetCidrMask: 30, isolatedSubnetCidrMask: 12 } })
+      expect(issues.filter(issue => issue.key === 'network').map(issue => issue.message)).toEqual([
+        'privateSubnetCidrMask must be a whole number between 16 and 28',
+        'isolatedSubnetCidrMask must be a whole number between 16 and 28'
+      ])
+    })
+  })
+
+  describe('eksVersion', () => {
+    test.each(['v1.32', '1.32.0', '132'])('rejects malformed version %s', eksVersion => {
+      expect(issuesFor({ eksVersion })[0].message).toMatch(/not a Kubernetes minor version/)
+    })
+
+    test('rejects unsupported versions', () => {
+      expect(issuesFor({ eksVersion: '1.29' })[0].message).toMatch(/not supported/)
+    })
+  })
+
+  describe('nodeInstanceType', () => {
+    test.each(['large', 't3', 't3.huge', 'T3.large'])('rejects %s', nodeInstanceType => {
+      expect(keysWithIssues({ nodeInstanceType })).toEqual(['nodeInstanceType'])
+    })
+
+    test.each(['t3.large', 'm7g.2xlarge', 'c6gn.16xlarge', 'm5.metal', 'r7iz.metal-16xl'])('accepts %s', nodeInstanceType => {
+      expect(keysWithIssues({ nodeInstanceType })).toEqual([])
+    })
+  })
+
+  describe('nodeCount', () => {
+    test('rejects fractional counts', () => {
+      expect(issuesFor({ nodeCount: 2.5 })[0].message).toMatch(/whole number/)
+    })
+
+    test.each([0, -1, 449])('rejects out of range count %d', nodeCount => {
+      expect(issuesFor({ nodeCount })[0].message).toMatch(/between 1 and 448/)
+    })
+  })
+
+  describe('nodeGroups', () => {
+    const system = { name: 'system', instanceTypes: ['t3.large'], minSize: 2, maxSize: 4 }
+
+    test('accepts tainted, labelled, Spot and Graviton groups', () => {
+      expect(keysWithIssues({
+        nodeGroups: [
+          system,
+          {
+            name: 'observability',
+            instanceTypes: ['m7g.large'],
+            amiType: 'BOTTLEROCKET_ARM_64',
+            minSize: 1,
+            maxSize: 2,
+            labels: { 'workload-type': 'observability' },
+            taints: [{ key: 'dedicated', value: 'observability', effect: 'NO_SCHEDULE' }]
+          },
+          { name: 'apps', instanceTypes: ['m5.large', 'm6i.large'], capacityType: 'SPOT', minSize: 0, maxSize: 6, desiredSize: 2 }
+        ]
+      })).toEqual([])
+    })
+
+    test('rejects duplicate and malformed names', () => {
+      expect(issuesFor({ nodeGroups: [system, system, { ...system, name: 'System' }] }).map(issue => issue.message)).toEqual([
+        "[1].name 'system' is declared more than once",
+        "[2].name 'System' must start with a lowercase letter and contain only lowercase letters, digits and '-' (max 30 characters)"
+      ])
+    })
+
+    test('rejects missing or invalid instance types', () => {
+      expect(issuesFor({ nodeGroups: [{ ...system, instanceTypes: [] }] })[0].message).toMatch(/at least one instance type/)
+      expect(issuesFor({ nodeGroups: [{ ...system, instanceTypes: ['large'] }] })[0].message).toMatch(/invalid instance type 'large'/)
+    })
+
+    test('rejects AMI types that do not match the instance architecture', () => {
+      expect(issuesFor({ nodeGroups: [{ ...system, amiType: 'AL2023_ARM_64_STANDARD' }] })[0].message)
+        .toMatch(/AL2023_ARM_64_STANDARD does not match x86_64 instance types/)
+      expect(issuesFor({ nodeGroups: [{ ...system, instanceTypes: ['t3.large', 't4g.large'] }] })[0].message)
+        .toMatch(/mixes Graviton/)
+    })
+
+    test('rejects unknown AMI and capacity types', () => {
+      expect(issuesFor({
+        nodeGroups: [{ ...system, amiType: 'UBUNTU' as 'AL2_X86_64', capacityType: 'RESERVED' as 'SPOT' }]
+      }).map(issue => issue.message)).toEqual([
+        "[0].amiType 'UBUNTU' is not supported (supported: AL2_X86_64, AL2_ARM_64, AL2023_X86_64_STANDARD, AL2023_ARM_64_STANDARD, BOTTLEROCKET_X86_64, BOTTLEROCKET_ARM_64)",
+        '[0].capacityType must be one of ON_DEMAND, SPOT'
+      ])
+    })
+
+    test('rejects disk sizes below 20 GiB', () => {
+      expect(issuesFor({ nodeGroups: [{ ...system, diskSize: 8 }] })[0].message).toMatch(/diskSize must be/)
+    })
+
+    test('rejects inconsistent scaling bounds', () => {
+      expect(issuesFor({ nodeGroups: [{ ...system, desiredSize: 5 }] })[0].message).toMatch(/minSize <= desiredSize <= maxSize/)
+      expect(issuesFor({ nodeGroups: [{ ...system, maxSize: 0, minSize: 0 }] })[0].message).toMatch(/maxSize must be between 1 and 450/)
+      expect(issuesFor({ nodeGroups: [{ ...system, minSize: 1.5 }] })[0].message).toMatch(/minSize must be a whole number/)
+    })
+
+    test('rejects invalid labels and taints', () => {
+      expect(issuesFor({
+        nodeGroups: [{
+          ...system,
+          labels: { 'bad key!': 'x' },
+          taints: [{ key: 'dedicated', value: 'has space', effect: 'NoSchedule' as 'NO_SCHEDULE' }]
+        }]
+      }).map(issue => issue.message)).toEqual([
+        "[0].labels has invalid key 'bad key!'",
+        "[0].taints[0].value 'has space' is not a valid taint value",
+        '[0].taints[0].effect must be one of NO_SCHEDULE, PREFER_NO_SCHEDULE, NO_EXECUTE'
+      ])
+    })
+  })
+
+  describe('accessEntries', () => {
+    const admin = {
+      principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin',
+      policies: [{ policy: 'AmazonEKSClusterAdminPolicy', scope: 'cluster' as const }]
+    }
+
+    test('accepts cluster and namespace scoped entries', () => {
+      expect(keysWithIssues({
+        accessEntries: [
+          admin,
+          {
+            principal: 'arn:aws:iam::123456789012:user/developer',
+            policies: [{ policy: 'AmazonEKSEditPolicy', scope: 'namespace', namespaces: ['default', 'apps'] }]
+          }
+        ]
+      })).toEqual([])
+    })
+
+    test('rejects missing principals', () => {
+      expect(issuesFor({ accessEntries: [{ ...admin, principal: '' }] })).toEqual([
+        { key: 'accessEntries', message: '[0].principal is required' }
+      ])
+    })
+
+    test('rejects principals that are not IAM role or user ARNs', () => {
+      expect(issuesFor({ accessEntries: [{ ...admin, principal: 'arn:aws:iam::123456789012:group/Admins' }] })[0].message)
+        .toMatch(/not an IAM role or user ARN/)
+    })
+
+    test('rejects duplicate principals', () => {
+      expect(issuesFor({ accessEntries: [admin, admin] })).toEqual([
+        { key: 'accessEntries', message: "[1].principal 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin' is declared more than once" }
+      ])
+    })
+
+    test('tells apart principals of the same name in other accounts and paths', () => {
+      expect(keysWithIssues({
+        accessEntries: [
+          { ...admin, principal: 'arn:aws:iam::111111111111:role/Admin' },
+          { ...admin, principal: 'arn:aws:iam::222222222222:role/path/Admin' },
+          admin
+        ]
+      })).toEqual([])
+    })
+
+    test('rejects principals whose access entries would share a construct ID', () => {
+      expect(issuesFor({
+        accessEntries: [
+          { ...admin, principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/ops-admin' },
+          { ...admin, principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/opsAdmin' }
+        ]
+      }).map(issue => issue.message)).toEqual([
+        "[1].principal 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/opsAdmin' collides with 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/ops-admin': both become access entry OpsAdminRoleAccess"
+      ])
+    })
+
+    test('rejects entries without policies', () => {
+      expect(issuesFor({ accessEntries: [{ ...admin, policies: [] }] })[0].message).toMatch(/at least one access policy/)
+    })
+
+    test('rejects unknown policy names and scopes', () => {
+      const messages = issuesFor({
+        accessEntries: [{ ...admin, policies: [{ policy: 'ClusterAdmin', scope: 'global' as 'cluster' }] }]
+      }).map(issue => issue.message)
+      expect(messages).toEqual([
+        "[0].policies[0].policy 'ClusterAdmin' is not an EKS access policy name like 'AmazonEKSViewPolicy'",
+        "[0].policies[0].scope must be 'cluster' or 'namespace'"
+      ])
+    })
+
+    test('requires valid namespaces for namespace scope only', () => {
+      expect(issuesFor({
+        accessEntries: [{ ...admin, policies: [{ policy: 'AmazonEKSEditPolicy', scope: 'namespace' }] }]
+      })[0].message).toMatch(/namespaces is required for namespace scope/)
+      expect(issuesFor({
+        accessEntries: [{ ...admin, policies: [{ policy: 'AmazonEKSEditPolicy', scope: 'namespace', namespaces: ['Apps'] }] }]
+      })[0].message).toMatch(/invalid namespace 'Apps'/)
+      expect(issuesFor({
+        accessEntries: [{ ...admin, policies: [{ policy: 'AmazonEKSViewPolicy', scope: 'cluster', namespaces: ['apps'] }] }]
+      })[0].message).toMatch(/only allowed for namespace scope/)
+    })
+  })
+
+  describe('clusterEndpoint', () => {
+    test('accepts an allowlist and private access', () => {
+      expect(keysWithIssues({ clusterEndpoint: { publicAccessCidrs: ['203.0.113.0/24', '198.51.100.7/32'] } })).toEqual([])
+      expect(keysWithIssues({ clusterEndpoint: { access: 'public', publicAccessCidrs: ['0.0.0.0/0'] } })).toEqual([])
+      expect(keysWithIssues({ clusterEndpoint: { access: 'private' } })).toEqual([])
+    })
+
+    test('rejects an allowlist for a public-only endpoint', () => {
+      expect(issuesFor({ clusterEndpoint: { access: 'public', publicAccessCidrs: ['203.0.113.0/24'] } }).map(issue => issue.message))
+        .toEqual(['publicAccessCidrs needs public-and-private access, or the allowlist blocks the kubectl handler that runs outside the VPC'])
+    })
+
+    test('rejects unknown modes and malformed CIDRs', () => {
+      expect(issuesFor({
+        clusterEndpoint: { access: 'internal' as 'private', publicAccessCidrs: ['203.0.113.0', '10.0.0.0/33'] }
+      }).map(issue => issue.message)).toEqual([
+        "access 'internal' must be one of public, public-and-private, private",
+        "publicAccessCidrs contains '203.0.113.0', which is not an IPv4 CIDR block",
+        "publicAccessCidrs contains '10.0.0.0/33', which is not an IPv4 CIDR block"
+      ])
+    })
+
+    test('rejects an allowlist for a private endpoint', () => {
+      expect(issuesFor({ clusterEndpoint: { access: 'private', publicAccessCidrs: ['203.0.113.0/24'] } })[0].message)
+        .toBe('publicAccessCidrs cannot be combined with private access')
+      expect(issuesFor({ clusterEndpoint: { publicAccessCidrs: [] } })[0].message)
+        .toBe('publicAccessCidrs must list at least one CIDR block')
+    })
+
+    test('requires the EKS endpoint for the kubectl handler when there is no NAT gateway', () => {
+      const network = { natGateways: 0, vpcEndpoints: ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2', 'secretsmanager', 'lambda'] } as StackConfig['network']
+      expect(issuesFor({ network, clusterEndpoint: { access: 'private' } }).map(issue => issue.message)).toEqual([
+        'private access runs the kubectl handler in the private subnets; with natGateways 0 network.vpcEndpoints must include eks'
+      ])
+      expect(keysWithIssues({ network, clusterEndpoint: { access: 'public' } })).toEqual([])
+    })
+  })
+
+  describe('karpenter', () => {
+    test('accepts a full configuration', () => {
+      expect(keysWithIssues({
+        karpenter: {
+          enabled: true,
+          version: '1.6.3',
+          capacityTypes: ['spot', 'on-demand'],
+          architectures: ['amd64', 'arm64'],
+          instanceCategories: ['c', 'm'],
+          cpuLimit: 64,
+          diskSize: 50,
+          expireAfter: '168h',
+          consolidateAfter: '30s'
+        }
+      })).toEqual([])
+    })
+
+    test('requires the enabled switch', () => {
+      expect(issuesFor({ karpenter: {} as { enabled: boolean } })[0].message).toBe('enabled must be true or false')
+    })
+
+    test('rejects non-object values', () => {
+      expect(issuesFor({ karpenter: true as unknown as { enabled: boolean } })[0].message).toMatch(/must be an object/)
+    })
+
+    test('rejects invalid NodePool settings', () => {
+      expect(issuesFor({
+        karpenter: {
+          enabled: true,
+          version: 'latest',
+          capacityTypes: ['reserved' as 'spot'],
+          architectures: [],
+          cpuLimit: 0,
+          expireAfter: '30 days'
+        }
+      }).map(issue => issue.message)).toEqual([
+        "version 'latest' is not a chart version like '1.6.3'",
+        "capacityTypes contains 'reserved', expected on-demand or spot",
+        'architectures must list at least one value',
+        'cpuLimit must be a positive whole number of vCPUs',
+        "expireAfter '30 days' is not a duration like '720h' or '30s'"
+      ])
+    })
+  })
+
+  describe('flowLogs', () => {
+    test('accepts each destination', () => {
+      expect(keysWithIssues({ flowLogs: { enabled: true } })).toEqual([])
+      expect(keysWithIssues({ flowLogs: { enabled: true, destination: 's3', retentionDays: 45 } })).toEqual([])
+      expect(keysWithIssues({
+        flowLogs: { enabled: true, destination: 'opensearch', trafficType: 'REJECT', fields: ['srcaddr', 'dstaddr', 'start'] }
+      })).toEqual([])
+    })
+
+    test('rejects unknown destinations and fields', () => {
+      expect(issuesFor({
+        flowLogs: {
+          enabled: true,
+          destination: 'kinesis' as 's3',
+          fields: ['srcaddr', 'src-port' as 'srcport', 'srcaddr'],
+          maxAggregationInterval: 300 as 60
+        }
+      }).map(issue => issue.message)).toEqual([
+        "destination 'kinesis' is not supported (supported: cloudwatch, s3, opensearch)",
+        'maxAggregationInterval must be 60 or 600 seconds',
+        "fields contains unknown flow log field 'src-port'",
+        "fields lists 'srcaddr' more than once"
+      ])
+    })
+
+    test('requires the start field for OpenSearch', () => {
+      expect(issuesFor({ flowLogs: { enabled: true, destination: 'opensearch', fields: ['srcaddr'] } })[0].message)
+        .toMatch(/must include 'start'/)
+    })
+
+    test('only accepts CloudWatch retention periods for the cloudwatch destination', () => {
+      expect(issuesFor({ flowLogs: { enabled: true, retentionDays: 45 } })[0].message)
+        .toMatch(/^retentionDays 45 is not a CloudWatch Logs retention period/)
+    })
+  })
+
+  describe('openSearch', () => {
+    test('accepts secret and IAM role master users', () => {
+      expect(keysWithIssues({
+        openSearch: { masterUser: { type: 'secret', userName: 'os-admin', rotationDays: 30 }, allowUnsignedDashboardsAccess: true }
+      })).toEqual([])
+      expect(keysWithIssues({ openSearch: { masterUser: { type: 'iam-role' } } })).toEqual([])
+      expect(keysWithIssues({
+        openSearch: { masterUser: { type: 'iam-role', roleArn: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/OpenSearchAdmin' } }
+      })).toEqual([])
+    })
+
+    test('rejects unknown master user types', () => {
+      expect(issuesFor({ openSearch: { masterUser: { type: 'saml' as 'secret' } } })[0].message)
+        .toBe('masterUser.type must be one of secret, iam-role')
+    })
+
+    test('rejects invalid secret settings', () => {
+      expect(issuesFor({
+        openSearch: {
+          masterUser: { type: 'secret', userName: '1admin', rotationDays: 0, roleArn: 'arn:aws:iam::123456789012:role/Admin' },
+          allowUnsignedDashboardsAccess: true
+        }
+      }).map(issue => issue.message)).toEqual([
+        "masterUser.userName '1admin' must start with a letter and contain only letters, digits, '_', '.' and '-' (max 64 characters)",
+        'masterUser.rotationDays must be a whole number of days between 1 and 1000',
+        'masterUser.roleArn is only allowed for the iam-role type'
+      ])
+    })
+
+    test('rotates a secret master user only when the rotation can sign in with basic auth', () => {
+      expect(issuesFor({ openSearch: { masterUser: { type: 'secret', rotationDays: 30 } } }).map(issue => issue.message))
+        .toEqual(['masterUser.rotationDays needs allowUnsignedDashboardsAccess'])
+    })
+
+    test('rejects invalid IAM role settings', () => {
+      expect(issuesFor({
+        openSearch: { masterUser: { type: 'iam-role', roleArn: 'arn:aws:iam::123456789012:user/admin', rotationDays: 30 } }
+      }).map(issue => issue.message)).toEqual([
+        "masterUser.roleArn 'arn:aws:iam::123456789012:user/admin' is not an IAM role ARN",
+        'masterUser.rotationDays is only allowed for the secret type'
+      ])
+    })
+
+    test('accepts admin role and user ARNs', () => {
+      expect(keysWithIssues({
+        openSearch: { admins: ['arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin', 'arn:aws:iam::123456789012:user/ops'] }
+      })).toEqual([])
+    })
+
+    test('rejects empty, invalid and duplicate admins', () => {
+      expect(issuesFor({ openSearch: { admins: [] } })[0].message)
+        .toBe('admins must list at least one IAM role or user ARN')
+      expect(issuesFor({
+        openSearch: { admins: ['*', 'arn:aws:iam::123456789012:role/Admin', 'arn:aws:iam::123456789012:role/Admin'] }
+      }).map(issue => issue.message)).toEqual([
+        "admins entry '*' is not an IAM role or user ARN",
+        "admins entry 'arn:aws:iam::123456789012:role/Admin' is listed more than once"
+      ])
+    })
+
+    test('accepts multi-AZ topologies with masters, UltraWarm and cold storage', () => {
+      expect(keysWithIssues({
+        openSearch: {
+          topology: {
+            dataNodes: 6,
+            masterNodes: 3,
+            availabilityZones: 3,
+            multiAzWithStandby: true,
+            warmNodes: 2,
+            coldStorage: true,
+            ebs: { volumeSize: 100, iops: 3000, throughput: 125 }
+          }
+        }
+      })).toEqual([])
+    })
+
+    test('rejects node counts that do not fit the zones and masters', () => {
+      expect(issuesFor({
+        openSearch: { topology: { dataNodes: 3, masterNodes: 2, availabilityZones: 2, masterNodeInstanceType: 'm7g.large' } }
+      }).map(issue => issue.message)).toEqual([
+        "topology.masterNodeInstanceType 'm7g.large' is not an OpenSearch instance type like 'm7g.large.search'",
+        'topology.masterNodes must be 3 or 5',
+        'topology.dataNodes 3 must be a multiple of availabilityZones 2'
+      ])
+    })
+
+    test('rejects availability zones beyond the VPC', () => {
+      expect(issuesFor({ network: { maxAzs: 2 }, openSearch: { topology: { dataNodes: 3, availabilityZones: 3 } } })[0].message)
+        .toBe('topology.availabilityZones 3 exceeds the 2 AZs of the VPC (network.maxAzs)')
+    })
+
+    test('rejects standby, UltraWarm and cold storage without their prerequisites', () => {
+      expect(issuesFor({
+        openSearch: {
+          topology: {
+            dataNodeInstanceType: 't3.medium.search',
+            multiAzWithStandby: true,
+            warmNodes: 2,
+            warmInstanceType: 'r6g.large.search',
+            coldStorage: true
+          }
+        }
+      }).map(issue => issue.message)).toEqual([
+        'topology.multiAzWithStandby needs availabilityZones 3',
+        'topology.multiAzWithStandby needs dedicated masterNodes',
+        'topology.multiAzWithStandby does not support the burstable t3.medium.search instance type',
+        'topology.warmInstanceType must be one of ultrawarm1.medium.search, ultrawarm1.large.search',
+        'topology.warmNodes needs dedicated masterNodes',
+        'topology.warmNodes does not support the burstable t3.medium.search data node instance type'
+      ])
+      expect(issuesFor({ openSearch: { topology: { coldStorage: true } } })[0].message)
+        .toBe('topology.coldStorage needs UltraWarm (warmNodes)')
+    })
+
+    test('rejects gp3 settings out of range', () => {
+      expect(issuesFor({ openSearch: { topology: { ebs: { volumeSize: 5, iops: 20000, throughput: 100 } } } })
+        .map(issue => issue.message)).toEqual([
+        'topology.ebs.volumeSize must be a whole number of GiB, at least 10',
+        'topology.ebs.iops must be between 3000 and 16000',
+        'topology.ebs.throughput must be between 125 and 1000 MiB/s'
+      ])
+    })
+
+    test('accepts an index lifecycle with either master user type', () => {
+      expect(keysWithIssues({ openSearch: { indexLifecycle: { logRetentionDays: 14 } } })).toEqual([])
+      expect(keysWithIssues({
+        openSearch: { masterUser: { type: 'iam-role' }, indexLifecycle: { warmAfterDays: 3, logRetentionDays: 7, traceRetentionDays: 3, metricsRetentionDays: 3, shards: 2 } }
+      })).toEqual([])
+    })
+
+    test('admits unsigned Dashboards access only on purpose and with a secret master user', () => {
+      expect(keysWithIssues({ openSearch: { allowUnsignedDashboardsAccess: true } })).toEqual([])
+      expect(issuesFor({ openSearch: { allowUnsignedDashboardsAccess: 'yes' } })[0].message)
+        .toBe('allowUnsignedDashboardsAccess must be true or false')
+      expect(issuesFor({ openSearch: { masterUser: { type: 'iam-role' }, allowUnsignedDashboardsAccess: true } })[0].message)
+        .toBe('allowUnsignedDashboardsAccess needs masterUser.type secret')
+    })
+
+    test('rejects invalid index lifecycles', () => {
+      expect(issuesFor({
+        openSearch: { indexLifecycle: { warmAfterDays: 30, logRetentionDays: 14, shards: 0 } }
+      }).map(issue => issue.message)).toEqual([
+        'indexLifecycle.shards must be a whole number of at least 1',
+        'indexLifecycle.warmAfterDays 30 must be less than logRetentionDays 14'
+      ])
+    })
+
+    test('requires multiple AZs and dedicated masters in prod', () => {
+      expect(issuesFor({ environment: 'prod', openSearch: { topology: { dataNodes: 2 } } }).map(issue => issue.message)).toEqual([
+        'topology.availabilityZones must be at least 2 in prod',
+        'topology.masterNodes are required in prod'
+      ])
+    })
+  })
+
+  describe('pipelines', () => {
+    test('accepts processors per sub-pipeline', () => {
+      expect(keysWithIssues({
+        pipelines: { logs: { processors: { 'log-pipeline': [{ drop_events: { drop_when: '/namespace == "kube-system"' } }] } } }
+      })).toEqual([])
+    })
+
+    test('rejects unknown pipelines and malformed processors', () => {
+      expect(issuesFor({
+        pipelines: {
+          events: {},
+          logs: { processors: { 'log-pipeline': [{ date: {}, grok: {} }, 'drop_events'] } },
+          traces: { processors: { 'span-pipeline': { date: {} } } }
+        }
+      }).map(issue => issue.message)).toEqual([
+        "'events' is not a pipeline (pipelines: logs, traces, flowLogs, metrics)",
+        'logs.processors.log-pipeline[0] must be a single processor like { date: {...} }',
+        'logs.processors.log-pipeline[1] must be a single processor like { date: {...} }',
+        'traces.processors.span-pipeline must be a list of processors'
+      ])
+    })
+
+    test('checks the trace metrics switches and their destinations', () => {
+      expect(keysWithIssues({
+        pipelines: { traces: { redMetrics: { enabled: true, window: '30s', prometheus: true, anomalyDetection: true } } }
+      })).toEqual([])
+      expect(issuesFor({
+        pipelines: { traces: { redMetrics: { enabled: 'yes', window: '1 minute', anomalyDetection: 1 } } } as any
+      }).map(issue => issue.message)).toEqual([
+        'traces.redMetrics.enabled must be true or false',
+        'traces.redMetrics.anomalyDetection must be true or false',
+        "traces.redMetrics.window '1 minute' is not a duration like '60s' or '5m'"
+      ])
+      expect(issuesFor({
+        pipelines: { traces: { redMetrics: { enabled: true, openSearch: false, anomalyDetection: true } } }
+      }).map(issue => issue.message)).toEqual([
+        'traces.redMetrics.enabled needs openSearch or prometheus as a destination for the metrics'
+      ])
+    })
+
+    test('checks the log parsing stages', () => {
+      expect(keysWithIssues({
+        pipelines: {
+          logs: {
+            parsing: {
+              json: true,
+              grok: ['%{TIMESTAMP_ISO8601:timestamp} %{LOGLEVEL:level} %{GREEDYDATA:message}'],
+              timestampFormats: ["yyyy-MM-dd'T'HH:mm:ss.SSSXXX"],
+              normalizeLevel: true,
+              traceContext: true,
+              maskPii: ['email', 'credit-card'],
+              multiline: ['java', 'python']
+            }
+          }
+        }
+      })).toEqual([])
+      expect(issuesFor({
+        pipelines: { logs: { parsing: { json: 'yes', grok: [], timestampFormats: ['yyyy-MM-dd'], maskPii: ['email', 'iban', 'email'] } } } as any
+      }).map(issue => issue.message)).toEqual([
+        'logs.parsing.json must be true or false',
+        'logs.parsing.grok must be a list of grok patterns',
+        "logs.parsing.maskPii 'iban' is not a kind of personal data (email, ipv4, credit-card, phone, ssn)",
+        "logs.parsing.maskPii 'email' is listed more than once"
+      ])
+      expect(issuesFor({
+        pipelines: { logs: { parsing: { timestampFormats: ['yyyy-MM-dd HH:mm:ss'], maskPii: 'email' } } } as any
+      }).map(issue => issue.message)).toEqual([
+        'logs.parsing.timestampFormats needs grok patterns capturing a timestamp',
+        'logs.parsing.maskPii must be a list of email, ipv4, credit-card, phone, ssn'
+      ])
+      expect(keysWithIssues({ pipelines: { logs: { parsing: { multiline: [] } } } })).toEqual([])
+      expect(issuesFor({
+        pipelines: { logs: { parsing: { multiline: ['java', 'dotnet', 'java'] } } } as any
+      }).map(issue => issue.message)).toEqual([
+        "logs.parsing.multiline 'dotnet' is not a Fluent Bit multiline parser (java, python, go, ruby)",
+        "logs.parsing.multiline 'java' is listed more than once"
+      ])
+    })
+
+    test('requires the metrics pipeline to be switched on or off', () => {
+      expect(keysWithIssues({ pipelines: { metrics: { enabled: true } } })).toEqual([])
+      expect(issuesFor({ pipelines: { metrics: { processors: {} } } as any }).map(issue => issue.message))
+        .toEqual(['metrics.enabled must be true or false'])
+    })
+  })
+
+  describe('pipelineSettings', () => {
+    test('accepts capacity, buffering, retention and encryption settings', () => {
+      expect(keysWithIssues({
+        pipelineSettings: { minUnits: 2, maxUnits: 8, persistentBuffer: true, logRetentionDays: 90, customerManagedKey: true }
+      })).toEqual([])
+    })
+
+    test('rejects capacities outside the OCU range and retention CloudWatch does not offer', () => {
+      expect(issuesFor({
+        pipelineSettings: { minUnits: 0, maxUnits: 200, logRetentionDays: 2, customerManagedKey: 'yes' } as any
+      }).map(issue => issue.message)).toEqual([
+        'minUnits must be a whole number of OCUs from 1 to 96',
+        'maxUnits must be a whole number of OCUs from 1 to 96',
+        'customerManagedKey must be true or false',
+        expect.stringMatching(/^logRetentionDays 2 is not a CloudWatch Logs retention period/)
+      ])
+      expect(issuesFor({ pipelineSettings: { minUnits: 6 } }).map(issue => issue.message))
+        .toEqual(['maxUnits 4 is below minUnits 6'])
+    })
+
+    test('needs two OCUs for a persistent buffer', () => {
+      expect(issuesFor({ pipelineSettings: { persistentBuffer: true } }).map(issue => issue.message))
+        .toEqual(['persistentBuffer needs minUnits of at least 2'])
+    })
+  })
+
+  describe('pipelineArchive', () => {
+    test('accepts retention settings and a replay window', () => {
+      expect(keysWithIssues({
+        pipelineArchive: {
+          archiveEvents: true,
+          glacierAfterDays: 90,
+          retentionDays: 730,
+          replay: { enabled: true, startTime: '2026-01-01T00:00:00', endTime: '2026-02-01T00:00:00' }
+        }
+      })).toEqual([])
+    })
+
+    test('rejects retention that ends before the Glacier transition and malformed replay windows', () => {
+      expect(issuesFor({
+        pipelineArchive: {
+          archiveEvents: 'yes',
+          glacierAfterDays: 90,
+          retentionDays: 60,
+          dlqRetentionDays: 0,
+          replay: { enabled: true, startTime: '2026-02-01', endTime: '2026-01-01T00:00:00' }
+        } as any
+      }).map(issue => issue.message)).toEqual([
+        'archiveEvents must be true or false',
+        'dlqRetentionDays must be a positive whole number of days',
+        'retentionDays 60 must be longer than glacierAfterDays 90',
+        "replay.startTime '2026-02-01' is not a time like 2026-01-01T00:00:00"
+      ])
+      expect(issuesFor({
+        pipelineArchive: { replay: { enabled: true, startTime: '2026-02-01T00:00:00', endTime: '2026-01-01T00:00:00' } }
+      }).map(issue => issue.message)).toEqual(['replay.startTime must be before replay.endTime'])
+    })
+  })
+
+  test('requires legacyExports to be a boolean', () => {
+    expect(keysWithIssues({ legacyExports: true })).toEqual([])
+    expect(issuesFor({ legacyExports: 'yes' })[0].message).toBe('must be a boolean, got "yes"')
+  })
+
+  test('collects every problem instead of stopping at the first', () => {
+    expect(keysWithIssues({ eksVersion: '1.29', vpcCidr: '10.0.0.0', nodeCount: 0 }))
+      .toEqual(['vpcCidr', 'eksVersion', 'nodeCount'])
+  })
+})
+
+describe('ConfigLoader.validateConfig', () => {
+  test('throws a single error listing all problems', () => {
+    const config = { ...validConfig, eksVersion: '1.29', nodeInstanceType: 'huge' }
+    expect(() => ConfigLoader.validateConfig(config)).toThrow(ConfigValidationError)
+    try {
+      ConfigLoader.validateConfig(config)
+    } catch (error) {
+      expect((error as ConfigValidationError).issues.map(issue => issue.key)).toEqual(['eksVersion', 'nodeInstanceType'])
+      expect((error as Error).message).toMatch(/2 problems/)
+    }
+  })
+
+  test('passes for the shipped environment files', () => {
+    for (const environment of ['dev', 'staging', 'prod']) {
+      expect(() => ConfigLoader.validateConfig(ConfigLoader.loadConfig(environment, 'ap-southeast-1', { env: {} })))
+        .not.toThrow()
+    }
+  })
+})
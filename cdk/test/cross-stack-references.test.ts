@@ -0,0 +1,49 @@
+import * as cdk from 'aws-cdk-lib'
+import { Template } from 'aws-cdk-lib/assertions'
+import { CrossStackReferences } from '../lib/cross-stack-references'
+import { ExportNames, StackConfig } from '../lib/stack-config'
+
+function stackFor (config: Partial<StackConfig> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack')
+  const references = new CrossStackReferences(stack, { environment: 'dev', region: 'eu-west-1', ...config })
+  return { stack, references }
+}
+
+describe('CrossStackReferences', () => {
+  test('scopes parameter names by environment', () => {
+    expect(CrossStackReferences.parameterName('dev', ExportNames.NETWORK_VPC_ID))
+      .toBe('/eks-observability/dev/network-vpc-id')
+    expect(CrossStackReferences.parameterName('prod', ExportNames.NETWORK_VPC_ID))
+      .toBe('/eks-observability/prod/network-vpc-id')
+  })
+
+  test('publishes values as SSM parameters without CloudFormation exports', () => {
+    const { stack, references } = stackFor()
+    references.exportValue('VpcIdExport', 'vpc-0123456789abcdef0', ExportNames.NETWORK_VPC_ID)
+
+    const template = Template.fromStack(stack)
+    template.hasResourceProperties('AWS::SSM::Parameter', {
+      Name: '/eks-observability/dev/network-vpc-id',
+      Value: 'vpc-0123456789abcdef0'
+    })
+    expect(template.findOutputs('VpcIdExport').VpcIdExport.Export).toBeUndefined()
+  })
+
+  test('keeps the unscoped export while migrating', () => {
+    const { stack, references } = stackFor({ legacyExports: true })
+    references.exportValue('VpcIdExport', 'vpc-0123456789abcdef0', ExportNames.NETWORK_VPC_ID)
+
+    Template.fromStack(stack).hasOutput('VpcIdExport', { Export: { Name: 'network-vpc-id' } })
+  })
+
+  test('resolves imports from SSM at deploy time', () => {
+    const { stack, references } = stackFor()
+    references.importListValue(ExportNames.NETWORK_PRIVATE_SUBNET_IDS)
+
+    const parameters = Template.fromStack(stack).findParameters('*', {
+      Type: 'AWS::SSM::Parameter::Value<String>'
+    })
+    expect(Object.values(parameters).map(parameter => parameter.Default))
+      .toContain('/eks-observability/dev/network-subnets-private-ids')
+  })
+})
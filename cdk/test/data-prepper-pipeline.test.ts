@@ -0,0 +1,101 @@
+import * as path from 'path'
+import * as YAML from 'yaml'
+import { DataPrepperPipeline, SubPipeline } from '../lib/data-prepper-pipeline'
+
+const CONFIG_DIR = path.resolve(__dirname, '../config')
+
+const SINK_VALUES = {
+  OPENSEARCH_ENDPOINT: 'https://search.example.com',
+  INGESTION_ROLE_ARN: 'arn:aws:iam::123456789012:role/ingestion',
+  AWS_REGION: 'eu-west-1'
+}
+
+function template (file: string): DataPrepperPipeline {
+  return DataPrepperPipeline.fromFile(path.join(CONFIG_DIR, file))
+}
+
+describe('DataPrepperPipeline', () => {
+  test.each(['logs-pipeline.yaml', 'traces-pipeline.yaml'])('loads %s as a template', file => {
+    expect(template(file).placeholders()).toEqual(['AWS_REGION', 'INGESTION_ROLE_ARN', 'OPENSEARCH_ENDPOINT'])
+  })
+
+  test('substitutes every occurrence and leaves Data Prepper expressions alone', () => {
+    const rendered = YAML.parse(template('traces-pipeline.yaml').render(SINK_VALUES))
+    for (const name of ['span-pipeline', 'service-map-pipeline']) {
+      expect(rendered[name].sink[0].opensearch.hosts).toEqual(['https://search.example.com'])
+      expect(rendered[name].sink[0].opensearch.aws.region).toBe('eu-west-1')
+    }
+    const logs = YAML.parse(template('logs-pipeline.yaml').render(SINK_VALUES))
+    expect(logs['log-pipeline'].sink[0].opensearch.index).toBe('logs-${service_name}-%{yyyy.MM.dd}')
+  })
+
+  test('rejects missing and unused placeholder values', () => {
+    const { AWS_REGION: _, ...withoutRegion } = SINK_VALUES
+    expect(() => template('logs-pipeline.yaml').render(withoutRegion))
+      .toThrow(/logs-pipeline.yaml: no value for placeholder \$\{AWS_REGION\}$/)
+    expect(() => template('logs-pipeline.yaml').render({ ...SINK_VALUES, OPENSEARCH_ENPOINT: 'typo' }))
+      .toThrow(/logs-pipeline.yaml: values for OPENSEARCH_ENPOINT match no placeholder$/)
+  })
+
+  test('appends processors to sub-pipelines', () => {
+    const rendered = YAML.parse(template('logs-pipeline.yaml')
+      .addProcessors({ 'log-pipeline': [{ drop_events: { drop_when: '/namespace == "kube-system"' } }] })
+      .render(SINK_VALUES))
+    const processors = rendered['log-pipeline'].processor
+    expect(processors.map((processor: object) => Object.keys(processor)[0]))
+      .toEqual(['delete_entries', 'add_entries', 'date', 'drop_events'])
+    expect(processors[3].drop_events.drop_when).toBe('/namespace == "kube-system"')
+  })
+
+  test('rejects processors for unknown sub-pipelines', () => {
+    expect(() => template('traces-pipeline.yaml').addProcessors({ 'spans-pipeline': [{ date: {} }] }))
+      .toThrow("cannot add processors to unknown sub-pipeline 'spans-pipeline' (defined: otel-trace-pipeline, span-pipeline, service-map-pipeline)")
+  })
+
+  test('checks that sub-pipeline references exist and connect back', () => {
+    const subPipelines = (sinkTarget: string, sourceOf: string): Record<string, SubPipeline> => ({
+      entry: { source: { http: { path: '/ingest' } }, sink: [sinkTarget ? { pipeline: { name: sinkTarget } } : { stdout: null }] },
+      store: { source: { pipeline: { name: sourceOf } }, sink: [{ stdout: null }] }
+    })
+    expect(() => new DataPrepperPipeline(subPipelines('store', 'entry')).render({})).not.toThrow()
+    expect(() => new DataPrepperPipeline(subPipelines('stroe', 'entry')).render({}))
+      .toThrow("sub-pipeline 'entry' writes to 'stroe', which does not read from it")
+    expect(() => new DataPrepperPipeline(subPipelines('', 'entry')).render({}))
+      .toThrow("sub-pipeline 'store' reads from 'entry', which does not write to it")
+  })
+
+  test('connects added sub-pipelines to the sub-pipeline they read from', () => {
+    const pipeline = template('traces-pipeline.yaml').addSubPipeline('span-count-pipeline', {
+      source: { pipeline: { name: 'otel-trace-pipeline' } },
+      processor: [{ aggregate: { identification_keys: ['serviceName'], action: { count: {} } } }],
+      sink: [{ stdout: null }]
+    })
+    const rendered = YAML.parse(pipeline.render(SINK_VALUES))
+    expect(rendered['otel-trace-pipeline'].sink.map((sink: any) => sink.pipeline.name))
+      .toEqual(['span-pipeline', 'service-map-pipeline', 'span-count-pipeline'])
+    expect(rendered['span-count-pipeline'].source).toEqual({ pipeline: { name: 'otel-trace-pipeline' } })
+
+    expect(() => pipeline.addSubPipeline('span-pipeline', { source: { http: null }, sink: [{ stdout: null }] }))
+      .toThrow("sub-pipeline 'span-pipeline' is already defined")
+    expect(() => pipeline.addSubPipeline('orphan', { source: { pipeline: { name: 'raw-pipeline' } }, sink: [{ stdout: null }] }))
+      .toThrow("sub-pipeline 'orphan' reads from unknown sub-pipeline 'raw-pipeline'")
+  })
+
+  test('adds sinks and merges settings into the sinks of one plugin', () => {
+    const rendered = YAML.parse(template('traces-pipeline.yaml')
+      .addSink('span-pipeline', { stdout: null })
+      .configureSinks('opensearch', subPipeline => ({ dlq: { s3: { key_path_prefix: `dlq/${subPipeline}` } } }))
+      .render(SINK_VALUES))
+    expect(rendered['span-pipeline'].sink.map((sink: object) => Object.keys(sink)[0])).toEqual(['opensearch', 'stdout'])
+    expect(rendered['span-pipeline'].sink[0].opensearch.dlq).toEqual({ s3: { key_path_prefix: 'dlq/span-pipeline' } })
+    expect(rendered['service-map-pipeline'].sink[0].opensearch.dlq).toEqual({ s3: { key_path_prefix: 'dlq/service-map-pipeline' } })
+    expect(rendered['otel-trace-pipeline'].sink[0]).toEqual({ pipeline: { name: 'span-pipeline' } })
+  })
+
+  test('rejects sub-pipelines without a source or sink', () => {
+    expect(() => new DataPrepperPipeline({ broken: { source: { http: null }, sink: [] } }))
+      .toThrow("sub-pipeline 'broken' needs at least one sink plugin")
+    expect(() => new DataPrepperPipeline({ broken: { source: {}, sink: [{ stdout: null }] } }))
+      .toThrow("sub-pipeline 'broken' needs a single source plugin")
+  })
+})
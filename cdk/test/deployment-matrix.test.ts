@@ -0,0 +1,97 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ConfigError } from '../lib/stack-config'
+import {
+  DEFAULT_MATRIX_FILE,
+  filterTargets,
+  isPrimaryRegion,
+  loadDeploymentMatrix
+} from '../lib/deployment-matrix'
+
+function matrixFile (content: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'matrix-'))
+  const file = path.join(dir, 'deployments.yaml')
+  fs.writeFileSync(file, content)
+  return file
+}
+
+describe('loadDeploymentMatrix', () => {
+  test('expands environments × regions into targets', () => {
+    const { targets } = loadDeploymentMatrix(matrixFile(`
+targets:
+  - environments: [dev, staging]
+    region: ap-southeast-1
+  - environment: prod
+    regions: [ap-southeast-1, eu-west-1]
+    account: "123456789012"
+    overrides:
+      vpcCidr: 10.1.0.0/16
+`))
+    expect(targets).toEqual([
+      { environment: 'dev', region: 'ap-southeast-1' },
+      { environment: 'staging', region: 'ap-southeast-1' },
+      { environment: 'prod', region: 'ap-southeast-1', account: '123456789012', overrides: { vpcCidr: '10.1.0.0/16' } },
+      { environment: 'prod', region: 'eu-west-1', account: '123456789012', overrides: { vpcCidr: '10.1.0.0/16' } }
+    ])
+  })
+
+  test('loads the shipped matrix', () => {
+    expect(loadDeploymentMatrix(DEFAULT_MATRIX_FILE).targets.length).toBeGreaterThan(0)
+  })
+
+  test('rejects duplicate and incomplete targets', () => {
+    expect(() => loadDeploymentMatrix(matrixFile(`
+targets:
+  - environment: dev
+    regions: [eu-west-1, eu-west-1]
+`))).toThrow('dev/eu-west-1 is listed more than once')
+    expect(() => loadDeploymentMatrix(matrixFile(`
+targets:
+  - environment: dev
+`))).toThrow(ConfigError)
+  })
+
+  test('requires the central Grafana workspace to be a target in the same account', () => {
+    expect(() => loadDeploymentMatrix(matrixFile(`
+targets:
+  - environment: prod
+    region: eu-west-1
+grafana:
+  central: { environment: prod, region: us-east-1 }
+`))).toThrow(/prod\/us-east-1 is not one of the targets/)
+    expect(() => loadDeploymentMatrix(matrixFile(`
+targets:
+  - environment: prod
+    region: eu-west-1
+    account: "111111111111"
+  - environment: dev
+    region: eu-west-1
+    account: "222222222222"
+grafana:
+  central: { environment: prod, region: eu-west-1 }
+`))).toThrow(/dev\/eu-west-1 use another account/)
+  })
+})
+
+describe('filterTargets', () => {
+  const targets = [
+    { environment: 'dev', region: 'ap-southeast-1' },
+    { environment: 'prod', region: 'ap-southeast-1' },
+    { environment: 'prod', region: 'eu-west-1' }
+  ]
+
+  test('keeps every target without a filter', () => {
+    expect(filterTargets(targets)).toEqual(targets)
+  })
+
+  test('matches environments, regions and wildcards', () => {
+    expect(filterTargets(targets, 'prod')).toEqual(targets.slice(1))
+    expect(filterTargets(targets, 'dev, prod/eu-*')).toEqual([targets[0], targets[2]])
+    expect(filterTargets(targets, '*/ap-southeast-1')).toEqual(targets.slice(0, 2))
+  })
+
+  test('treats the first region of an environment as primary', () => {
+    expect(targets.map(target => isPrimaryRegion(targets, target))).toEqual([true, true, false])
+  })
+})
@@ -0,0 +1,25 @@
+import * as cdk from 'aws-cdk-lib'
+import * as eks from 'aws-cdk-lib/aws-eks'
+import { EKS_VERSIONS, resolveEksVersion } from '../lib/eks-versions'
+
+describe('resolveEksVersion', () => {
+  test('pairs each version with its own kubectl layer', () => {
+    const stack = new cdk.Stack()
+    const v31 = resolveEksVersion('1.31')
+    const v32 = resolveEksVersion('1.32')
+    expect(v31.kubernetesVersion).toBe(eks.KubernetesVersion.V1_31)
+    expect(v32.kubernetesVersion).toBe(eks.KubernetesVersion.V1_32)
+    expect(v31.kubectlLayer(stack, 'V31').constructor.name).toBe('KubectlV31Layer')
+    expect(v32.kubectlLayer(stack, 'V32').constructor.name).toBe('KubectlV32Layer')
+  })
+
+  test('pins kube-state-metrics for every supported version', () => {
+    for (const spec of Object.values(EKS_VERSIONS)) {
+      expect(spec.addonVersions['kube-state-metrics']).toBe('v2.16.0-eksbuild.1')
+    }
+  })
+
+  test.each(['1.29', '1.3', 'latest'])('rejects unsupported version %s', version => {
+    expect(() => resolveEksVersion(version)).toThrow(/not supported \(supported: 1\.31, 1\.32\)/)
+  })
+})
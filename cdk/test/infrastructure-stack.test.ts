@@ -0,0 +1,236 @@
+import * as cdk from 'aws-cdk-lib'
+import { Match, Template } from 'aws-cdk-lib/assertions'
+import { InfrastructureStack } from '../lib/infrastructure-stack'
+import { NetworkStack } from '../lib/network-stack'
+import { StackConfig } from '../lib/stack-config'
+import {
+  ENVIRONMENTS,
+  TEST_ACCOUNT,
+  TEST_STACK_PROPS,
+  createApp,
+  loadEnvironmentConfig,
+  snapshotOf
+} from './stack-fixtures'
+
+function synth (environment: string, overrides?: Partial<StackConfig>): Template {
+  const config = loadEnvironmentConfig(environment, overrides)
+  return Template.fromStack(
+    new InfrastructureStack(createApp(), `${environment}-infrastructure-stack`, config, TEST_STACK_PROPS)
+  )
+}
+
+describe.each(ENVIRONMENTS)('InfrastructureStack (%s)', environment => {
+  const template = synth(environment)
+
+  test('matches the snapshot', () => {
+    expect(snapshotOf(template)).toMatchSnapshot()
+  })
+
+  test('names the cluster after the environment and runs it on the configured version', () => {
+    template.hasResourceProperties('Custom::AWSCDK-EKS-Cluster', {
+      Config: Match.objectLike({ name: `${environment}-eks-cluster`, version: '1.32' })
+    })
+  })
+
+  test('grants the Admin role cluster admin access', () => {
+    template.hasResourceProperties('AWS::EKS::AccessEntry', {
+      PrincipalArn: `arn:aws:iam::${TEST_ACCOUNT}:role/Admin`,
+      AccessPolicies: [
+        Match.objectLike({
+          AccessScope: { Type: 'cluster' },
+          PolicyArn: Match.objectLike({
+            'Fn::Join': ['', Match.arrayWith([':eks::aws:cluster-access-policy/AmazonEKSClusterAdminPolicy'])]
+          })
+        })
+      ]
+    })
+  })
+
+  test('trusts only the fluent-bit service account for the FluentBit role', () => {
+    const conditions = Object.values(template.findResources('Custom::AWSCDKCfnJson'))
+      .map(resource => JSON.stringify(resource.Properties.Value))
+    expect(conditions).toEqual([
+      expect.stringContaining(':sub\\":\\"system:serviceaccount:kube-system:fluent-bit\\"')
+    ])
+    expect(conditions[0]).toContain(':aud\\":\\"sts.amazonaws.com\\"')
+  })
+
+  test('lets FluentBit ingest only into the environment\'s pipelines', () => {
+    const [fluentBitRole] = Object.values(template.findResources('AWS::IAM::Role', {
+      Properties: { Policies: [Match.objectLike({ PolicyName: 'OpenSearchAccess' })] }
+    }))
+    const [, osisStatement] = fluentBitRole.Properties.Policies[0].PolicyDocument.Statement
+    expect(osisStatement.Action).toBe('osis:*')
+    expect(JSON.stringify(osisStatement.Resource))
+      .toContain(`:osis:ap-southeast-1:${TEST_ACCOUNT}:pipeline/${environment}-*`)
+  })
+})
+
+describe('InfrastructureStack node group sizing', () => {
+  test.each([
+    ['dev', 't3.medium', 2, 4],
+    ['staging', 't3.large', 3, 5],
+    ['prod', 't3.xlarge', 5, 7]
+  ])('%s runs %s nodes, %i to %i', (environment, instanceType, minSize, maxSize) => {
+    const template = synth(environment as string)
+    template.resourceCountIs('AWS::EKS::Nodegroup', 1)
+    template.hasResourceProperties('AWS::EKS::Nodegroup', {
+      NodegroupName: `${environment}-eks-nodes`,
+      AmiType: 'AL2_x86_64',
+      CapacityType: 'ON_DEMAND',
+      InstanceTypes: [instanceType],
+      ScalingConfig: { MinSize: minSize, MaxSize: maxSize, DesiredSize: minSize }
+    })
+  })
+
+  test('configured node groups replace the default group', () => {
+    const template = synth('dev', {
+      nodeGroups: [
+        { name: 'system', instanceTypes: ['m7g.large'], minSize: 2, maxSize: 3 },
+        { name: 'spot', instanceTypes: ['m6i.large', 'm5.large'], capacityType: 'SPOT', minSize: 0, maxSize: 10 }
+      ]
+    })
+    template.resourceCountIs('AWS::EKS::Nodegroup', 2)
+    template.hasResourceProperties('AWS::EKS::Nodegroup', {
+      NodegroupName: 'dev-system-nodes',
+      AmiType: 'AL2023_ARM_64_STANDARD',
+      ScalingConfig: { MinSize: 2, MaxSize: 3, DesiredSize: 2 }
+    })
+    template.hasResourceProperties('AWS::EKS::Nodegroup', {
+      NodegroupName: 'dev-spot-nodes',
+      CapacityType: 'SPOT',
+      ScalingConfig: { MinSize: 0, MaxSize: 10, DesiredSize: 0 }
+    })
+  })
+})
+
+describe('InfrastructureStack access entries', () => {
+  const admin = { policies: [{ policy: 'AmazonEKSClusterAdminPolicy', scope: 'cluster' as const }] }
+
+  test('creates an entry for principals of the same name in other accounts and paths', () => {
+    const template = synth('dev', {
+      accessEntries: [
+        { ...admin, principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin' },
+        { ...admin, principal: 'arn:aws:iam::111111111111:role/Admin' },
+        { ...admin, principal: 'arn:aws:iam::222222222222:role/path/Admin' }
+      ]
+    })
+    const principals = Object.values(template.findResources('AWS::EKS::AccessEntry'))
+      .map(resource => resource.Properties.PrincipalArn)
+    expect(principals).toEqual([
+      `arn:aws:iam::${TEST_ACCOUNT}:role/Admin`,
+      'arn:aws:iam::111111111111:role/Admin',
+      'arn:aws:iam::222222222222:role/path/Admin'
+    ])
+  })
+
+  test('rejects the deployment account written both ways', () => {
+    expect(() => synth('dev', {
+      accessEntries: [
+        { ...admin, principal: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/Admin' },
+        { ...admin, principal: `arn:aws:iam::${TEST_ACCOUNT}:role/Admin` }
+      ]
+    })).toThrow(`accessEntries: 'arn:aws:iam::${TEST_ACCOUNT}:role/Admin' and 'arn:aws:iam::\${AWS_ACCOUNT_ID}:role/Admin' are the same principal in account ${TEST_ACCOUNT}`)
+  })
+})
+
+describe('InfrastructureStack endpoint access', () => {
+  const vpcConfigOf = (template: Template) =>
+    Object.values(template.findResources('Custom::AWSCDK-EKS-Cluster'))[0].Properties.Config.resourcesVpcConfig
+
+  /**
+   * VPC configuration of the kubectl handler, which applies manifests and Helm charts
+   */
+  function kubectlHandlerVpcConfig (overrides: Partial<StackConfig>, environment = 'dev'): unknown {
+    const config = loadEnvironmentConfig(environment, overrides)
+    const stack = new InfrastructureStack(createApp(), `${environment}-infrastructure-stack`, config, TEST_STACK_PROPS)
+    const provider = stack.node.findChild('@aws-cdk--aws-eks.KubectlProvider') as cdk.NestedStack
+    const handlers = Template.fromStack(provider).findResources('AWS::Lambda::Function', {
+      Properties: { Handler: 'index.handler' }
+    })
+    return Object.values(handlers)[0].Properties.VpcConfig
+  }
+
+  test('runs the kubectl handler in the VPC whenever the endpoint has private access', () => {
+    expect(kubectlHandlerVpcConfig({ clusterEndpoint: { publicAccessCidrs: ['203.0.113.0/24'] } }))
+      .toEqual({ SecurityGroupIds: [expect.anything()], SubnetIds: expect.anything() })
+    expect(kubectlHandlerVpcConfig({ clusterEndpoint: { access: 'public' } })).toBeUndefined()
+  })
+
+  test.each(ENVIRONMENTS)('%s can invoke a kubectl handler in the VPC without NAT', environment => {
+    const network = Template.fromStack(
+      new NetworkStack(createApp(), `${environment}-network-stack`, loadEnvironmentConfig(environment), TEST_STACK_PROPS)
+    )
+    const withoutNat = Object.keys(network.findResources('AWS::EC2::NatGateway')).length === 0
+    if (environment === 'dev') {
+      expect(withoutNat).toBe(true)
+    }
+    if (withoutNat && kubectlHandlerVpcConfig({}, environment) !== undefined) {
+      const serviceNames = Object.values(network.findResources('AWS::EC2::VPCEndpoint'))
+        .map(endpoint => JSON.stringify(endpoint.Properties.ServiceName))
+      expect(serviceNames).toEqual(expect.arrayContaining([expect.stringMatching(/\.lambda"/)]))
+    }
+  })
+
+  test('prod keeps the API endpoint private', () => {
+    expect(vpcConfigOf(synth('prod'))).toEqual({
+      subnetIds: expect.anything(),
+      securityGroupIds: expect.anything(),
+      endpointPublicAccess: false,
+      endpointPrivateAccess: true
+    })
+  })
+
+  test('the public endpoint only admits the allowlisted CIDRs', () => {
+    const template = synth('dev', { clusterEndpoint: { publicAccessCidrs: ['203.0.113.0/24'] } })
+    expect(vpcConfigOf(template)).toMatchObject({
+      endpointPublicAccess: true,
+      endpointPrivateAccess: true,
+      publicAccessCidrs: ['203.0.113.0/24']
+    })
+  })
+})
+
+describe('InfrastructureStack Karpenter', () => {
+  test('the controller role is assumed through Pod Identity in kube-system', () => {
+    const template = synth('dev', { karpenter: { enabled: true } })
+    template.hasResourceProperties('AWS::EKS::PodIdentityAssociation', {
+      Namespace: 'kube-system',
+      ServiceAccount: 'karpenter'
+    })
+    template.hasResourceProperties('AWS::IAM::Role', {
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Action: ['sts:AssumeRole', 'sts:TagSession'],
+            Principal: { Service: 'pods.eks.amazonaws.com' }
+          })
+        ]
+      }
+    })
+  })
+
+  test('associates the controller role once the Pod Identity Agent add-on exists', () => {
+    const template = synth('dev', { karpenter: { enabled: true } })
+    const [addonId] = Object.keys(template.findResources('AWS::EKS::Addon', {
+      Properties: { AddonName: 'eks-pod-identity-agent' }
+    }))
+    const [association] = Object.values(template.findResources('AWS::EKS::PodIdentityAssociation'))
+    expect(association.DependsOn).toEqual(expect.arrayContaining([addonId]))
+  })
+
+  test('scopes EC2 creation and deletion to resources tagged with the cluster name', () => {
+    const template = synth('dev', { karpenter: { enabled: true } })
+    const statements = Object.values(template.findResources('AWS::IAM::Policy'))
+      .flatMap(policy => policy.Properties.PolicyDocument.Statement)
+    const conditionsOf = (sid: string) => statements.find(statement => statement.Sid === sid).Condition
+    for (const sid of ['AllowScopedEC2InstanceActionsWithTags', 'AllowScopedResourceCreationTagging']) {
+      expect(conditionsOf(sid).StringEquals['aws:RequestTag/eks:eks-cluster-name']).toBe('dev-eks-cluster')
+    }
+    for (const sid of ['AllowScopedEC2LaunchTemplateAccessActions', 'AllowScopedDeletion']) {
+      expect(conditionsOf(sid).StringEquals['aws:ResourceTag/eks:eks-cluster-name']).toBe('dev-eks-cluster')
+    }
+    expect(statements.find(statement => statement.Sid === 'AllowScopedDeletion').Action)
+      .toEqual(['ec2:TerminateInstances', 'ec2:DeleteLaunchTemplate'])
+  })
+})
@@ -0,0 +1,197 @@
+import { Match, Template } from 'aws-cdk-lib/assertions'
+import { NetworkStack } from '../lib/network-stack'
+import { StackConfig } from '../lib/stack-config'
+import { ENVIRONMENTS, TEST_STACK_PROPS, createApp, loadEnvironmentConfig, snapshotOf } from './stack-fixtures'
+
+function synth (environment: string, overrides?: Partial<StackConfig>): Template {
+  const config = loadEnvironmentConfig(environment, overrides)
+  return Template.fromStack(new NetworkStack(createApp(), `${environment}-network-stack`, config, TEST_STACK_PROPS))
+}
+
+describe.each(ENVIRONMENTS)('NetworkStack (%s)', environment => {
+  const template = synth(environment)
+
+  test('matches the snapshot', () => {
+    expect(snapshotOf(template)).toMatchSnapshot()
+  })
+
+  test('creates public and private subnets in 3 AZs', () => {
+    template.hasResourceProperties('AWS::EC2::VPC', {
+      CidrBlock: '10.0.0.0/16',
+      EnableDnsHostnames: true,
+      EnableDnsSupport: true
+    })
+    template.resourceCountIs('AWS::EC2::Subnet', 6)
+    template.resourcePropertiesCountIs('AWS::EC2::Subnet', {
+      MapPublicIpOnLaunch: false,
+      Tags: Match.arrayWith([{ Key: 'kubernetes.io/role/elb', Value: '1' }])
+    }, 3)
+    template.resourcePropertiesCountIs('AWS::EC2::Subnet', {
+      Tags: Match.arrayWith([{ Key: 'kubernetes.io/role/internal-elb', Value: '1' }])
+    }, 3)
+  })
+
+  test('publishes the VPC references for the other stacks', () => {
+    for (const name of ['network-vpc-id', 'network-vpc-cidr', 'network-subnets-private-ids', 'network-subnets-public-ids']) {
+      template.hasResourceProperties('AWS::SSM::Parameter', { Name: `/eks-observability/${environment}/${name}` })
+    }
+  })
+})
+
+describe('NetworkStack NAT gateways', () => {
+  test.each([['dev', 0], ['staging', 1], ['prod', 3]])('%s gets %i', (environment, count) => {
+    synth(environment as string).resourceCountIs('AWS::EC2::NatGateway', count as number)
+  })
+
+  test('dev reaches AWS services through VPC endpoints', () => {
+    const template = synth('dev')
+    template.resourceCountIs('AWS::EC2::VPCEndpoint', 13)
+    template.resourcePropertiesCountIs('AWS::EC2::VPCEndpoint', { VpcEndpointType: 'Interface', PrivateDnsEnabled: true }, 12)
+  })
+
+  test('an environment without NAT gets an isolated private tier and the required endpoints', () => {
+    const template = synth('dev', {
+      network: { natGateways: 0, vpcEndpoints: ['s3', 'ecr.api', 'ecr.dkr', 'sts', 'ec2', 'secretsmanager', 'lambda'] }
+    })
+    template.resourceCountIs('AWS::EC2::NatGateway', 0)
+    template.resourceCountIs('AWS::EC2::VPCEndpoint', 7)
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', { VpcEndpointType: 'Gateway' })
+  })
+})
+
+describe('NetworkStack flow logs', () => {
+  test('deliver to CloudWatch Logs with the configured retention by default', () => {
+    const template = synth('dev', { flowLogs: { enabled: true, retentionDays: 30 } })
+    template.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: '/aws/vpc/flowlogs/dev',
+      RetentionInDays: 30
+    })
+    template.hasResourceProperties('AWS::EC2::FlowLog', {
+      LogDestinationType: 'cloud-watch-logs',
+      LogFormat: Match.stringLikeRegexp('^\\$\\{version\\} \\$\\{account-id\\} ')
+    })
+  })
+
+  test('announce S3 objects on a queue for the OpenSearch destination', () => {
+    const template = synth('dev', { flowLogs: { enabled: true, destination: 'opensearch' } })
+    template.hasResourceProperties('AWS::EC2::FlowLog', { LogDestinationType: 's3' })
+    template.resourceCountIs('AWS::SQS::Queue', 1)
+    template.hasResourceProperties('AWS::SSM::Parameter', { Name: '/eks-observability/dev/network-flow-logs-queue-url' })
+  })
+})
+
+describe('NetworkStack existing VPC', () => {
+  const VPC_ID = 'vpc-0123456789abcdef0'
+  const AZS = ['ap-southeast-1a', 'ap-southeast-1b']
+
+  const subnetGroup = (name: string, type: string, prefix: string) => ({
+    name,
+    type,
+    subnets: AZS.map((availabilityZone, index) => ({
+      subnetId: `subnet-${prefix}${index}`,
+      cidr: `10.0.${prefix === 'pub' ? index : 10 + index}.0/24`,
+      availabilityZone,
+      routeTableId: `rtb-${prefix}${index}`
+    }))
+  })
+
+  const vpcLookup = {
+    vpcId: VPC_ID,
+    vpcCidrBlock: '10.0.0.0/16',
+    availabilityZones: AZS,
+    subnetGroups: [subnetGroup('Public', 'Public', 'pub'), subnetGroup('Private', 'Private', 'prv')]
+  }
+
+  const taggedSubnets = (tags: Record<string, Record<string, string>>) =>
+    Object.entries(tags).map(([subnetId, subnetTags]) => ({
+      Identifier: subnetId,
+      SubnetId: subnetId,
+      Tags: Object.entries(subnetTags).map(([Key, Value]) => ({ Key, Value }))
+    }))
+
+  const allTagged = {
+    'subnet-pub0': { 'kubernetes.io/role/elb': '1' },
+    'subnet-pub1': { 'kubernetes.io/role/elb': '1' },
+    'subnet-prv0': { 'kubernetes.io/role/internal-elb': '1' },
+    'subnet-prv1': { 'kubernetes.io/role/internal-elb': '1' }
+  }
+
+  /**
+   * Synthesize against answered context lookups: each pass records the lookups still
+   * missing, which are answered by provider before the next pass
+   */
+  function synthImported (
+    answers: Record<string, unknown>,
+    overrides: Partial<StackConfig> = {}
+  ): { template: Template, lookups: string[] } {
+    const config = loadEnvironmentConfig('dev', { network: { existingVpc: { vpcId: VPC_ID } }, ...overrides })
+    const context: Record<string, unknown> = {}
+    const lookups: string[] = []
+    for (let pass = 0; pass < 3; pass++) {
+      const app = createApp()
+      Object.entries(context).forEach(([key, value]) => app.node.setContext(key, value))
+      const stack = new NetworkStack(app, 'dev-network-stack', config, TEST_STACK_PROPS)
+      const missing = app.synth().manifest.missing ?? []
+      if (missing.length === 0) {
+        return { template: Template.fromStack(stack), lookups }
+      }
+      for (const { key, provider } of missing) {
+        lookups.push(provider)
+        context[key] = answers[provider]
+      }
+    }
+    throw new Error('context lookups did not settle')
+  }
+
+  test('looks the VPC up and publishes its subnets under the usual exports', () => {
+    const { template, lookups } = synthImported({ 'vpc-provider': vpcLookup, 'cc-api-provider': taggedSubnets(allTagged) })
+    expect(new Set(lookups)).toEqual(new Set(['vpc-provider', 'cc-api-provider']))
+    template.resourceCountIs('AWS::EC2::VPC', 0)
+    template.resourceCountIs('AWS::EC2::Subnet', 0)
+    template.hasResourceProperties('AWS::SSM::Parameter', { Name: '/eks-observability/dev/network-vpc-id', Value: VPC_ID })
+    template.hasResourceProperties('AWS::SSM::Parameter', {
+      Name: '/eks-observability/dev/network-subnets-private-ids',
+      Value: 'subnet-prv0,subnet-prv1'
+    })
+    template.hasResourceProperties('AWS::SSM::Parameter', {
+      Name: '/eks-observability/dev/network-subnets-public-ids',
+      Value: 'subnet-pub0,subnet-pub1'
+    })
+    template.hasResourceProperties('AWS::SSM::Parameter', { Name: '/eks-observability/dev/network-vpc-azs', Value: AZS.join(',') })
+    expect(template.findOutputs('NatGatewayCount')).toEqual({})
+  })
+
+  test('adds only the configured endpoints to the imported VPC', () => {
+    const { template } = synthImported(
+      { 'vpc-provider': vpcLookup, 'cc-api-provider': taggedSubnets(allTagged) },
+      { network: { existingVpc: { vpcId: VPC_ID }, vpcEndpoints: ['s3', 'sts'] } }
+    )
+    template.resourceCountIs('AWS::EC2::VPCEndpoint', 2)
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', { VpcId: VPC_ID, VpcEndpointType: 'Gateway' })
+  })
+
+  test('lists every subnet missing a discovery tag', () => {
+    const { 'subnet-pub1': _pub1, 'subnet-prv0': _prv0, ...tagged } = allTagged
+    expect(() => synthImported({
+      'vpc-provider': vpcLookup,
+      'cc-api-provider': taggedSubnets({ ...tagged, 'subnet-pub1': {}, 'subnet-prv0': { 'kubernetes.io/role/internal-elb': '0' } })
+    })).toThrow(
+      `Existing VPC ${VPC_ID} cannot be used by environment 'dev':\n` +
+        '  - subnet-pub1 is missing tag kubernetes.io/role/elb=1\n' +
+        '  - subnet-prv0 is missing tag kubernetes.io/role/internal-elb=1'
+    )
+  })
+
+  test('requires the Karpenter discovery tag on private subnets when Karpenter is enabled', () => {
+    expect(() => synthImported(
+      { 'vpc-provider': vpcLookup, 'cc-api-provider': taggedSubnets(allTagged) },
+      { karpenter: { enabled: true } }
+    )).toThrow('subnet-prv0 is missing tag karpenter.sh/discovery=dev-eks-cluster')
+  })
+
+  test('rejects a VPC without private subnets', () => {
+    const publicOnly = { ...vpcLookup, subnetGroups: [subnetGroup('Public', 'Public', 'pub')] }
+    expect(() => synthImported({ 'vpc-provider': publicOnly, 'cc-api-provider': taggedSubnets(allTagged) }))
+      .toThrow('no private subnets found')
+  })
+})
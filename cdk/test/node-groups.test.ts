@@ -0,0 +1,48 @@
+import { StackConfig } from '../lib/stack-config'
+import { isGravitonInstanceType, nodeGroupId, nodeGroupName, resolveNodeGroups } from '../lib/node-groups'
+
+const baseConfig: StackConfig = { environment: 'dev', region: 'ap-southeast-1' }
+
+describe('isGravitonInstanceType', () => {
+  test.each(['t4g.medium', 'm7g.large', 'c6gn.xlarge', 'r6gd.2xlarge', 'g5g.xlarge'])('detects %s as Graviton', type => {
+    expect(isGravitonInstanceType(type)).toBe(true)
+  })
+
+  test.each(['t3.large', 'm7i.large', 'g5.xlarge', 'm7i-flex.large', 'inf2.xlarge'])('detects %s as x86_64', type => {
+    expect(isGravitonInstanceType(type)).toBe(false)
+  })
+})
+
+describe('resolveNodeGroups', () => {
+  test('derives the legacy default group from nodeInstanceType and nodeCount', () => {
+    const [group] = resolveNodeGroups({ ...baseConfig, nodeInstanceType: 't3.medium', nodeCount: 2 })
+    expect(group).toEqual({
+      name: 'default',
+      instanceTypes: ['t3.medium'],
+      capacityType: 'ON_DEMAND',
+      amiType: 'AL2_X86_64',
+      diskSize: 20,
+      minSize: 2,
+      maxSize: 4,
+      desiredSize: 2
+    })
+    expect(nodeGroupId(group)).toBe('DefaultNodeGroup')
+    expect(nodeGroupName('dev', group)).toBe('dev-eks-nodes')
+  })
+
+  test('fills defaults for configured groups and picks AL2023 by architecture', () => {
+    const groups = resolveNodeGroups({
+      ...baseConfig,
+      nodeGroups: [
+        { name: 'system', instanceTypes: ['t3.large'], minSize: 2, maxSize: 3 },
+        { name: 'demo-apps', instanceTypes: ['m7g.large', 'm6g.large'], capacityType: 'SPOT', minSize: 0, maxSize: 5, desiredSize: 1 }
+      ]
+    })
+    expect(groups.map(group => [group.amiType, group.capacityType, group.desiredSize])).toEqual([
+      ['AL2023_X86_64_STANDARD', 'ON_DEMAND', 2],
+      ['AL2023_ARM_64_STANDARD', 'SPOT', 1]
+    ])
+    expect(nodeGroupId(groups[1])).toBe('DemoAppsNodeGroup')
+    expect(nodeGroupName('prod', groups[1])).toBe('prod-demo-apps-nodes')
+  })
+})
@@ -0,0 +1,689 @@
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions'
+import * as YAML from 'yaml'
+import { ObservabilityStack } from '../lib/observability-stack'
+import { suppressionsOf } from '../lib/security-rules'
+import { StackConfig } from '../lib/stack-config'
+import {
+  ENVIRONMENTS,
+  TEST_STACK_PROPS,
+  createApp,
+  loadEnvironmentConfig,
+  renderCfnString,
+  snapshotOf
+} from './stack-fixtures'
+
+function synth (environment: string, overrides?: Partial<StackConfig>): Template {
+  const config = loadEnvironmentConfig(environment, overrides)
+  return Template.fromStack(
+    new ObservabilityStack(createApp(), `${environment}-observability-stack`, config, TEST_STACK_PROPS)
+  )
+}
+
+/**
+ * Pipeline configuration bodies keyed by pipeline name, with CloudFormation tokens rendered as `<token>`
+ */
+function pipelineBodies (template: Template): Record<string, string> {
+  return Object.fromEntries(
+    Object.values(template.findResources('AWS::OSIS::Pipeline')).map(resource => [
+      resource.Properties.PipelineName,
+      renderCfnString(resource.Properties.PipelineConfigurationBody)
+    ])
+  )
+}
+
+describe.each(ENVIRONMENTS)('ObservabilityStack (%s)', environment => {
+  const template = synth(environment)
+
+  test('matches the snapshot', () => {
+    expect(snapshotOf(template)).toMatchSnapshot()
+  })
+
+  test('substitutes every placeholder in the pipeline bodies', () => {
+    const bodies = pipelineBodies(template)
+    expect(Object.keys(bodies).sort()).toEqual([`${environment}-logs-pipeline`, `${environment}-traces-pipeline`])
+    for (const body of Object.values(bodies)) {
+      expect(body).not.toMatch(/\$\{[A-Z_]+\}/)
+      const { version, ...subPipelines } = YAML.parse(body)
+      expect(version).toBe('2')
+      const sinks = Object.values(subPipelines).flatMap((subPipeline: any) => subPipeline.sink)
+        .filter(sink => sink.opensearch)
+        .map(sink => sink.opensearch)
+      expect(sinks.length).toBeGreaterThan(0)
+      for (const sink of sinks) {
+        expect(sink.hosts).toEqual(['https://<token>'])
+        expect(sink.aws).toEqual({ sts_role_arn: '<token>', region: 'ap-southeast-1' })
+      }
+    }
+  })
+
+  test('trusts only the AMP ingest service account for the Prometheus role', () => {
+    const trustPolicy = JSON.stringify(
+      Object.values(template.findResources('Custom::AWSCDKCfnJson'))[0].Properties.Value
+    )
+    expect(trustPolicy).toContain('sts:AssumeRoleWithWebIdentity')
+    expect(trustPolicy).toContain(':sub\\":\\"system:serviceaccount:prometheus:amp-iamproxy-ingest-service-account\\"')
+    expect(trustPolicy).toContain(':aud\\":\\"sts.amazonaws.com\\"')
+  })
+
+  test('binds the OTEL collector role to its service account through Pod Identity', () => {
+    template.hasResourceProperties('AWS::IAM::Role', {
+      AssumeRolePolicyDocument: {
+        Statement: [
+          {
+            Effect: 'Allow',
+            Principal: { Service: 'pods.eks.amazonaws.com' },
+            Action: ['sts:AssumeRole', 'sts:TagSession']
+          }
+        ]
+      }
+    })
+    template.hasResourceProperties('AWS::EKS::PodIdentityAssociation', {
+      Namespace: 'default',
+      ServiceAccount: 'otel-collector'
+    })
+  })
+})
+
+describe('ObservabilityStack environments in one account', () => {
+  test('name the CloudWatch Logs resource policies per environment', () => {
+    const app = createApp()
+    const stacks = ['dev', 'staging'].map(environment =>
+      new ObservabilityStack(app, `${environment}-observability-stack`, loadEnvironmentConfig(environment), TEST_STACK_PROPS)
+    )
+    const policyNames = stacks.flatMap(stack =>
+      Object.values(Template.fromStack(stack).findResources('AWS::Logs::ResourcePolicy'))
+        .map(resource => resource.Properties.PolicyName)
+    )
+    expect(policyNames).toEqual(['dev-OpenSearchLogsPolicy', 'staging-OpenSearchLogsPolicy'])
+  })
+})
+
+describe('ObservabilityStack pipeline processors', () => {
+  test('appends the environment\'s processors to the pipeline templates', () => {
+    const bodies = pipelineBodies(synth('dev', {
+      pipelines: { logs: { processors: { 'log-pipeline': [{ drop_events: { drop_when: '/namespace == "kube-system"' } }] } } }
+    }))
+    const processors = YAML.parse(bodies['dev-logs-pipeline'])['log-pipeline'].processor
+    expect(processors[processors.length - 1]).toEqual({ drop_events: { drop_when: '/namespace == "kube-system"' } })
+  })
+
+  test('fails synthesis for processors of an unknown sub-pipeline', () => {
+    expect(() => synth('dev', { pipelines: { traces: { processors: { 'spans-pipeline': [{ date: {} }] } } } }))
+      .toThrow("cannot add processors to unknown sub-pipeline 'spans-pipeline'")
+  })
+})
+
+describe('ObservabilityStack log parsing', () => {
+  const processorNames = (processors: object[]) => processors.map(processor => Object.keys(processor)[0])
+
+  test('keeps the log\'s own @timestamp and adds no stages by default', () => {
+    const processors = YAML.parse(pipelineBodies(synth('dev'))['dev-logs-pipeline'])['log-pipeline'].processor
+    expect(processorNames(processors)).toEqual(['delete_entries', 'add_entries', 'date'])
+    expect(processors[2].date).toEqual({
+      from_time_received: true,
+      destination: '@timestamp',
+      date_when: '/@timestamp == null'
+    })
+  })
+
+  test('composes the parsing stages ahead of the environment\'s processors', () => {
+    const bodies = pipelineBodies(synth('dev', {
+      pipelines: {
+        logs: {
+          parsing: {
+            json: true,
+            grok: ['%{TIMESTAMP_ISO8601:timestamp}\\s+%{LOGLEVEL:level} %{GREEDYDATA:message}'],
+            normalizeLevel: true,
+            traceContext: true,
+            maskPii: ['email', 'ipv4']
+          },
+          processors: { 'log-pipeline': [{ drop_events: { drop_when: '/namespace == "kube-system"' } }] }
+        }
+      }
+    }))
+    const processors = YAML.parse(bodies['dev-logs-pipeline'])['log-pipeline'].processor
+    expect(processorNames(processors)).toEqual([
+      'delete_entries', 'add_entries', 'date',
+      'grok', 'date', 'delete_entries',
+      'parse_json',
+      'rename_keys', 'lowercase_string', 'substitute_string',
+      'rename_keys', 'delete_entries', 'delete_entries', 'grok',
+      'obfuscate',
+      'drop_events'
+    ])
+
+    expect(processors[3].grok).toEqual({
+      match: { message: ['%{TIMESTAMP_ISO8601:timestamp}\\s+%{LOGLEVEL:level} %{GREEDYDATA:message}'] },
+      keys_to_overwrite: ['message'],
+      grok_when: 'not /message =~ "^[{]"',
+      tags_on_match_failure: ['_grokparsefailure']
+    })
+    expect(processors[4].date).toEqual({
+      match: [{
+        key: 'timestamp',
+        patterns: ["yyyy-MM-dd'T'HH:mm:ss.SSSXXX", "yyyy-MM-dd'T'HH:mm:ss.SSSX", 'yyyy-MM-dd HH:mm:ss.SSS']
+      }],
+      destination: '@timestamp',
+      date_when: '/timestamp != null'
+    })
+    expect(processors[6].parse_json).toEqual({
+      source: 'message',
+      parse_when: '/message =~ "^[{]"',
+      tags_on_failure: ['_jsonparsefailure']
+    })
+    expect(processors[9].substitute_string.entries).toContainEqual({ source: 'level', from: '^(warning)$', to: 'warn' })
+    expect(processors[10].rename_keys.entries).toEqual([
+      { from_key: 'trace_id', to_key: 'traceId' },
+      { from_key: 'span_id', to_key: 'spanId' }
+    ])
+    expect(processors[13].grok).toMatchObject({
+      pattern_definitions: { TRACE_ID: '[0-9a-f]{32}', SPAN_ID: '[0-9a-f]{16}' },
+      grok_when: '/traceId == null'
+    })
+    expect(processors[14].obfuscate).toEqual({ source: 'message', patterns: ['%{EMAIL_ADDRESS}', '%{IP_ADDRESS_V4}'] })
+  })
+
+  test('parses the grok timestamp with the configured formats', () => {
+    const bodies = pipelineBodies(synth('dev', {
+      pipelines: { logs: { parsing: { grok: ['%{DATA:timestamp} %{GREEDYDATA:message}'], timestampFormats: ['dd/MMM/yyyy:HH:mm:ss Z'] } } }
+    }))
+    const processors = YAML.parse(bodies['dev-logs-pipeline'])['log-pipeline'].processor
+    expect(processors[3].grok).not.toHaveProperty('grok_when')
+    expect(processors[4].date.match).toEqual([{ key: 'timestamp', patterns: ['dd/MMM/yyyy:HH:mm:ss Z'] }])
+  })
+
+  test('publishes the multiline parsers Fluent Bit joins stack traces with', () => {
+    synth('dev').hasOutput('LogMultilineParsers', { Value: 'java' })
+    synth('dev', { pipelines: { logs: { parsing: { multiline: ['java', 'go'] } } } })
+      .hasOutput('LogMultilineParsers', { Value: 'java,go' })
+    expect(synth('dev', { pipelines: { logs: { parsing: { multiline: [] } } } }).toJSON().Outputs)
+      .not.toHaveProperty('LogMultilineParsers')
+  })
+})
+
+describe('ObservabilityStack OpenSearch sizing', () => {
+  test.each([
+    ['dev', 1, 'm7g.large.search', 30],
+    ['staging', 1, 'm7g.large.search', 30],
+    ['prod', 3, 'm7g.xlarge.search', 50]
+  ])('%s runs %i x %s with %i GiB', (environment, dataNodes, instanceType, volumeSize) => {
+    synth(environment as string).hasResourceProperties('AWS::OpenSearchService::Domain', {
+      ClusterConfig: Match.objectLike({ InstanceType: instanceType, InstanceCount: dataNodes }),
+      EBSOptions: Match.objectLike({ VolumeSize: volumeSize, VolumeType: 'gp3' })
+    })
+  })
+
+  test('prod spreads the domain across three AZs with dedicated masters and a standby', () => {
+    const template = synth('prod')
+    template.hasResourceProperties('AWS::OpenSearchService::Domain', {
+      ClusterConfig: Match.objectLike({
+        DedicatedMasterEnabled: true,
+        DedicatedMasterCount: 3,
+        ZoneAwarenessEnabled: true,
+        ZoneAwarenessConfig: { AvailabilityZoneCount: 3 },
+        MultiAZWithStandbyEnabled: true
+      })
+    })
+    const [domain] = Object.values(template.findResources('AWS::OpenSearchService::Domain'))
+    expect(domain.Properties.VPCOptions.SubnetIds.map((subnet: any) => subnet['Fn::Select'][0])).toEqual([0, 1, 2])
+  })
+
+  test('adds UltraWarm, cold storage and provisioned gp3 performance', () => {
+    synth('dev', {
+      openSearch: {
+        topology: {
+          masterNodes: 3,
+          warmNodes: 2,
+          warmInstanceType: 'ultrawarm1.large.search',
+          coldStorage: true,
+          ebs: { volumeSize: 100, iops: 6000, throughput: 250 }
+        }
+      }
+    }).hasResourceProperties('AWS::OpenSearchService::Domain', {
+      ClusterConfig: Match.objectLike({
+        WarmEnabled: true,
+        WarmCount: 2,
+        WarmType: 'ultrawarm1.large.search',
+        ColdStorageOptions: { Enabled: true }
+      }),
+      EBSOptions: Match.objectLike({ VolumeSize: 100, Iops: 6000, Throughput: 250 })
+    })
+  })
+})
+
+describe('ObservabilityStack flow logs pipeline', () => {
+  test('reads the flow log queue and installs the index template', () => {
+    const template = synth('dev', { flowLogs: { enabled: true, destination: 'opensearch' } })
+    const body = pipelineBodies(template)['dev-flow-logs-pipeline']
+    expect(body).not.toMatch(/\$\{[A-Z_]+\}/)
+
+    const pipeline = YAML.parse(body)['flow-logs-pipeline']
+    expect(pipeline.source.s3.sqs.queue_url).toBe('<token>')
+    const sink = pipeline.sink[0].opensearch
+    expect(sink.index).toBe('vpc-flow-logs-%{yyyy.MM.dd}')
+    expect(JSON.parse(sink.template_content).template.mappings.properties.srcaddr).toEqual({ type: 'ip' })
+  })
+})
+
+describe('ObservabilityStack trace metrics', () => {
+  test('are not aggregated by default', () => {
+    const traces = YAML.parse(pipelineBodies(synth('dev'))['dev-traces-pipeline'])
+    expect(Object.keys(traces)).toEqual(['version', 'otel-trace-pipeline', 'span-pipeline', 'service-map-pipeline'])
+  })
+
+  test('aggregate RED metrics per service into OpenSearch', () => {
+    const traces = YAML.parse(pipelineBodies(synth('dev', {
+      pipelines: { traces: { redMetrics: { enabled: true } } }
+    }))['dev-traces-pipeline'])
+    expect(traces['otel-trace-pipeline'].sink.map((sink: any) => sink.pipeline.name))
+      .toEqual(['span-pipeline', 'service-map-pipeline', 'service-duration-pipeline', 'service-errors-pipeline'])
+
+    const duration = traces['service-duration-pipeline']
+    expect(duration.processor[0].aggregate).toMatchObject({
+      identification_keys: ['serviceName'],
+      action: { histogram: { key: 'durationInNanos' } },
+      group_duration: '60s',
+      aggregate_when: '/kind == "SPAN_KIND_SERVER"'
+    })
+    expect(duration.sink.map((sink: any) => sink.opensearch.index)).toEqual(['ss4o_metrics-traces-%{yyyy.MM.dd}'])
+    expect(traces['service-errors-pipeline'].processor[0].aggregate.aggregate_when)
+      .toBe('/kind == "SPAN_KIND_SERVER" and /status/code == 2')
+  })
+
+  test('remote-write the metrics to AMP and detect latency anomalies', () => {
+    const template = synth('dev', {
+      pipelines: { traces: { redMetrics: { enabled: true, openSearch: false, prometheus: true, anomalyDetection: true } } }
+    })
+    const traces = YAML.parse(pipelineBodies(template)['dev-traces-pipeline'])
+    const duration = traces['service-duration-pipeline']
+    expect(duration.sink).toEqual([
+      { prometheus: { url: '<token>api/v1/remote_write', aws: { sts_role_arn: '<token>', region: 'ap-southeast-1' } } },
+      { pipeline: { name: 'service-latency-anomaly-pipeline' } }
+    ])
+    const anomalies = traces['service-latency-anomaly-pipeline']
+    expect(anomalies.processor[0].anomaly_detector).toEqual({
+      identification_keys: ['serviceName'],
+      keys: ['max'],
+      mode: { random_cut_forest: {} }
+    })
+    expect(anomalies.sink[0].opensearch.index).toBe('trace-anomalies-%{yyyy.MM.dd}')
+
+    const [workspaceId] = Object.keys(template.findResources('AWS::APS::Workspace'))
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([{
+          Effect: 'Allow',
+          Action: 'aps:RemoteWrite',
+          Resource: { 'Fn::GetAtt': [workspaceId, 'Arn'] }
+        }])
+      }
+    })
+  })
+})
+
+describe('ObservabilityStack metrics pipeline', () => {
+  test('is not created by default', () => {
+    const template = synth('dev')
+    expect(Object.keys(pipelineBodies(template))).not.toContain('dev-metrics-pipeline')
+    expect(template.findOutputs('MetricsIngestionUrl')).toEqual({})
+  })
+
+  test('writes OTLP metrics to OpenSearch and lets the OTEL collector ingest them', () => {
+    const template = synth('dev', { pipelines: { metrics: { enabled: true } } })
+    const pipeline = YAML.parse(pipelineBodies(template)['dev-metrics-pipeline'])['otel-metrics-pipeline']
+    expect(pipeline.source).toEqual({ otel_metrics_source: { path: '/v1/metrics' } })
+    expect(pipeline.sink[0].opensearch.index).toBe('ss4o_metrics-otel-%{yyyy.MM.dd}')
+
+    const [pipelineId] = Object.keys(template.findResources('AWS::OSIS::Pipeline', {
+      Properties: { PipelineName: 'dev-metrics-pipeline' }
+    }))
+    template.hasResourceProperties('AWS::IAM::Role', {
+      Policies: Match.arrayWith([{
+        PolicyName: 'OSISMetricsAccess',
+        PolicyDocument: Match.objectLike({
+          Statement: [Match.objectLike({
+            Action: ['osis:Ingest', 'osis:BatchGetCollection', 'osis:GetPipeline'],
+            Resource: { 'Fn::GetAtt': [pipelineId, 'PipelineArn'] }
+          })]
+        })
+      }])
+    })
+    template.hasOutput('MetricsIngestionUrl', {
+      Value: { 'Fn::Select': [0, { 'Fn::GetAtt': [pipelineId, 'IngestEndpointUrls'] }] }
+    })
+  })
+})
+
+describe('ObservabilityStack pipeline settings', () => {
+  const pipelineLogGroups = (template: Template) => Object.values(template.findResources('AWS::Logs::LogGroup'))
+    .filter(logGroup => String(logGroup.Properties.LogGroupName).startsWith('/aws/vendedlogs/OpenSearchIngestion/'))
+    .map(logGroup => [logGroup.Properties.RetentionInDays, logGroup.Properties.KmsKeyId])
+
+  test('dev runs small pipelines with a day of logs and no persistent buffer', () => {
+    const template = synth('dev')
+    template.allResourcesProperties('AWS::OSIS::Pipeline', {
+      MinUnits: 1,
+      MaxUnits: 4,
+      BufferOptions: { PersistentBufferEnabled: false },
+      EncryptionAtRestOptions: Match.absent()
+    })
+    expect(pipelineLogGroups(template)).toEqual([[1, undefined], [1, undefined]])
+    template.resourceCountIs('AWS::KMS::Key', 0)
+  })
+
+  test('prod buffers events durably and encrypts buffers and logs with its own key', () => {
+    const template = synth('prod')
+    const [keyId] = Object.keys(template.findResources('AWS::KMS::Key'))
+    const key = { 'Fn::GetAtt': [keyId, 'Arn'] }
+    template.allResourcesProperties('AWS::OSIS::Pipeline', {
+      MinUnits: 2,
+      MaxUnits: 8,
+      BufferOptions: { PersistentBufferEnabled: true },
+      EncryptionAtRestOptions: { KmsKeyArn: key }
+    })
+    expect(pipelineLogGroups(template)).toEqual([[90, key], [90, key]])
+    template.hasResourceProperties('AWS::KMS::Key', {
+      EnableKeyRotation: true,
+      KeyPolicy: {
+        Statement: Match.arrayWith([Match.objectLike({ Principal: { Service: 'logs.ap-southeast-1.amazonaws.com' } })])
+      }
+    })
+  })
+})
+
+describe('ObservabilityStack pipeline archive', () => {
+  test('sends what every OpenSearch sink fails to write to the archive bucket', () => {
+    const template = synth('dev')
+    const bodies = pipelineBodies(template)
+    for (const body of Object.values(bodies)) {
+      const { version, ...subPipelines } = YAML.parse(body)
+      for (const [name, subPipeline] of Object.entries<any>(subPipelines)) {
+        for (const sink of subPipeline.sink.filter((sink: any) => sink.opensearch)) {
+          expect(sink.opensearch.dlq.s3).toEqual({
+            bucket: '<token>',
+            key_path_prefix: `dlq/${name}/%{yyyy}/%{MM}/%{dd}`,
+            sts_role_arn: '<token>',
+            region: 'ap-southeast-1'
+          })
+        }
+      }
+    }
+    const logs = YAML.parse(bodies['dev-logs-pipeline'])['log-pipeline']
+    expect(logs.sink.map((sink: any) => Object.keys(sink)[0])).toEqual(['opensearch'])
+
+    template.hasResource('AWS::S3::Bucket', {
+      DeletionPolicy: 'Retain',
+      Properties: Match.objectLike({
+        BucketEncryption: Match.anyValue(),
+        LifecycleConfiguration: {
+          Rules: Match.arrayWith([
+            { Prefix: 'dlq/', ExpirationInDays: 30, Status: 'Enabled' },
+            {
+              Prefix: 'logs/',
+              ExpirationInDays: 365,
+              Transitions: [{ StorageClass: 'GLACIER_IR', TransitionInDays: 30 }],
+              Status: 'Enabled'
+            }
+          ])
+        }
+      })
+    })
+  })
+
+  test('archives logs and spans under date-partitioned keys', () => {
+    const bodies = pipelineBodies(synth('dev', { pipelineArchive: { archiveEvents: true, retentionDays: 730 } }))
+    const archived = (pipeline: string, subPipeline: string) =>
+      YAML.parse(bodies[pipeline])[subPipeline].sink.find((sink: any) => sink.s3)?.s3
+    expect(archived('dev-logs-pipeline', 'log-pipeline')).toMatchObject({
+      bucket: '<token>',
+      object_key: { path_prefix: 'logs/%{yyyy}/%{MM}/%{dd}/' },
+      codec: { ndjson: {} },
+      compression: 'gzip'
+    })
+    expect(archived('dev-traces-pipeline', 'span-pipeline').object_key.path_prefix).toBe('traces/%{yyyy}/%{MM}/%{dd}/')
+    expect(archived('dev-traces-pipeline', 'service-map-pipeline')).toBeUndefined()
+  })
+
+  test('replays archived logs through a pipeline scanning the bucket', () => {
+    const template = synth('dev', {
+      pipelineArchive: { replay: { enabled: true, startTime: '2026-01-01T00:00:00' } }
+    })
+    const replay = YAML.parse(pipelineBodies(template)['dev-logs-replay-pipeline'])['logs-replay-pipeline']
+    expect(replay.source.s3.scan).toEqual({
+      start_time: '2026-01-01T00:00:00',
+      buckets: [{ bucket: { name: '<token>', filter: { include_prefix: ['logs/'] } } }]
+    })
+    expect(replay.sink[0].opensearch.index).toBe('logs-${service_name}-%{yyyy.MM.dd}')
+
+    const [bucketId] = Object.keys(template.findResources('AWS::S3::Bucket'))
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({
+          Action: Match.arrayWith(['s3:GetObject*', 's3:List*']),
+          Resource: Match.arrayWith([{ 'Fn::GetAtt': [bucketId, 'Arn'] }])
+        })])
+      }
+    })
+    template.hasOutput('LogsReplayPipelineName', Match.anyValue())
+  })
+})
+
+describe('ObservabilityStack OpenSearch master user', () => {
+  test('generates the master user password into Secrets Manager and outputs only its ARN', () => {
+    const template = synth('dev')
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      GenerateSecretString: Match.objectLike({ SecretStringTemplate: '{"username":"admin"}', GenerateStringKey: 'password' })
+    })
+    template.hasResourceProperties('AWS::OpenSearchService::Domain', {
+      AdvancedSecurityOptions: {
+        Enabled: true,
+        InternalUserDatabaseEnabled: true,
+        MasterUserOptions: {
+          MasterUserName: 'admin',
+          MasterUserPassword: { 'Fn::Join': ['', ['{{resolve:secretsmanager:', Match.anyValue(), ':SecretString:password::}}']] }
+        }
+      }
+    })
+    template.hasOutput('OpenSearchMasterUserSecretArn', { Value: { Ref: Match.stringLikeRegexp('^OpenSearchMasterUserSecret') } })
+    expect(JSON.stringify(template.toJSON().Outputs)).not.toMatch(/password:/i)
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0)
+  })
+
+  test('rotates the password when configured, testing it against the domain', () => {
+    const template = synth('dev', {
+      openSearch: { masterUser: { type: 'secret', rotationDays: 30 }, allowUnsignedDashboardsAccess: true }
+    })
+    template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+      RotationRules: { ScheduleExpression: 'rate(30 days)' }
+    })
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ['es:UpdateDomainConfig', 'es:DescribeDomain'],
+            Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('^OpenSearchCluster'), 'Arn'] }
+          })
+        ])
+      }
+    })
+    // testSecret signs in to the domain with the pending password before finishSecret
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Code: { ZipFile: Match.stringLikeRegexp("step === 'testSecret'") },
+      Timeout: 900,
+      VpcConfig: Match.objectLike({ SubnetIds: Match.anyValue() }),
+      Environment: { Variables: Match.objectLike({ DOMAIN_ENDPOINT: Match.anyValue(), POLL_SECONDS: '15' }) }
+    })
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      Description: 'HTTPS from the master user rotation function',
+      FromPort: 443
+    })
+  })
+
+  test('makes an IAM role the master user instead', () => {
+    const template = synth('dev', { openSearch: { masterUser: { type: 'iam-role' } } })
+    template.resourceCountIs('AWS::SecretsManager::Secret', 0)
+    template.hasResourceProperties('AWS::IAM::Role', { RoleName: 'dev-opensearch-master-role' })
+    template.hasResourceProperties('AWS::OpenSearchService::Domain', {
+      AdvancedSecurityOptions: Match.objectLike({
+        InternalUserDatabaseEnabled: false,
+        MasterUserOptions: { MasterUserARN: { 'Fn::GetAtt': [Match.stringLikeRegexp('^OpenSearchMasterUserRole'), 'Arn'] } }
+      })
+    })
+    template.hasOutput('OpenSearchMasterUserRoleArn', {})
+  })
+
+  test('uses a configured master role as is', () => {
+    const template = synth('dev', {
+      openSearch: { masterUser: { type: 'iam-role', roleArn: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/OpenSearchAdmin' } }
+    })
+    template.hasResourceProperties('AWS::OpenSearchService::Domain', {
+      AdvancedSecurityOptions: Match.objectLike({
+        MasterUserOptions: { MasterUserARN: 'arn:aws:iam::123456789012:role/OpenSearchAdmin' }
+      })
+    })
+  })
+})
+
+describe('ObservabilityStack OpenSearch access', () => {
+  /**
+   * Statements of the domain access policy, with CloudFormation tokens rendered as `<token>`
+   */
+  function accessStatements (template: Template): any[] {
+    const [policy] = Object.values(template.findResources('Custom::OpenSearchAccessPolicy'))
+    const request = JSON.parse(renderCfnString(policy.Properties.Create))
+    return JSON.parse(request.parameters.AccessPolicies).Statement
+  }
+
+  test('grants the domain only to the roles that use it and the admins', () => {
+    const statements = accessStatements(synth('dev'))
+    expect(statements.map(statement => statement.Action)).toEqual([
+      ['es:DescribeDomain', 'es:ESHttp*'],
+      'es:ESHttp*',
+      'es:*'
+    ])
+    for (const statement of statements) {
+      expect(statement.Resource).toEqual(['<token>', '<token>/*'])
+    }
+    expect(statements.map(statement => statement.Principal)).not.toContainEqual({ AWS: '*' })
+    expect(statements[1].Principal.AWS).toHaveLength(3)
+    expect(statements[2].Principal.AWS).toBe('arn:aws:iam::123456789012:role/Admin')
+  })
+
+  test('admits unsigned Dashboards requests only when allowed on purpose, with a suppression', () => {
+    const config = loadEnvironmentConfig('dev', { openSearch: { allowUnsignedDashboardsAccess: true } })
+    const stack = new ObservabilityStack(createApp(), 'dev-observability-stack', config, TEST_STACK_PROPS)
+    const statements = accessStatements(Template.fromStack(stack))
+    // Basic-auth requests through the NLB are unsigned; fine-grained access control authenticates them
+    expect(statements[2]).toMatchObject({ Principal: { AWS: '*' }, Action: 'es:ESHttp*' })
+    expect(statements[2].Condition).toBeUndefined()
+    expect(suppressionsOf(stack.opensearchDomain).map(suppression => suppression.id)).toEqual(['OpenSearchAnyPrincipal'])
+  })
+
+  test('grants configured admins and the master role full access', () => {
+    const statements = accessStatements(synth('dev', {
+      openSearch: {
+        masterUser: { type: 'iam-role', roleArn: 'arn:aws:iam::${AWS_ACCOUNT_ID}:role/OpenSearchAdmin' },
+        admins: ['arn:aws:iam::${AWS_ACCOUNT_ID}:user/ops']
+      }
+    }))
+    expect(statements[statements.length - 1].Principal.AWS).toEqual([
+      'arn:aws:iam::123456789012:user/ops',
+      'arn:aws:iam::123456789012:role/OpenSearchAdmin'
+    ])
+  })
+
+  test('accepts HTTPS only from the cluster, the pipelines, the NLB subnets, Grafana and the lifecycle setup', () => {
+    const template = synth('dev', { openSearch: { allowUnsignedDashboardsAccess: true } })
+    const ingress = [
+      ...Object.values(template.findResources('AWS::EC2::SecurityGroup'))
+        .flatMap(resource => resource.Properties.SecurityGroupIngress ?? []),
+      ...Object.values(template.findResources('AWS::EC2::SecurityGroupIngress'))
+        .map(resource => resource.Properties)
+    ]
+    expect(ingress.filter(rule => rule.CidrIp === '0.0.0.0/0')).toEqual([])
+    expect(ingress.map(rule => rule.Description).sort()).toEqual([
+      'HTTPS from EKS nodes',
+      'HTTPS from EKS nodes shipping logs and traces',
+      'HTTPS from OpenSearch Ingestion pipelines',
+      'HTTPS from the Grafana workspace',
+      'HTTPS from the NLB in the public subnets',
+      'HTTPS from the index lifecycle setup function'
+    ])
+  })
+})
+
+describe('ObservabilityStack index lifecycle', () => {
+  function lifecycleSettings (template: Template): any {
+    const [resource] = Object.values(template.findResources('Custom::OpenSearchIndexLifecycle'))
+    return JSON.parse(resource.Properties.Settings)
+  }
+
+  test('installs ISM policies and index templates before the pipelines start', () => {
+    const template = synth('prod')
+    const settings = lifecycleSettings(template)
+    const [hot, warm, remove] = settings.policies['logs-lifecycle'].states
+    expect(hot.transitions[0].conditions.min_index_age).toBe('14d')
+    expect(warm.actions).toEqual([{ read_only: {} }, { force_merge: { max_num_segments: 1 } }])
+    expect(warm.transitions[0].conditions.min_index_age).toBe('90d')
+    expect(remove.actions).toEqual([{ delete: {} }])
+    expect(settings.policies['raw-span-policy'].states[0].transitions[0].conditions.min_index_age).toBe('30d')
+    expect(settings.indexTemplates.logs.template.settings).toEqual({ number_of_shards: 3, number_of_replicas: 1 })
+    expect(Object.keys(settings.indexTemplates.logs.template.mappings.properties))
+      .toEqual(['@timestamp', 'service_name', 'pod_name', 'namespace', 'container_name', 'level', 'traceId', 'spanId'])
+    expect(settings.legacyTemplates['otel-v1-apm-span-settings'].index_patterns).toEqual(['otel-v1-apm-span-*'])
+
+    const [lifecycleId] = Object.keys(template.findResources('Custom::OpenSearchIndexLifecycle'))
+    for (const pipeline of Object.values(template.findResources('AWS::OSIS::Pipeline'))) {
+      expect(pipeline.DependsOn).toEqual(expect.arrayContaining([lifecycleId]))
+    }
+  })
+
+  test('deletes metric indices after the metrics retention', () => {
+    const settings = lifecycleSettings(synth('dev', {
+      openSearch: { masterUser: { type: 'iam-role' }, indexLifecycle: { metricsRetentionDays: 7 } }
+    }))
+    const policy = settings.policies['metrics-lifecycle']
+    expect(policy.states.map((state: any) => state.name)).toEqual(['hot', 'delete'])
+    expect(policy.states[0].transitions[0].conditions.min_index_age).toBe('7d')
+    const patterns = ['ss4o_metrics-otel-*', 'ss4o_metrics-traces-*', 'trace-anomalies-*']
+    expect(policy.ism_template[0].index_patterns).toEqual(patterns)
+    expect(settings.indexTemplates.metrics).toEqual({
+      index_patterns: patterns,
+      priority: 100,
+      template: { settings: { number_of_shards: 1, number_of_replicas: 0 } }
+    })
+  })
+
+  test('migrates warm log indices to UltraWarm when the domain has warm nodes', () => {
+    const settings = lifecycleSettings(synth('dev', {
+      openSearch: { masterUser: { type: 'iam-role' }, topology: { masterNodes: 3, warmNodes: 2 } }
+    }))
+    expect(settings.policies['logs-lifecycle'].states[1].actions).toEqual([{ warm_migration: {} }])
+    expect(settings.indexTemplates.logs.template.settings.number_of_replicas).toBe(0)
+  })
+
+  test('is skipped with a warning for a secret master user without unsigned access', () => {
+    const stack = new ObservabilityStack(createApp(), 'dev-observability-stack', loadEnvironmentConfig('dev'), TEST_STACK_PROPS)
+    Template.fromStack(stack).resourceCountIs('Custom::OpenSearchIndexLifecycle', 0)
+    Annotations.fromStack(stack).hasWarning('*', Match.stringLikeRegexp('need an IAM master user, or a secret master user'))
+  })
+
+  test('authenticates with the master user secret when unsigned access is allowed', () => {
+    const template = synth('dev', { openSearch: { allowUnsignedDashboardsAccess: true } })
+    template.resourceCountIs('Custom::OpenSearchIndexLifecycle', 1)
+    const [setup] = Object.values(template.findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { MASTER_SECRET_ARN: Match.anyValue() } } }
+    }))
+    expect(setup.Properties.Environment.Variables.MASTER_ROLE_ARN).toBeUndefined()
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+            Resource: setup.Properties.Environment.Variables.MASTER_SECRET_ARN
+          })
+        ])
+      }
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { StackConfig } from '../lib/stack-config'
+import {
+  isBurstableSearchInstanceType,
+  openSearchTopologyProps,
+  resolveOpenSearchTopology
+} from '../lib/opensearch-topology'
+
+const baseConfig: StackConfig = { environment: 'dev', region: 'ap-southeast-1' }
+
+describe('isBurstableSearchInstanceType', () => {
+  test.each(['t3.small.search', 't2.medium.search'])('detects %s as burstable', type => {
+    expect(isBurstableSearchInstanceType(type)).toBe(true)
+  })
+
+  test.each(['m7g.large.search', 'r6g.xlarge.search', 'or1.large.search'])('detects %s as not burstable', type => {
+    expect(isBurstableSearchInstanceType(type)).toBe(false)
+  })
+})
+
+describe('resolveOpenSearchTopology', () => {
+  test('defaults to one data node in one AZ', () => {
+    expect(resolveOpenSearchTopology(baseConfig)).toMatchObject({
+      dataNodes: 1,
+      dataNodeInstanceType: 'm7g.large.search',
+      masterNodes: 0,
+      availabilityZones: 1,
+      multiAzWithStandby: false,
+      warmNodes: 0,
+      coldStorage: false,
+      ebs: { volumeSize: 30 }
+    })
+  })
+
+  test('merges EBS settings with the default volume size', () => {
+    const topology = resolveOpenSearchTopology({ ...baseConfig, openSearch: { topology: { ebs: { iops: 6000 } } } })
+    expect(topology.ebs).toEqual({ volumeSize: 30, iops: 6000 })
+  })
+})
+
+describe('openSearchTopologyProps', () => {
+  test('enables zone awareness only across several AZs', () => {
+    const single = openSearchTopologyProps(resolveOpenSearchTopology(baseConfig))
+    expect(single.zoneAwareness).toEqual({ enabled: false })
+
+    const multi = openSearchTopologyProps(resolveOpenSearchTopology({
+      ...baseConfig,
+      openSearch: { topology: { dataNodes: 2, availabilityZones: 2 } }
+    }))
+    expect(multi.zoneAwareness).toEqual({ enabled: true, availabilityZoneCount: 2 })
+  })
+
+  test('sets master and UltraWarm instance types only with those nodes', () => {
+    expect(openSearchTopologyProps(resolveOpenSearchTopology(baseConfig)).capacity).toMatchObject({
+      masterNodeInstanceType: undefined,
+      warmInstanceType: undefined
+    })
+    expect(openSearchTopologyProps(resolveOpenSearchTopology({
+      ...baseConfig,
+      openSearch: { topology: { masterNodes: 3, warmNodes: 2 } }
+    })).capacity).toMatchObject({
+      masterNodes: 3,
+      masterNodeInstanceType: 'm7g.large.search',
+      warmNodes: 2,
+      warmInstanceType: 'ultrawarm1.medium.search'
+    })
+  })
+})
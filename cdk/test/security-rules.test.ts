@@ -0,0 +1,171 @@
+import * as cdk from 'aws-cdk-lib'
+import * as ec2 from 'aws-cdk-lib/aws-ec2'
+import * as eks from 'aws-cdk-lib/aws-eks'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as opensearch from 'aws-cdk-lib/aws-opensearchservice'
+import { Annotations, Match } from 'aws-cdk-lib/assertions'
+import { SecurityRulesAspect, SecurityRulesAspectProps, suppressSecurityRules } from '../lib/security-rules'
+import { NetworkStack } from '../lib/network-stack'
+import { InfrastructureStack } from '../lib/infrastructure-stack'
+import { ObservabilityStack } from '../lib/observability-stack'
+import { TEST_STACK_PROPS, createApp, loadEnvironmentConfig } from './stack-fixtures'
+
+function checkedStack (props?: SecurityRulesAspectProps) {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack', {
+    env: { account: '123456789012', region: 'eu-west-1' }
+  })
+  cdk.Aspects.of(stack).add(new SecurityRulesAspect(props))
+  return stack
+}
+
+function messages (stack: cdk.Stack, type: 'error' | 'warning' | 'info'): string[] {
+  const annotations = Annotations.fromStack(stack)
+  const found = type === 'error'
+    ? annotations.findError('*', Match.anyValue())
+    : type === 'warning' ? annotations.findWarning('*', Match.anyValue()) : annotations.findInfo('*', Match.anyValue())
+  return found.map(message => String(message.entry.data)).filter(message => message.startsWith('['))
+}
+
+function openSecurityGroup (stack: cdk.Stack, peer: ec2.IPeer = ec2.Peer.anyIpv4()) {
+  const vpc = new ec2.Vpc(stack, 'Vpc', { maxAzs: 1, natGateways: 0 })
+  const securityGroup = new ec2.SecurityGroup(stack, 'SecurityGroup', { vpc })
+  securityGroup.addIngressRule(peer, ec2.Port.tcp(443))
+  return securityGroup
+}
+
+describe('SecurityRulesAspect', () => {
+  test('warns about violations outside prod', () => {
+    const stack = checkedStack()
+    openSecurityGroup(stack)
+
+    expect(messages(stack, 'warning')).toEqual([expect.stringContaining('[HttpsOpenToWorld]')])
+    expect(messages(stack, 'error')).toEqual([])
+  })
+
+  test('reports violations as errors when they must fail synthesis', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    openSecurityGroup(stack)
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining('ingress on 443 from 0.0.0.0/0')])
+  })
+
+  test('accepts HTTPS ingress from the VPC', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    openSecurityGroup(stack, ec2.Peer.ipv4('10.0.0.0/16'))
+
+    expect(messages(stack, 'error')).toEqual([])
+  })
+
+  test('flags OpenSearch access policies open to any principal', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    new opensearch.Domain(stack, 'Domain', {
+      version: opensearch.EngineVersion.OPENSEARCH_2_19,
+      accessPolicies: [
+        new iam.PolicyStatement({
+          principals: [new iam.AnyPrincipal()],
+          actions: ['es:*'],
+          resources: ['*']
+        })
+      ]
+    })
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining('[OpenSearchAnyPrincipal]')])
+  })
+
+  test.each(['es:ESHttp*', 'es:ESHttpGet'])('flags %s granted to any principal', action => {
+    const stack = checkedStack({ failOnViolation: true })
+    new opensearch.Domain(stack, 'Domain', {
+      version: opensearch.EngineVersion.OPENSEARCH_2_19,
+      accessPolicies: [
+        new iam.PolicyStatement({
+          principals: [new iam.AnyPrincipal()],
+          actions: [action],
+          resources: ['*']
+        })
+      ]
+    })
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining(`allows ${action} to any principal`)])
+  })
+
+  test('flags osis:* and servicediscovery:* on every resource', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    const role = new iam.Role(stack, 'Role', { assumedBy: new iam.ServicePrincipal('osis-pipelines.amazonaws.com') })
+    role.addToPolicy(new iam.PolicyStatement({ actions: ['osis:*', 'servicediscovery:*'], resources: ['*'] }))
+    role.addToPolicy(new iam.PolicyStatement({ actions: ['osis:Ingest'], resources: ['*'] }))
+
+    expect(messages(stack, 'error')).toEqual([
+      expect.stringContaining("osis:* is granted on resource '*'"),
+      expect.stringContaining("servicediscovery:* is granted on resource '*'")
+    ])
+  })
+
+  test('flags public EKS endpoints without a CIDR allowlist', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    const cluster = (id: string, resourcesVpcConfig: eks.CfnCluster.ResourcesVpcConfigProperty) =>
+      new eks.CfnCluster(stack, id, { roleArn: 'arn:aws:iam::123456789012:role/eks', resourcesVpcConfig })
+    cluster('Open', { subnetIds: ['subnet-1'], endpointPublicAccess: true })
+    cluster('Allowlisted', { subnetIds: ['subnet-1'], endpointPublicAccess: true, publicAccessCidrs: ['203.0.113.0/24'] })
+    cluster('Private', { subnetIds: ['subnet-1'], endpointPublicAccess: false, endpointPrivateAccess: true })
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining('[EksPublicEndpointOpen]')])
+  })
+
+  test('flags outputs holding a literal password', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    new cdk.CfnOutput(stack, 'Credentials', { value: 'Username: admin, Password: secret' })
+    new cdk.CfnOutput(stack, 'PasswordSecretArn', { value: cdk.Fn.ref('AWS::StackName') })
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining('[PlaintextPasswordOutput]')])
+  })
+
+  test('reports suppressed violations with their reason', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    const securityGroup = openSecurityGroup(stack)
+    suppressSecurityRules(securityGroup, [{ id: 'HttpsOpenToWorld', reason: 'Public endpoint' }])
+
+    expect(messages(stack, 'error')).toEqual([])
+    expect(messages(stack, 'info')).toEqual([expect.stringContaining('(suppressed: Public endpoint)')])
+  })
+
+  test('applies suppressions to the children of a construct', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    openSecurityGroup(stack)
+    suppressSecurityRules(stack, [{ id: 'HttpsOpenToWorld', reason: 'Public endpoint' }])
+
+    expect(messages(stack, 'error')).toEqual([])
+  })
+
+  test('only suppresses the listed rules', () => {
+    const stack = checkedStack({ failOnViolation: true })
+    const securityGroup = openSecurityGroup(stack)
+    suppressSecurityRules(securityGroup, [{ id: 'OpenSearchAnyPrincipal', reason: 'Not this one' }])
+
+    expect(messages(stack, 'error')).toEqual([expect.stringContaining('[HttpsOpenToWorld]')])
+  })
+
+  test('requires a reason and a known rule for every suppression', () => {
+    const stack = checkedStack()
+    expect(() => suppressSecurityRules(stack, [{ id: 'HttpsOpenToWorld', reason: ' ' }]))
+      .toThrow('Suppression of HttpsOpenToWorld on TestStack needs a reason')
+    expect(() => suppressSecurityRules(stack, [{ id: 'NoSuchRule' as any, reason: 'Typo' }]))
+      .toThrow("Unknown security rule 'NoSuchRule' suppressed on TestStack")
+  })
+})
+
+describe('Security rules on the shipped prod stacks', () => {
+  const app = createApp()
+  const config = loadEnvironmentConfig('prod')
+  const stacks = [
+    new NetworkStack(app, 'prod-network-stack', config, TEST_STACK_PROPS),
+    new InfrastructureStack(app, 'prod-infrastructure-stack', config, TEST_STACK_PROPS),
+    new ObservabilityStack(app, 'prod-observability-stack', config, TEST_STACK_PROPS)
+  ]
+  for (const stack of stacks) {
+    cdk.Aspects.of(stack).add(new SecurityRulesAspect({ failOnViolation: true }))
+  }
+
+  test.each(stacks.map(stack => [stack.stackName, stack]))('%s has no unsuppressed violations', (_, stack) => {
+    expect(messages(stack, 'error')).toEqual([])
+  })
+})
@@ -0,0 +1,180 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { CONFIG_ENV_PREFIX, ConfigError, ConfigLoader, ConfigLoadOptions, DEFAULT_CONFIG } from '../lib/stack-config'
+
+const REGION = 'ap-southeast-1'
+
+let configDir: string
+
+beforeEach(() => {
+  configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stack-config-'))
+})
+
+afterEach(() => {
+  fs.rmSync(configDir, { recursive: true, force: true })
+})
+
+function writeConfig (file: string, content: string): string {
+  const location = path.join(configDir, file)
+  fs.writeFileSync(location, content)
+  return location
+}
+
+function load (options: ConfigLoadOptions = {}) {
+  return ConfigLoader.loadConfigWithSources('test', REGION, { env: {}, configDir, ...options })
+}
+
+function loadError (options: ConfigLoadOptions = {}): ConfigError {
+  try {
+    load(options)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError)
+    return error as ConfigError
+  }
+  throw new Error('expected the configuration to be rejected')
+}
+
+describe('ConfigLoader layers', () => {
+  test('later layers win per top-level key: defaults, file, context, environment, overrides', () => {
+    const file = writeConfig('test.yaml', 'eksVersion: "1.31"\nnodeInstanceType: t3.large\nnodeCount: 3\nlegacyExports: true\n')
+    const context: Record<string, unknown> = { nodeInstanceType: 't3.xlarge', nodeCount: 4 }
+    const { config, sources } = load({
+      context: key => context[key],
+      env: { [`${CONFIG_ENV_PREFIX}NODE_COUNT`]: '5', [`${CONFIG_ENV_PREFIX}LEGACY_EXPORTS`]: 'false' },
+      overrides: { legacyExports: true, environment: 'ignored', region: 'ignored' }
+    })
+
+    expect(config).toMatchObject({
+      environment: 'test',
+      region: REGION,
+      vpcCidr: DEFAULT_CONFIG.vpcCidr,
+      eksVersion: '1.31',
+      nodeInstanceType: 't3.xlarge',
+      nodeCount: 5,
+      legacyExports: true
+    })
+    expect(sources).toMatchObject({
+      environment: { source: 'argument' },
+      region: { source: 'argument' },
+      vpcCidr: { source: 'default' },
+      eksVersion: { source: 'file', location: file },
+      nodeInstanceType: { source: 'context', location: 'nodeInstanceType' },
+      nodeCount: { source: 'env', location: 'EKS_OBS_NODE_COUNT' },
+      legacyExports: { source: 'override' }
+    })
+  })
+
+  test('replaces object values as a whole rather than merging them', () => {
+    writeConfig('test.yaml', 'network:\n  natGateways: 2\n  flowLogs: true\n')
+    const { config } = load({ env: { EKS_OBS_NETWORK: '{"natGateways":1}' } })
+    expect(config.network).toEqual({ natGateways: 1 })
+  })
+
+  test('skips null file values and empty environment variables', () => {
+    writeConfig('test.yml', 'nodeCount: null\n')
+    const { config, sources } = load({ env: { EKS_OBS_NODE_COUNT: '' } })
+    expect(config.nodeCount).toBe(DEFAULT_CONFIG.nodeCount)
+    expect(sources.nodeCount).toEqual({ source: 'default' })
+  })
+
+  test('reads JSON files and empty files', () => {
+    writeConfig('test.json', '{ "nodeCount": 6 }')
+    expect(load().config.nodeCount).toBe(6)
+    fs.rmSync(path.join(configDir, 'test.json'))
+    writeConfig('test.yaml', '')
+    expect(load().config.nodeCount).toBe(DEFAULT_CONFIG.nodeCount)
+  })
+})
+
+describe('ConfigLoader coercion', () => {
+  beforeEach(() => {
+    writeConfig('test.yaml', '{}\n')
+  })
+
+  test('parses numbers, booleans and JSON from strings', () => {
+    const context: Record<string, unknown> = { nodeCount: '7', legacyExports: 'true', accessEntries: '[]' }
+    const { config } = load({ context: key => context[key] })
+    expect(config.nodeCount).toBe(7)
+    expect(config.legacyExports).toBe(true)
+    expect(config.accessEntries).toEqual([])
+  })
+
+  test('keeps typed context values of the right kind', () => {
+    const context: Record<string, unknown> = { nodeCount: 8, karpenter: { enabled: true } }
+    const { config } = load({ context: key => context[key] })
+    expect(config.nodeCount).toBe(8)
+    expect(config.karpenter).toEqual({ enabled: true })
+  })
+
+  test.each([
+    [{ EKS_OBS_NODE_COUNT: 'three' }, "environment variable EKS_OBS_NODE_COUNT: 'nodeCount' must be a number, got 'three'"],
+    [{ EKS_OBS_NODE_COUNT: ' ' }, "environment variable EKS_OBS_NODE_COUNT: 'nodeCount' must be a number, got ' '"],
+    [{ EKS_OBS_LEGACY_EXPORTS: 'yes' }, "environment variable EKS_OBS_LEGACY_EXPORTS: 'legacyExports' must be true or false, got 'yes'"],
+    [{ EKS_OBS_NETWORK: '{natGateways' }, "environment variable EKS_OBS_NETWORK: 'network' must be valid JSON"]
+  ])('rejects %j', (env, message) => {
+    const error = loadError({ env })
+    expect(error.message).toContain(message)
+    expect(error.file).toBeUndefined()
+  })
+
+  test('rejects typed context values of the wrong kind', () => {
+    const error = loadError({ context: key => key === 'nodeCount' ? true : undefined })
+    expect(error.message).toBe("context key 'nodeCount': 'nodeCount' must be a number, got true")
+    expect(error.key).toBe('nodeCount')
+  })
+})
+
+describe('ConfigLoader file errors', () => {
+  test('names the files it looked for when there is none', () => {
+    expect(loadError().message).toBe(
+      `No configuration file for environment 'test' (looked for ${['yaml', 'yml', 'json'].map(ext => path.join(configDir, `test.${ext}`)).join(', ')})`
+    )
+  })
+
+  test('rejects more than one file for an environment', () => {
+    const yaml = writeConfig('test.yaml', '{}\n')
+    writeConfig('test.json', '{}')
+    const error = loadError()
+    expect(error.message).toMatch(/^Ambiguous configuration for environment 'test'/)
+    expect(error.file).toBe(yaml)
+  })
+
+  test('reports parse errors with the file', () => {
+    const file = writeConfig('test.json', '{ "nodeCount": ')
+    const error = loadError()
+    expect(error.message).toMatch(new RegExp(`^Failed to parse ${file}: `))
+    expect(error.file).toBe(file)
+  })
+
+  test('rejects a file that is not a mapping', () => {
+    const file = writeConfig('test.yaml', '- nodeCount\n')
+    expect(loadError().message).toBe(`${file}: expected a mapping of configuration keys`)
+  })
+
+  test('rejects unknown keys and values of the wrong kind', () => {
+    const file = writeConfig('test.yaml', 'nodeCounts: 3\n')
+    expect(loadError()).toMatchObject({ message: `${file}: unknown configuration key 'nodeCounts'`, file, key: 'nodeCounts' })
+    writeConfig('test.yaml', 'nodeCount: "3"\n')
+    expect(loadError()).toMatchObject({ message: `${file}: 'nodeCount' must be a number, got "3"`, key: 'nodeCount' })
+  })
+
+  test.each(['constructor', 'toString', 'hasOwnProperty'])('rejects the inherited object key %s', key => {
+    const file = writeConfig('test.yaml', `${key}: 3\n`)
+    expect(loadError()).toMatchObject({ message: `${file}: unknown configuration key '${key}'`, file, key })
+  })
+})
+
+describe('ConfigLoader.describeSources', () => {
+  test('renders one line per key with its value and origin', () => {
+    const file = writeConfig('test.yaml', 'nodeCount: 3\n')
+    const lines = ConfigLoader.describeSources(load({ env: { EKS_OBS_EKS_VERSION: '1.31' } }))
+    expect(lines).toEqual(expect.arrayContaining([
+      'environment = "test" (argument)',
+      `vpcCidr = "${DEFAULT_CONFIG.vpcCidr}" (default)`,
+      `nodeCount = 3 (file: ${file})`,
+      'eksVersion = "1.31" (env: EKS_OBS_EKS_VERSION)'
+    ]))
+    expect(lines).toHaveLength(Object.keys(DEFAULT_CONFIG).length + 2)
+  })
+})
@@ -0,0 +1,67 @@
+import * as cdk from 'aws-cdk-lib'
+import { Template } from 'aws-cdk-lib/assertions'
+import { ConfigLoader, StackConfig } from '../lib/stack-config'
+
+/**
+ * Shipped environments every stack is tested against
+ */
+export const ENVIRONMENTS = ['dev', 'staging', 'prod']
+
+export const TEST_ACCOUNT = '123456789012'
+export const TEST_REGION = 'ap-southeast-1'
+
+/**
+ * Stack props pinned to a fixed account and region so templates are deterministic
+ */
+export const TEST_STACK_PROPS: cdk.StackProps = {
+  env: { account: TEST_ACCOUNT, region: TEST_REGION }
+}
+
+/**
+ * Configuration of a shipped environment, ignoring EKS_OBS_* variables of the shell running the tests
+ */
+export function loadEnvironmentConfig (environment: string, overrides?: Partial<StackConfig>): StackConfig {
+  const config = ConfigLoader.loadConfig(environment, TEST_REGION, { env: {}, overrides })
+  ConfigLoader.validateConfig(config)
+  return config
+}
+
+/**
+ * App with the availability zone lookup answered, so VPCs span real AZ names
+ */
+export function createApp (): cdk.App {
+  return new cdk.App({
+    context: {
+      [`availability-zones:account=${TEST_ACCOUNT}:region=${TEST_REGION}`]: [
+        `${TEST_REGION}a`,
+        `${TEST_REGION}b`,
+        `${TEST_REGION}c`
+      ]
+    }
+  })
+}
+
+/**
+ * Resources and outputs of a template with asset hashes masked, for snapshots that
+ * only change when the infrastructure does
+ */
+export function snapshotOf (template: Template): object {
+  const { Resources, Outputs } = template.toJSON()
+  return JSON.parse(
+    JSON.stringify({ Resources, Outputs }).replace(/[0-9a-f]{64}/g, '[asset-hash]')
+  )
+}
+
+/**
+ * Render a CloudFormation string value, replacing intrinsic functions with `<token>`
+ */
+export function renderCfnString (value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  const join = (value as { 'Fn::Join'?: [string, unknown[]] })['Fn::Join']
+  if (join) {
+    return join[1].map(renderCfnString).join(join[0])
+  }
+  return '<token>'
+}
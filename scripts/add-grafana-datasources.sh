@@ -0,0 +1,91 @@
+#!/bin/bash
+# Add the Prometheus workspaces aggregated by the central Grafana workspace as data sources.
+# Run it after deploying the central target with the targets it aggregates; it can be re-run.
+
+STACK_NAME=${1:-prod-observability-stack}
+REGION=${2:-$(aws configure get region)}
+
+stack_output() {
+  aws cloudformation describe-stacks \
+    --region $REGION \
+    --stack-name $STACK_NAME \
+    --query "Stacks[0].Outputs[?OutputKey==\`$1\`].OutputValue" \
+    --output text \
+    --no-cli-pager
+}
+
+# Get the Grafana workspace from CloudFormation
+GRAFANA_WORKSPACE_ID=$(stack_output GrafanaWorkspaceId)
+GRAFANA_ENDPOINT=$(stack_output GrafanaEndpoint)
+
+# Get the aggregated Prometheus endpoints, one "<OutputKey> <URL>" per line
+PROMETHEUS_ENDPOINTS=$(aws cloudformation describe-stacks \
+  --region $REGION \
+  --stack-name $STACK_NAME \
+  --query 'Stacks[0].Outputs[?starts_with(OutputKey, `AggregatedPrometheusEndpoint`)].[OutputKey,OutputValue]' \
+  --output text \
+  --no-cli-pager)
+
+if [ -z "$GRAFANA_WORKSPACE_ID" ] || [ "$GRAFANA_WORKSPACE_ID" == "None" ]; then
+  echo "$STACK_NAME has no Grafana workspace; pass the stack of grafana.central"
+  exit 1
+fi
+if [ -z "$PROMETHEUS_ENDPOINTS" ]; then
+  echo "$STACK_NAME lists no AggregatedPrometheusEndpoint outputs"
+  exit 1
+fi
+
+echo "Using GRAFANA_WORKSPACE_ID: $GRAFANA_WORKSPACE_ID"
+echo "Using GRAFANA_ENDPOINT: $GRAFANA_ENDPOINT"
+
+# Short-lived admin token for the Grafana HTTP API; the service account is deleted on exit
+SERVICE_ACCOUNT_ID=$(aws grafana create-workspace-service-account \
+  --region $REGION \
+  --workspace-id $GRAFANA_WORKSPACE_ID \
+  --grafana-role ADMIN \
+  --name "datasource-setup-$(date +%s)" \
+  --query id \
+  --output text) || exit 1
+trap 'aws grafana delete-workspace-service-account --region $REGION --workspace-id $GRAFANA_WORKSPACE_ID --service-account-id $SERVICE_ACCOUNT_ID > /dev/null' EXIT
+GRAFANA_TOKEN=$(aws grafana create-workspace-service-account-token \
+  --region $REGION \
+  --workspace-id $GRAFANA_WORKSPACE_ID \
+  --service-account-id $SERVICE_ACCOUNT_ID \
+  --name datasource-setup \
+  --seconds-to-live 900 \
+  --query serviceAccountToken.key \
+  --output text) || exit 1
+
+grafana_api() {
+  curl -s -o /dev/null -w '%{http_code}' \
+    -X $1 \
+    -H "Authorization: Bearer $GRAFANA_TOKEN" \
+    -H "Content-Type: application/json" \
+    "https://$GRAFANA_ENDPOINT/api/datasources$2" \
+    ${3:+-d "$3"}
+}
+
+# One Prometheus data source per endpoint, signed with the workspace role in the endpoint's
+# region; a fixed uid lets a re-run update the data source instead of adding another
+FAILED=0
+while read -r OUTPUT_KEY PROMETHEUS_ENDPOINT; do
+  SUFFIX=${OUTPUT_KEY#AggregatedPrometheusEndpoint}
+  DATASOURCE_UID="prometheus-$(echo $SUFFIX | tr '[:upper:]' '[:lower:]')"
+  DATASOURCE_REGION=$(echo $PROMETHEUS_ENDPOINT | sed -E 's|https://aps-workspaces\.([^.]+)\..*|\1|')
+  DATASOURCE=$(printf '{"uid":"%s","name":"Prometheus %s","type":"prometheus","access":"proxy","url":"%s","jsonData":{"httpMethod":"POST","sigV4Auth":true,"sigV4AuthType":"ec2_iam_role","sigV4Region":"%s"}}' \
+    "$DATASOURCE_UID" "$SUFFIX" "$PROMETHEUS_ENDPOINT" "$DATASOURCE_REGION")
+
+  if [ "$(grafana_api GET /uid/$DATASOURCE_UID)" == "200" ]; then
+    STATUS=$(grafana_api PUT /uid/$DATASOURCE_UID "$DATASOURCE")
+  else
+    STATUS=$(grafana_api POST "" "$DATASOURCE")
+  fi
+  if [ "$STATUS" == "200" ]; then
+    echo "Data source $DATASOURCE_UID: $PROMETHEUS_ENDPOINT ($DATASOURCE_REGION)"
+  else
+    echo "Data source $DATASOURCE_UID failed with HTTP $STATUS"
+    FAILED=1
+  fi
+done <<< "$PROMETHEUS_ENDPOINTS"
+
+exit $FAILED
@@ -35,17 +35,40 @@ FLUENT_BIT_INGESTION_ROLE_ARN=$(aws cloudformation describe-stacks \
   --output text \
   --no-cli-pager)
 
+# Get the multiline parsers of pipelines.logs.parsing from CloudFormation; the output is
+# missing when multiline joining is off
+LOG_MULTILINE_PARSERS=$(aws cloudformation describe-stacks \
+  --stack-name ${ENVIRONMENT}-observability-stack \
+  --query 'Stacks[0].Outputs[?OutputKey==`LogMultilineParsers`].OutputValue' \
+  --output text \
+  --no-cli-pager)
+
+# Join stack traces with the multiline filter; its continuation lines carry the
+# indentation of fluentbit.yaml
+if [ -n "$LOG_MULTILINE_PARSERS" ] && [ "$LOG_MULTILINE_PARSERS" != "None" ]; then
+  MULTILINE_FILTER="[FILTER]
+        Name                  multiline
+        Match                 kube.*
+        multiline.key_content message
+        multiline.parser      ${LOG_MULTILINE_PARSERS}"
+else
+  LOG_MULTILINE_PARSERS="none"
+  MULTILINE_FILTER=""
+fi
+
 # Export variables for envsubst
 export AWS_REGION=$REGION
 export OPENSEARCH_ENDPOINT=$OPENSEARCH_ENDPOINT
 export LOGS_INGESTION_URL=$LOGS_PIPELINE_HOST
 export FLUENT_BIT_ROLE_ARN=$FLUENT_BIT_ROLE_ARN
 export FLUENT_BIT_INGESTION_ROLE_ARN=$FLUENT_BIT_INGESTION_ROLE_ARN
+export MULTILINE_FILTER=$MULTILINE_FILTER
 
 echo "Using AWS_REGION: $AWS_REGION"
 echo "Using LOGS_PIPELINE_HOST: $LOGS_PIPELINE_HOST"
 echo "Using FLUENT_BIT_ROLE_ARN: $FLUENT_BIT_ROLE_ARN"
 echo "Using FLUENT_BIT_INGESTION_ROLE_ARN: $FLUENT_BIT_INGESTION_ROLE_ARN"
+echo "Using LOG_MULTILINE_PARSERS: $LOG_MULTILINE_PARSERS"
 
 # Deploy FluentBit with environment variable substitution
 envsubst < k8s-res/log/fluentbit.yaml | kubectl apply -f -
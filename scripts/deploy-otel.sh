@@ -17,6 +17,13 @@ TRACE_PIPELINE_ENDPOINT=$(aws cloudformation describe-stacks \
   --output text \
   --no-cli-pager)
 
+# Empty unless the stack has a metrics pipeline
+METRICS_PIPELINE_ENDPOINT=$(aws cloudformation describe-stacks \
+  --stack-name ${ENVIRONMENT}-observability-stack \
+  --query 'Stacks[0].Outputs[?OutputKey==`MetricsIngestionUrl`].OutputValue' \
+  --output text \
+  --no-cli-pager)
+
 OPENSEARCH_ENDPOINT=$(aws cloudformation describe-stacks \
   --stack-name ${ENVIRONMENT}-observability-stack \
   --query 'Stacks[0].Outputs[?OutputKey==`OpenSearchEndpointExport`].OutputValue' \
@@ -30,10 +37,21 @@ OTEL_COLLECTOR_ROLE_ARN=$(aws cloudformation describe-stacks \
   --output text \
   --no-cli-pager)
 
+# Export metrics to the metrics pipeline too when the stack has one
+if [ -n "$METRICS_PIPELINE_ENDPOINT" ] && [ "$METRICS_PIPELINE_ENDPOINT" != "None" ]; then
+  METRICS_EXPORTERS="[prometheusremotewrite, otlphttp/metrics]"
+else
+  # The unused exporter still needs a well-formed endpoint
+  METRICS_PIPELINE_ENDPOINT="metrics-pipeline.invalid"
+  METRICS_EXPORTERS="[prometheusremotewrite]"
+fi
+
 # Export variables for envsubst
 export AWS_REGION=$REGION
 export PROMETHEUS_REMOTE_WRITE_ENDPOINT="${PROMETHEUS_REMOTE_WRITE_ENDPOINT}api/v1/remote_write"
 export TRACE_PIPELINE_ENDPOINT=$TRACE_PIPELINE_ENDPOINT
+export METRICS_PIPELINE_ENDPOINT=$METRICS_PIPELINE_ENDPOINT
+export METRICS_EXPORTERS=$METRICS_EXPORTERS
 export OTEL_COLLECTOR_ROLE_ARN=$OTEL_COLLECTOR_ROLE_ARN
 export OPENSEARCH_ENDPOINT=$OPENSEARCH_ENDPOINT
 export OTEL_COLLECTOR_IMAGE="public.ecr.aws/aws-observability/aws-otel-collector:latest"
@@ -41,6 +59,8 @@ export OTEL_COLLECTOR_IMAGE="public.ecr.aws/aws-observability/aws-otel-collector
 echo "Using AWS_REGION: $AWS_REGION"
 echo "Using PROMETHEUS_REMOTE_WRITE_ENDPOINT: $PROMETHEUS_REMOTE_WRITE_ENDPOINT"
 echo "Using TRACE_PIPELINE_ENDPOINT: $TRACE_PIPELINE_ENDPOINT"
+echo "Using METRICS_PIPELINE_ENDPOINT: $METRICS_PIPELINE_ENDPOINT"
+echo "Using METRICS_EXPORTERS: $METRICS_EXPORTERS"
 echo "Using OPENSEARCH_ENDPOINT: $OPENSEARCH_ENDPOINT"
 echo "Using OTEL_COLLECTOR_ROLE_ARN: $OTEL_COLLECTOR_ROLE_ARN"
 